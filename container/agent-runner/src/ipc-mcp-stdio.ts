@@ -17,9 +17,19 @@ const TASKS_DIR = path.join(IPC_DIR, 'tasks');
 
 // Context from environment variables (set by the agent runner)
 const chatJid = process.env.NANOCLAW_CHAT_JID!;
+const threadId = process.env.NANOCLAW_THREAD_ID || undefined;
 const groupFolder = process.env.NANOCLAW_GROUP_FOLDER!;
 const isMain = process.env.NANOCLAW_IS_MAIN === '1';
 
+// What the host will send (src/attachments.ts), checked here so a file it
+// would refuse is reported to the agent instead of dropped
+const SENDABLE_EXTENSIONS = new Set([
+  '.csv', '.docx', '.gif', '.jpg', '.jpeg', '.json', '.m4a', '.md', '.mp3',
+  '.mp4', '.ogg', '.pdf', '.png', '.pptx', '.txt', '.wav', '.webp', '.xlsx',
+  '.zip',
+]);
+const MAX_FILE_SIZE = 25 * 1024 * 1024;
+
 function writeIpcFile(dir: string, data: object): string {
   fs.mkdirSync(dir, { recursive: true });
 
@@ -45,6 +55,7 @@ server.tool(
   {
     text: z.string().describe('The message text to send'),
     sender: z.string().optional().describe('Your role/identity name (e.g. "Researcher"). When set, messages appear from a dedicated bot in Telegram.'),
+    reply_to: z.string().optional().describe('The id of a message to reply to (the id attribute of a <message> in your prompt). On platforms with quoting or threads, the reply is attached to that message.'),
   },
   async (args) => {
     const data: Record<string, string | undefined> = {
@@ -52,6 +63,8 @@ server.tool(
       chatJid,
       text: args.text,
       sender: args.sender || undefined,
+      replyTo: args.reply_to || undefined,
+      threadId,
       groupFolder,
       timestamp: new Date().toISOString(),
     };
@@ -62,6 +75,113 @@ server.tool(
   },
 );
 
+server.tool(
+  'send_file',
+  `Send a file from your workspace to the user or group: charts, CSVs, PDFs, images, audio, documents. Save the file under /workspace/group first, then pass its path.
+
+Allowed types: png, jpg, gif, webp, pdf, csv, txt, md, json, xlsx, docx, pptx, zip, mp3, ogg, m4a, wav, mp4. Files must be under 25MB. On channels that can't receive files, the user gets the caption and a note that the file could not be sent.`,
+  {
+    path: z.string().describe('Path to the file, absolute under /workspace/group (e.g. "/workspace/group/report.pdf") or relative to it'),
+    caption: z.string().optional().describe('Optional message to send with the file'),
+  },
+  async (args) => {
+    const GROUP_DIR = '/workspace/group';
+    const resolved = path.resolve(GROUP_DIR, args.path);
+    if (!resolved.startsWith(`${GROUP_DIR}/`)) {
+      return {
+        content: [{ type: 'text' as const, text: `File must be under ${GROUP_DIR}. Copy it there first.` }],
+        isError: true,
+      };
+    }
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) {
+      return {
+        content: [{ type: 'text' as const, text: `File not found: ${resolved}` }],
+        isError: true,
+      };
+    }
+    // A symlink out of the group folder is refused by the host
+    if (!fs.realpathSync(resolved).startsWith(`${fs.realpathSync(GROUP_DIR)}/`)) {
+      return {
+        content: [{ type: 'text' as const, text: `File must be under ${GROUP_DIR}, not linked from elsewhere. Copy it there first.` }],
+        isError: true,
+      };
+    }
+    if (!SENDABLE_EXTENSIONS.has(path.extname(resolved).toLowerCase())) {
+      return {
+        content: [{ type: 'text' as const, text: `File type not allowed: ${path.basename(resolved)}. Convert it to one of the allowed types first.` }],
+        isError: true,
+      };
+    }
+    const { size } = fs.statSync(resolved);
+    if (size > MAX_FILE_SIZE) {
+      return {
+        content: [{ type: 'text' as const, text: `File is ${size} bytes, over the 25MB limit.` }],
+        isError: true,
+      };
+    }
+
+    writeIpcFile(MESSAGES_DIR, {
+      type: 'file',
+      chatJid,
+      path: resolved,
+      caption: args.caption || undefined,
+      threadId,
+      groupFolder,
+      timestamp: new Date().toISOString(),
+    });
+
+    return { content: [{ type: 'text' as const, text: `File ${path.basename(resolved)} queued for sending.` }] };
+  },
+);
+
+server.tool(
+  'ask_user',
+  `Ask the user a question with fixed choices and wait for the answer. The question appears as buttons or a poll where the platform supports them, otherwise as a numbered list the user replies to.
+
+Use this to confirm before anything destructive or hard to undo (deleting files, sending email on someone's behalf, spending money), or when you need a decision to continue. If no answer arrives in time, do NOT assume consent: stop, or take the safe option.`,
+  {
+    question: z.string().describe('The question to ask'),
+    choices: z.array(z.string()).min(2).max(10).describe('The answers the user can pick from (2-10), e.g. ["Delete", "Keep"]'),
+    timeout_seconds: z.number().int().min(10).max(1800).default(300).describe('How long to wait for an answer (default 300, max 1800)'),
+  },
+  async (args) => {
+    const promptId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    writeIpcFile(MESSAGES_DIR, {
+      type: 'prompt',
+      chatJid,
+      threadId,
+      promptId,
+      question: args.question,
+      choices: args.choices,
+      timeoutMs: args.timeout_seconds * 1000,
+      groupFolder,
+      timestamp: new Date().toISOString(),
+    });
+
+    // The host writes the answer into this container's IPC input
+    const answerFile = path.join(IPC_DIR, 'input', 'answers', `${promptId}.json`);
+    const deadline = Date.now() + args.timeout_seconds * 1000;
+    while (Date.now() < deadline) {
+      if (fs.existsSync(answerFile)) {
+        try {
+          const answer = JSON.parse(fs.readFileSync(answerFile, 'utf-8'));
+          fs.unlinkSync(answerFile);
+          return {
+            content: [{ type: 'text' as const, text: `User chose: ${answer.answer} (from ${answer.sender})` }],
+          };
+        } catch {
+          // Half-written or already consumed: try again on the next tick
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    return {
+      content: [{ type: 'text' as const, text: `No answer within ${args.timeout_seconds} seconds. Do not assume consent.` }],
+    };
+  },
+);
+
 server.tool(
   'schedule_task',
   `Schedule a recurring or one-time task. The task will run as a full agent with access to all tools. Returns the task ID for future reference. To modify an existing task, use update_task instead.
@@ -190,6 +310,41 @@ server.tool(
   },
 );
 
+server.tool(
+  'get_feedback',
+  `Read how people in this chat reacted to your earlier messages (emoji reactions), newest first. Use it to learn what they find helpful and adjust your style.`,
+  {
+    limit: z.number().int().positive().max(50).default(20).describe('How many reactions to return'),
+  },
+  async (args) => {
+    const feedbackFile = path.join(IPC_DIR, 'feedback.json');
+
+    try {
+      if (!fs.existsSync(feedbackFile)) {
+        return { content: [{ type: 'text' as const, text: 'No feedback yet.' }] };
+      }
+
+      const feedback = JSON.parse(fs.readFileSync(feedbackFile, 'utf-8')).slice(0, args.limit);
+      if (feedback.length === 0) {
+        return { content: [{ type: 'text' as const, text: 'No feedback yet.' }] };
+      }
+
+      const formatted = feedback
+        .map(
+          (f: { content: string; emoji: string; sender_name: string; timestamp: string }) =>
+            `- ${f.emoji} from ${f.sender_name} (${f.timestamp}) on: "${f.content.slice(0, 200)}"`,
+        )
+        .join('\n');
+
+      return { content: [{ type: 'text' as const, text: `Reactions to your messages:\n${formatted}` }] };
+    } catch (err) {
+      return {
+        content: [{ type: 'text' as const, text: `Error reading feedback: ${err instanceof Error ? err.message : String(err)}` }],
+      };
+    }
+  },
+);
+
 server.tool(
   'pause_task',
   'Pause a scheduled task. It will not run until resumed.',
@@ -306,7 +461,9 @@ Use available_groups.json to find the JID for a group. The folder name must be c
     jid: z.string().describe('The chat JID (e.g., "120363336345536173@g.us", "tg:-1001234567890", "dc:1234567890123456")'),
     name: z.string().describe('Display name for the group'),
     folder: z.string().describe('Channel-prefixed folder name (e.g., "whatsapp_family-chat", "telegram_dev-team")'),
-    trigger: z.string().describe('Trigger word (e.g., "@Andy")'),
+    trigger: z.string().describe('Trigger word (e.g., "@Andy"). Separate aliases with commas ("@Andy, @Bot") or pass a regex as "/pattern/flags".'),
+    trigger_mode: z.enum(['start', 'mention']).optional().describe('start=trigger must open the message (default), mention=trigger may appear anywhere in the message. Ignored for regex triggers.'),
+    debounce_ms: z.number().int().min(0).optional().describe('After a trigger, wait this many ms of quiet for follow-up messages before answering (e.g. 3000 for people who send a request as several messages). 0 answers at once. Defaults to the host setting.'),
   },
   async (args) => {
     if (!isMain) {
@@ -322,6 +479,8 @@ Use available_groups.json to find the JID for a group. The folder name must be c
       name: args.name,
       folder: args.folder,
       trigger: args.trigger,
+      triggerMode: args.trigger_mode,
+      debounceMs: args.debounce_ms,
       timestamp: new Date().toISOString(),
     };
 
@@ -333,6 +492,100 @@ Use available_groups.json to find the JID for a group. The folder name must be c
   },
 );
 
+server.tool(
+  'link_identity',
+  `Link a platform sender ID to a person, so their messages from every platform are treated as one human. Main group only.
+
+Creates the person on first use (display_name is then required); later calls update the name or roles if given. Sender IDs look like "+15551234567" (Signal, WhatsApp), "@alice:example.org" (Matrix) or "account:alice@libera" (IRC). A sender ID belongs to the channel of a chat it writes in. Channels whose senders anyone can claim (HTTP, email, IRC nicks) cannot be linked. Linked senders appear in messages as person="<person_id>" under the person's name. Roles can be allowed in the sender allowlist as "role:<name>".`,
+  {
+    sender: z.string().describe('Platform sender ID to link'),
+    chat_jid: z.string().optional().describe('JID of a chat the sender writes in, which tells the channel (defaults to this chat)'),
+    person_id: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,63}$/).describe('Short lowercase slug for the person, e.g. "alice"'),
+    display_name: z.string().optional().describe('Name to show for the person (required when creating them)'),
+    roles: z.array(z.string()).optional().describe('Replaces the person\'s roles, e.g. ["admin"]'),
+  },
+  async (args) => {
+    if (!isMain) {
+      return {
+        content: [{ type: 'text' as const, text: 'Only the main group can link identities.' }],
+        isError: true,
+      };
+    }
+
+    writeIpcFile(TASKS_DIR, {
+      type: 'link_identity',
+      chatJid: args.chat_jid || chatJid,
+      sender: args.sender,
+      personId: args.person_id,
+      displayName: args.display_name,
+      roles: args.roles,
+      timestamp: new Date().toISOString(),
+    });
+
+    return { content: [{ type: 'text' as const, text: `Linking ${args.sender} to ${args.person_id} requested.` }] };
+  },
+);
+
+server.tool(
+  'unlink_identity',
+  'Unlink a platform sender ID from its person. A person with no sender IDs left is removed. Main group only.',
+  {
+    channel: z.string().describe('Channel the sender ID belongs to, as shown by list_people'),
+    sender: z.string().describe('Platform sender ID to unlink'),
+  },
+  async (args) => {
+    if (!isMain) {
+      return {
+        content: [{ type: 'text' as const, text: 'Only the main group can unlink identities.' }],
+        isError: true,
+      };
+    }
+
+    writeIpcFile(TASKS_DIR, {
+      type: 'unlink_identity',
+      channel: args.channel,
+      sender: args.sender,
+      timestamp: new Date().toISOString(),
+    });
+
+    return { content: [{ type: 'text' as const, text: `Unlinking ${args.sender} requested.` }] };
+  },
+);
+
+server.tool(
+  'list_people',
+  'List people and the platform sender IDs linked to them. Main group only.',
+  {},
+  async () => {
+    const peopleFile = path.join(IPC_DIR, 'people.json');
+
+    try {
+      const people = fs.existsSync(peopleFile) ? JSON.parse(fs.readFileSync(peopleFile, 'utf-8')) : [];
+      if (people.length === 0) {
+        return { content: [{ type: 'text' as const, text: 'No linked identities.' }] };
+      }
+
+      const formatted = people
+        .map(
+          (p: {
+            id: string;
+            display_name: string;
+            roles: string[];
+            identities: Array<{ channel: string; sender: string }>;
+          }) =>
+            `- ${p.display_name} [${p.id}]${p.roles.length > 0 ? ` roles: ${p.roles.join(', ')}` : ''}\n  ${p.identities.map((i) => `${i.sender} (${i.channel || 'unknown channel'})`).join(', ')}`,
+        )
+        .join('\n');
+
+      return { content: [{ type: 'text' as const, text: `People:\n${formatted}` }] };
+    } catch (err) {
+      return {
+        content: [{ type: 'text' as const, text: `Error reading people: ${err instanceof Error ? err.message : String(err)}` }],
+      };
+    }
+  },
+);
+
 // Start the stdio transport
 const transport = new StdioServerTransport();
 await server.connect(transport);
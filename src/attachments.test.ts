@@ -0,0 +1,150 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('./config.js', () => ({
+  DATA_DIR: '/tmp/nanoclaw-test-data',
+  GROUPS_DIR: '/tmp/nanoclaw-test-attachments',
+  MAX_ATTACHMENT_SIZE: 16,
+}));
+
+vi.mock('./db.js', () => ({
+  storeAttachment: vi.fn(),
+}));
+
+import { resolveOutboundFile, saveAttachments } from './attachments.js';
+import { GROUPS_DIR } from './config.js';
+import { storeAttachment } from './db.js';
+import { NewMessage } from './types.js';
+
+const MSG: NewMessage = {
+  id: '<CAF+abc@mail.example.com>',
+  chat_jid: 'email:CAF+abc@mail.example.com',
+  sender: 'alice@example.com',
+  sender_name: 'Alice',
+  content: 'see attached',
+  timestamp: '2024-01-01T00:00:00.000Z',
+};
+
+describe('saveAttachments', () => {
+  beforeEach(() => {
+    vi.mocked(storeAttachment).mockClear();
+  });
+
+  afterEach(() => {
+    fs.rmSync(GROUPS_DIR, { recursive: true, force: true });
+  });
+
+  it('writes files under the group folder and records them', () => {
+    const saved = saveAttachments('email_alice', MSG, [
+      { data: Buffer.from('PNGDATA'), mime: 'image/png' },
+      { data: Buffer.from('a,b'), mime: 'text/csv', filename: 'q3 report.csv' },
+    ]);
+
+    expect(saved).toEqual([
+      {
+        path: 'attachments/CAF_abc_mail.example.com_/1-attachment.png',
+        mime: 'image/png',
+        size: 7,
+      },
+      {
+        path: 'attachments/CAF_abc_mail.example.com_/2-q3_report.csv',
+        mime: 'text/csv',
+        filename: 'q3 report.csv',
+        size: 3,
+      },
+    ]);
+    const onDisk = path.join(GROUPS_DIR, 'email_alice', saved[1].path);
+    expect(fs.readFileSync(onDisk, 'utf-8')).toBe('a,b');
+    expect(storeAttachment).toHaveBeenCalledWith(
+      MSG.id,
+      MSG.chat_jid,
+      saved[0],
+    );
+  });
+
+  it('keeps platform file names from escaping the message directory', () => {
+    const [saved] = saveAttachments('email_alice', MSG, [
+      { data: Buffer.from('x'), mime: 'text/plain', filename: '../../.env' },
+    ]);
+    expect(saved.path).toBe('attachments/CAF_abc_mail.example.com_/1-env');
+  });
+
+  it('skips attachments over the size limit', () => {
+    const saved = saveAttachments('email_alice', MSG, [
+      { data: Buffer.alloc(17), mime: 'video/mp4' },
+      { data: Buffer.from('ok'), mime: 'text/plain' },
+    ]);
+    expect(saved.map((a) => a.path)).toEqual([
+      'attachments/CAF_abc_mail.example.com_/2-attachment.txt',
+    ]);
+    expect(storeAttachment).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('resolveOutboundFile', () => {
+  const groupDir = path.join(GROUPS_DIR, 'email_alice');
+
+  beforeEach(() => {
+    fs.mkdirSync(path.join(groupDir, 'out'), { recursive: true });
+    fs.writeFileSync(path.join(groupDir, 'out', 'chart.png'), 'PNG');
+  });
+
+  afterEach(() => {
+    fs.rmSync(GROUPS_DIR, { recursive: true, force: true });
+  });
+
+  it('maps container paths and relative paths to the group folder', () => {
+    const expected = {
+      path: fs.realpathSync(path.join(groupDir, 'out', 'chart.png')),
+      mime: 'image/png',
+      filename: 'chart.png',
+      size: 3,
+    };
+    expect(
+      resolveOutboundFile('email_alice', '/workspace/group/out/chart.png'),
+    ).toEqual(expected);
+    expect(resolveOutboundFile('email_alice', 'out/chart.png')).toEqual(
+      expected,
+    );
+  });
+
+  it('rejects paths outside the group folder', () => {
+    expect(() =>
+      resolveOutboundFile('email_alice', '/workspace/project/.env'),
+    ).toThrow(/must be under \/workspace\/group/);
+    expect(() =>
+      resolveOutboundFile('email_alice', '/workspace/group/../other/x.png'),
+    ).toThrow(/escapes the group folder/);
+  });
+
+  it('rejects symlinks that point outside the group folder', () => {
+    const outside = path.join(GROUPS_DIR, 'other');
+    fs.mkdirSync(outside, { recursive: true });
+    fs.writeFileSync(path.join(outside, 'secret.txt'), 'secret');
+    fs.symlinkSync(
+      path.join(outside, 'secret.txt'),
+      path.join(groupDir, 'link.txt'),
+    );
+    expect(() => resolveOutboundFile('email_alice', 'link.txt')).toThrow(
+      /escapes the group folder/,
+    );
+  });
+
+  it('rejects missing, oversized and disallowed files', () => {
+    fs.writeFileSync(path.join(groupDir, 'big.pdf'), Buffer.alloc(17));
+    fs.writeFileSync(path.join(groupDir, 'run.sh'), 'echo');
+    expect(() => resolveOutboundFile('email_alice', 'nope.pdf')).toThrow(
+      /not found/,
+    );
+    expect(() => resolveOutboundFile('email_alice', 'big.pdf')).toThrow(
+      /over the 16 byte limit/,
+    );
+    expect(() => resolveOutboundFile('email_alice', 'run.sh')).toThrow(
+      /type not allowed/,
+    );
+    expect(() => resolveOutboundFile('email_alice', 'out')).toThrow(
+      /Not a file/,
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import fs from 'fs';
+import path from 'path';
+
+import { MAX_ATTACHMENT_SIZE } from './config.js';
+import { storeAttachment } from './db.js';
+import { resolveGroupFolderPath } from './group-folder.js';
+import { logger } from './logger.js';
+import {
+  InboundAttachment,
+  MessageAttachment,
+  NewMessage,
+  OutboundFile,
+} from './types.js';
+
+// Relative to the group folder (mounted at /workspace/group)
+export const ATTACHMENTS_DIR = 'attachments';
+
+// Container path of the group folder
+const CONTAINER_GROUP_DIR = '/workspace/group';
+
+// File types agents may send, by extension. Also names inbound media that
+// arrives without a file name (first extension listed for a type wins).
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.docx':
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.gif': 'image/gif',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.json': 'application/json',
+  '.m4a': 'audio/mp4',
+  '.md': 'text/markdown',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4',
+  '.ogg': 'audio/ogg',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.pptx':
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.txt': 'text/plain',
+  '.wav': 'audio/wav',
+  '.webp': 'image/webp',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.zip': 'application/zip',
+};
+
+function extensionFor(mime: string): string {
+  const type = mime.split(';')[0].trim().toLowerCase();
+  const match = Object.entries(MIME_TYPES).find(([, m]) => m === type);
+  return match ? match[0] : '.bin';
+}
+
+/** Reduce a platform-supplied name to something safe as a single path segment. */
+function safeSegment(name: string, maxLength: number): string {
+  const cleaned = path
+    .basename(name)
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(-maxLength);
+  return cleaned || 'file';
+}
+
+function fileNameFor(attachment: InboundAttachment, index: number): string {
+  const base = attachment.filename
+    ? safeSegment(attachment.filename, 100)
+    : `attachment${extensionFor(attachment.mime)}`;
+  return `${index + 1}-${base}`;
+}
+
+/**
+ * Write a message's media under the group folder and record it in the DB.
+ * Files land in attachments/<message-id>/, so a redelivered message
+ * overwrites its own files instead of piling up copies. Attachments over
+ * MAX_ATTACHMENT_SIZE are skipped.
+ */
+export function saveAttachments(
+  groupFolder: string,
+  msg: NewMessage,
+  attachments: InboundAttachment[],
+): MessageAttachment[] {
+  const relDir = path.posix.join(ATTACHMENTS_DIR, safeSegment(msg.id, 120));
+  const dir = path.join(resolveGroupFolderPath(groupFolder), relDir);
+  const saved: MessageAttachment[] = [];
+
+  attachments.forEach((attachment, index) => {
+    if (attachment.data.length > MAX_ATTACHMENT_SIZE) {
+      logger.warn(
+        {
+          chatJid: msg.chat_jid,
+          messageId: msg.id,
+          size: attachment.data.length,
+        },
+        'Attachment exceeds size limit, skipping',
+      );
+      return;
+    }
+    const name = fileNameFor(attachment, index);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, name), attachment.data);
+    const stored: MessageAttachment = {
+      path: path.posix.join(relDir, name),
+      mime: attachment.mime,
+      ...(attachment.filename ? { filename: attachment.filename } : {}),
+      size: attachment.data.length,
+    };
+    storeAttachment(msg.id, msg.chat_jid, stored);
+    saved.push(stored);
+  });
+
+  if (saved.length) {
+    logger.info(
+      { chatJid: msg.chat_jid, messageId: msg.id, count: saved.length },
+      'Attachments saved',
+    );
+  }
+  return saved;
+}
+
+function isWithin(baseDir: string, target: string): boolean {
+  const rel = path.relative(baseDir, target);
+  return rel !== '' && !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+/**
+ * Resolve a file an agent asked to send. The path is as the agent sees it
+ * (/workspace/group/... or relative to it) and must stay inside the group
+ * folder after following symlinks. Throws when the file is missing, too
+ * large, or of a type we don't send.
+ */
+export function resolveOutboundFile(
+  groupFolder: string,
+  requestedPath: string,
+): OutboundFile {
+  const groupDir = resolveGroupFolderPath(groupFolder);
+  let relPath = requestedPath;
+  if (path.posix.isAbsolute(requestedPath)) {
+    if (!requestedPath.startsWith(`${CONTAINER_GROUP_DIR}/`)) {
+      throw new Error(`File must be under ${CONTAINER_GROUP_DIR}`);
+    }
+    relPath = requestedPath.slice(CONTAINER_GROUP_DIR.length + 1);
+  }
+
+  const hostPath = path.resolve(groupDir, relPath);
+  if (!isWithin(groupDir, hostPath)) {
+    throw new Error(`File path escapes the group folder: ${requestedPath}`);
+  }
+  if (!fs.existsSync(hostPath)) {
+    throw new Error(`File not found: ${requestedPath}`);
+  }
+  const realPath = fs.realpathSync(hostPath);
+  if (!isWithin(fs.realpathSync(groupDir), realPath)) {
+    throw new Error(`File path escapes the group folder: ${requestedPath}`);
+  }
+
+  const stat = fs.statSync(realPath);
+  if (!stat.isFile()) throw new Error(`Not a file: ${requestedPath}`);
+  if (stat.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(
+      `File is ${stat.size} bytes, over the ${MAX_ATTACHMENT_SIZE} byte limit`,
+    );
+  }
+  const mime = MIME_TYPES[path.extname(realPath).toLowerCase()];
+  if (!mime) {
+    throw new Error(`File type not allowed: ${path.basename(requestedPath)}`);
+  }
+
+  return {
+    path: realPath,
+    mime,
+    filename: path.basename(hostPath),
+    size: stat.size,
+  };
+}
@@ -0,0 +1,199 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  type Mock,
+} from 'vitest';
+
+import { ChannelSupervisor } from './channel-supervisor.js';
+import { Channel, RegisteredGroup } from './types.js';
+
+vi.mock('./config.js', () => ({
+  CHANNEL_HEALTH_INTERVAL: 10000,
+  CHANNEL_DOWN_ALERT_MS: 300000,
+}));
+
+function fakeChannel(prefix: string) {
+  const channel = {
+    name: prefix,
+    connected: true,
+    failConnect: false,
+    connect: vi.fn(async () => {
+      if (channel.failConnect) throw new Error('refused');
+      channel.connected = true;
+    }),
+    disconnect: vi.fn(async () => {
+      channel.connected = false;
+    }),
+    sendMessage: async () => {},
+    isConnected: () => channel.connected,
+    ownsJid: (jid: string) => jid.startsWith(`${prefix}:`),
+  };
+  return channel satisfies Channel;
+}
+
+// Reconnects run in the background: let them finish
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+function group(name: string): RegisteredGroup {
+  return { name, folder: name, trigger: '@Andy', added_at: '2024-01-01' };
+}
+
+describe('ChannelSupervisor', () => {
+  let signal: ReturnType<typeof fakeChannel>;
+  let matrix: ReturnType<typeof fakeChannel>;
+  let queue: {
+    pauseGroup: Mock<(jid: string) => void>;
+    resumeGroup: Mock<(jid: string) => void>;
+  };
+  let notifyMain: Mock<(text: string) => Promise<void>>;
+  let supervisor: ChannelSupervisor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    signal = fakeChannel('signal');
+    matrix = fakeChannel('mx');
+    queue = { pauseGroup: vi.fn(), resumeGroup: vi.fn() };
+    notifyMain = vi.fn(async () => {});
+    const groups = {
+      'signal:group.a': group('a'),
+      'mx:!room': group('b'),
+    };
+    supervisor = new ChannelSupervisor({
+      channels: () => [signal, matrix],
+      registeredGroups: () => groups,
+      queue,
+      notifyMain,
+    });
+  });
+
+  afterEach(() => {
+    supervisor.stop();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('pauses the groups of a channel that goes down', async () => {
+    await supervisor.check();
+    expect(queue.pauseGroup).not.toHaveBeenCalled();
+
+    signal.connected = false;
+    await supervisor.check();
+
+    expect(queue.pauseGroup).toHaveBeenCalledWith('signal:group.a');
+    expect(queue.pauseGroup).not.toHaveBeenCalledWith('mx:!room');
+    expect(supervisor.status()).toMatchObject([
+      { name: 'signal', health: 'disconnected', attempts: 0 },
+      { name: 'mx', health: 'connected' },
+    ]);
+  });
+
+  it('reconnects with backoff and resumes the groups', async () => {
+    await supervisor.check();
+    signal.connected = false;
+    signal.failConnect = true;
+    await supervisor.check();
+    await settle();
+    expect(signal.connect).not.toHaveBeenCalled();
+
+    // First attempt after the base delay
+    await vi.advanceTimersByTimeAsync(5000);
+    await supervisor.check();
+    await settle();
+    expect(signal.connect).toHaveBeenCalledTimes(1);
+    expect(supervisor.status()[0]).toMatchObject({
+      health: 'disconnected',
+      attempts: 1,
+      lastError: 'refused',
+    });
+
+    // The second waits twice as long
+    await vi.advanceTimersByTimeAsync(5000);
+    await supervisor.check();
+    await settle();
+    expect(signal.connect).toHaveBeenCalledTimes(1);
+
+    signal.failConnect = false;
+    await vi.advanceTimersByTimeAsync(5000);
+    await supervisor.check();
+    await settle();
+    expect(signal.connect).toHaveBeenCalledTimes(2);
+    expect(signal.disconnect).toHaveBeenCalledTimes(2);
+
+    await supervisor.check();
+    expect(queue.resumeGroup).toHaveBeenCalledWith('signal:group.a');
+    expect(supervisor.status()[0]).toMatchObject({
+      health: 'connected',
+      attempts: 0,
+    });
+    expect(notifyMain).not.toHaveBeenCalled();
+  });
+
+  it('tells the main group once when a channel stays down, and when it is back', async () => {
+    await supervisor.check();
+    matrix.connected = false;
+    matrix.failConnect = true;
+    await supervisor.check();
+
+    for (let i = 0; i < 40; i++) {
+      await vi.advanceTimersByTimeAsync(10000);
+      await supervisor.check();
+    }
+    expect(notifyMain).toHaveBeenCalledTimes(1);
+    expect(notifyMain.mock.calls[0][0]).toContain('mx channel has been down');
+    expect(notifyMain.mock.calls[0][0]).toContain('refused');
+
+    matrix.connected = true;
+    await supervisor.check();
+    expect(notifyMain).toHaveBeenCalledTimes(2);
+    expect(notifyMain.mock.calls[1][0]).toContain('mx channel is back');
+  });
+
+  it('keeps going when a reconnect throws unexpectedly', async () => {
+    await supervisor.check();
+    signal.connected = false;
+    signal.disconnect.mockRejectedValueOnce(new Error('already closed'));
+    await supervisor.check();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await supervisor.check();
+    await settle();
+    expect(signal.connect).toHaveBeenCalledTimes(1);
+
+    await supervisor.check();
+    expect(supervisor.status()[0].health).toBe('connected');
+  });
+
+  it('gives up on a connect that never settles and backs off', async () => {
+    await supervisor.check();
+    signal.connected = false;
+    signal.connect.mockReturnValueOnce(new Promise(() => {}));
+    await supervisor.check();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await supervisor.check();
+    expect(supervisor.status()[0].health).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(supervisor.status()[0]).toMatchObject({
+      health: 'disconnected',
+      attempts: 1,
+      lastError: 'timed out after 60s',
+    });
+    // Once before connecting, and again to stop the abandoned attempt
+    expect(signal.disconnect).toHaveBeenCalledTimes(2);
+
+    // The next attempt follows the usual backoff
+    await vi.advanceTimersByTimeAsync(10000);
+    await supervisor.check();
+    await settle();
+    expect(signal.connect).toHaveBeenCalledTimes(2);
+    await supervisor.check();
+    expect(supervisor.status()[0].health).toBe('connected');
+  });
+});
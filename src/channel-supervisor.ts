@@ -0,0 +1,263 @@
+/**
+ * Watches channel health and brings channels back after they drop.
+ *
+ * Every CHANNEL_HEALTH_INTERVAL the supervisor checks isConnected() on each
+ * channel. While a channel is down its groups are paused in the queue (new
+ * messages stay in SQLite, replies wait in the outbox) and it is reconnected
+ * with jittered exponential backoff. The first attempt waits one backoff
+ * step, so channels that reconnect by themselves get the chance to. The
+ * main group is told when a channel stays down past CHANNEL_DOWN_ALERT_MS,
+ * and again when it is back.
+ */
+import { CHANNEL_DOWN_ALERT_MS, CHANNEL_HEALTH_INTERVAL } from './config.js';
+import { GroupQueue } from './group-queue.js';
+import { logger } from './logger.js';
+import { Channel, RegisteredGroup } from './types.js';
+
+const RECONNECT_BASE_MS = 5000;
+const RECONNECT_MAX_MS = 5 * 60 * 1000;
+// A connect that has not settled by then counts as a failed attempt
+const CONNECT_TIMEOUT_MS = 60 * 1000;
+
+export type ChannelHealth = 'connected' | 'disconnected' | 'reconnecting';
+
+export interface ChannelStatus {
+  name: string;
+  health: ChannelHealth;
+  since: string; // When it entered this health state
+  attempts: number; // Reconnect attempts since it went down
+  lastError?: string;
+}
+
+export interface SupervisorDependencies {
+  channels: () => Channel[];
+  registeredGroups: () => Record<string, RegisteredGroup>;
+  queue: Pick<GroupQueue, 'pauseGroup' | 'resumeGroup'>;
+  // Tell the main group something (delivered through the outbox)
+  notifyMain: (text: string) => Promise<void>;
+}
+
+interface ChannelState {
+  health: ChannelHealth;
+  since: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  alerted: boolean;
+}
+
+/** Backoff before reconnect attempt n (1-based), with full jitter on its upper half. */
+function reconnectDelay(attempt: number): number {
+  const ceiling = Math.min(
+    RECONNECT_BASE_MS * 2 ** (attempt - 1),
+    RECONNECT_MAX_MS,
+  );
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/**
+ * Settle with promise, or reject once ms pass without it settling. onTimeout
+ * is called then, to stop the work the promise stands for.
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  onTimeout: () => Promise<void>,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout().catch(() => {});
+      reject(new Error(`timed out after ${ms / 1000}s`));
+    }, ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+}
+
+function describeDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return 'less than a minute';
+  if (minutes < 120) return `${minutes} min`;
+  return `${Math.round(minutes / 60)} h`;
+}
+
+export class ChannelSupervisor {
+  private states = new Map<Channel, ChannelState>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly deps: SupervisorDependencies,
+    private readonly alertAfterMs: number = CHANNEL_DOWN_ALERT_MS,
+  ) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const loop = async () => {
+      try {
+        await this.check();
+      } catch (err) {
+        logger.error({ err }, 'Error in channel supervisor');
+      }
+      if (this.running) this.timer = setTimeout(loop, CHANNEL_HEALTH_INTERVAL);
+    };
+    loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** Health of every channel, for status reports. */
+  status(): ChannelStatus[] {
+    return this.deps.channels().map((channel) => {
+      const state = this.states.get(channel);
+      return {
+        name: channel.name,
+        health: state?.health ?? 'connected',
+        since: new Date(state?.since ?? Date.now()).toISOString(),
+        attempts: state?.attempts ?? 0,
+        ...(state?.lastError ? { lastError: state.lastError } : {}),
+      };
+    });
+  }
+
+  /** One health pass over all channels. */
+  async check(): Promise<void> {
+    const now = Date.now();
+    for (const channel of this.deps.channels()) {
+      let state = this.states.get(channel);
+      const up = channel.isConnected();
+
+      if (!state) {
+        state = {
+          health: up ? 'connected' : 'disconnected',
+          since: now,
+          attempts: 0,
+          nextAttemptAt: now + reconnectDelay(1),
+          alerted: false,
+        };
+        this.states.set(channel, state);
+        if (!up) this.wentDown(channel);
+      }
+
+      if (up) {
+        if (state.health !== 'connected') await this.cameBack(channel, state);
+        continue;
+      }
+
+      if (state.health === 'connected') {
+        state.health = 'disconnected';
+        state.since = now;
+        state.attempts = 0;
+        state.nextAttemptAt = now + reconnectDelay(1);
+        this.wentDown(channel);
+      } else {
+        // Groups registered while it was down are held back too
+        this.pauseGroups(channel);
+      }
+
+      if (!state.alerted && now - state.since >= this.alertAfterMs) {
+        state.alerted = true;
+        await this.notify(
+          `⚠️ The ${channel.name} channel has been down for ${describeDuration(now - state.since)}${state.lastError ? ` (${state.lastError})` : ''}. Messages to its chats are held until it reconnects.`,
+        );
+      }
+
+      if (state.health === 'disconnected' && now >= state.nextAttemptAt) {
+        // Not awaited: one slow connect must not hold up the other channels
+        this.reconnect(channel, state).catch((err) =>
+          logger.error({ channel: channel.name, err }, 'Reconnect crashed'),
+        );
+      }
+    }
+  }
+
+  private async reconnect(
+    channel: Channel,
+    state: ChannelState,
+  ): Promise<void> {
+    state.health = 'reconnecting';
+    state.attempts++;
+    logger.info(
+      { channel: channel.name, attempt: state.attempts },
+      'Reconnecting channel',
+    );
+    try {
+      // Start from a clean slate in case it is half-open
+      await channel.disconnect().catch(() => {});
+      // A connect that gives up late must not leave a second session behind
+      await withTimeout(channel.connect(), CONNECT_TIMEOUT_MS, () =>
+        channel.disconnect(),
+      );
+    } catch (err) {
+      state.lastError = err instanceof Error ? err.message : String(err);
+      logger.warn(
+        { channel: channel.name, attempt: state.attempts, err },
+        'Channel reconnect failed',
+      );
+    }
+    if (state.health === 'reconnecting') {
+      state.health = 'disconnected';
+      state.nextAttemptAt = Date.now() + reconnectDelay(state.attempts + 1);
+    }
+  }
+
+  private wentDown(channel: Channel): void {
+    logger.warn({ channel: channel.name }, 'Channel disconnected');
+    this.pauseGroups(channel);
+  }
+
+  private async cameBack(channel: Channel, state: ChannelState): Promise<void> {
+    const downFor = Date.now() - state.since;
+    logger.info(
+      { channel: channel.name, downFor, attempts: state.attempts },
+      'Channel connected',
+    );
+    const wasAlerted = state.alerted;
+    state.health = 'connected';
+    state.since = Date.now();
+    state.attempts = 0;
+    state.lastError = undefined;
+    state.alerted = false;
+    for (const jid of this.groupJids(channel)) {
+      this.deps.queue.resumeGroup(jid);
+    }
+    if (wasAlerted) {
+      await this.notify(
+        `✅ The ${channel.name} channel is back after ${describeDuration(downFor)}.`,
+      );
+    }
+  }
+
+  private pauseGroups(channel: Channel): void {
+    for (const jid of this.groupJids(channel)) {
+      this.deps.queue.pauseGroup(jid);
+    }
+  }
+
+  private groupJids(channel: Channel): string[] {
+    return Object.keys(this.deps.registeredGroups()).filter((jid) =>
+      channel.ownsJid(jid),
+    );
+  }
+
+  private async notify(text: string): Promise<void> {
+    try {
+      await this.deps.notifyMain(text);
+    } catch (err) {
+      logger.warn({ err }, 'Failed to notify main group about channel health');
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ASSISTANT_NAME } from '../config.js';
+import { RegisteredGroup } from '../types.js';
+import { CLI_JID, CliChannel } from './cli.js';
+import { ChannelOpts } from './registry.js';
+
+function makeOpts(groups: Record<string, RegisteredGroup> = {}): ChannelOpts {
+  return {
+    onMessage: vi.fn(),
+    onChatMetadata: vi.fn(),
+    registeredGroups: () => groups,
+    registerGroup: vi.fn((jid: string, group: RegisteredGroup) => {
+      groups[jid] = group;
+    }),
+  };
+}
+
+function collect(stream: PassThrough): () => string {
+  let text = '';
+  stream.on('data', (chunk) => (text += chunk.toString()));
+  return () => text;
+}
+
+describe('CliChannel', () => {
+  let input: PassThrough;
+  let output: PassThrough;
+  let channel: CliChannel;
+
+  beforeEach(() => {
+    input = new PassThrough();
+    output = new PassThrough();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await channel?.disconnect();
+  });
+
+  it('owns only the cli:local JID', () => {
+    channel = new CliChannel(makeOpts(), { input, output });
+    expect(channel.ownsJid(CLI_JID)).toBe(true);
+    expect(channel.ownsJid('cli:other')).toBe(false);
+  });
+
+  it('registers itself as the main group when none exists', async () => {
+    const opts = makeOpts();
+    channel = new CliChannel(opts, { input, output });
+    await channel.connect();
+
+    expect(opts.registerGroup).toHaveBeenCalledWith(
+      CLI_JID,
+      expect.objectContaining({
+        folder: 'cli_local',
+        isMain: true,
+        requiresTrigger: false,
+      }),
+    );
+    expect(channel.isConnected()).toBe(true);
+  });
+
+  it('registers as a regular group when a main group already exists', async () => {
+    const opts = makeOpts({
+      'main@g.us': {
+        name: 'Main',
+        folder: 'whatsapp_main',
+        trigger: '@Andy',
+        added_at: '2024-01-01T00:00:00.000Z',
+        isMain: true,
+      },
+    });
+    channel = new CliChannel(opts, { input, output });
+    await channel.connect();
+
+    expect(opts.registerGroup).toHaveBeenCalledWith(
+      CLI_JID,
+      expect.objectContaining({ isMain: undefined, requiresTrigger: false }),
+    );
+  });
+
+  it('does not re-register an existing CLI group', async () => {
+    const opts = makeOpts({
+      [CLI_JID]: {
+        name: 'Local CLI',
+        folder: 'cli_local',
+        trigger: '@Andy',
+        added_at: '2024-01-01T00:00:00.000Z',
+      },
+    });
+    channel = new CliChannel(opts, { input, output });
+    await channel.connect();
+
+    expect(opts.registerGroup).not.toHaveBeenCalled();
+  });
+
+  it('turns each input line into an inbound message', async () => {
+    const opts = makeOpts();
+    channel = new CliChannel(opts, { input, output, userName: 'dev' });
+    await channel.connect();
+
+    input.write('hello there\n\n   \nsecond\n');
+    await new Promise((r) => setImmediate(r));
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(2);
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      CLI_JID,
+      expect.objectContaining({
+        chat_jid: CLI_JID,
+        sender_name: 'dev',
+        content: 'hello there',
+      }),
+    );
+  });
+
+  it('prints replies prefixed with the assistant name', async () => {
+    channel = new CliChannel(makeOpts(), { input, output });
+    const read = collect(output);
+    await channel.connect();
+
+    await channel.sendMessage(CLI_JID, 'hi!');
+    expect(read()).toContain(`${ASSISTANT_NAME}: hi!\n`);
+  });
+
+  it('shows a spinner while typing and clears it on reply', async () => {
+    vi.useFakeTimers();
+    channel = new CliChannel(makeOpts(), { input, output });
+    const read = collect(output);
+    await channel.connect();
+
+    await channel.setTyping(CLI_JID, true);
+    vi.advanceTimersByTime(200);
+    expect(read()).toContain('is thinking…');
+
+    await channel.sendMessage(CLI_JID, 'done');
+    const after = read().length;
+    vi.advanceTimersByTime(200);
+    expect(read().length).toBe(after);
+  });
+
+  it('serves the chat over a Unix socket', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-cli-'));
+    const socketPath = path.join(dir, 'cli.sock');
+    const opts = makeOpts();
+    channel = new CliChannel(opts, { socketPath });
+    await channel.connect();
+
+    const client = net.createConnection(socketPath);
+    let received = '';
+    client.on('data', (d) => (received += d.toString()));
+    await new Promise<void>((r) => client.once('connect', () => r()));
+    await new Promise((r) => setTimeout(r, 20));
+
+    client.write('from socket\n');
+    await new Promise((r) => setTimeout(r, 20));
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      CLI_JID,
+      expect.objectContaining({ content: 'from socket' }),
+    );
+
+    await channel.sendMessage(CLI_JID, 'socket reply');
+    await new Promise((r) => setTimeout(r, 20));
+    expect(received).toContain('socket reply');
+    client.destroy();
+    await channel.disconnect();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Interactive terminal channel for local development.
+ *
+ * Presents a single chat, `cli:local`, over stdin/stdout — or over a Unix
+ * socket when CLI_CHANNEL_SOCKET is set (connect with e.g.
+ * `nc -U /tmp/nanoclaw.sock`). Registered as a fallback: it only starts
+ * when no other channel is configured, and then registers itself as the
+ * main group if there isn't one yet.
+ *
+ * Logs share stdout with the prompt; run with LOG_LEVEL=warn for a quieter
+ * session.
+ */
+import fs from 'fs';
+import net from 'net';
+import readline from 'readline';
+import { Readable, Writable } from 'stream';
+
+import { ASSISTANT_NAME } from '../config.js';
+import { readEnvFile } from '../env.js';
+import { logger } from '../logger.js';
+import { Channel, ChannelCapabilities } from '../types.js';
+import { ChannelOpts, registerChannel } from './registry.js';
+
+export const CLI_JID = 'cli:local';
+const CLI_FOLDER = 'cli_local';
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const SPINNER_INTERVAL_MS = 80;
+const PROMPT = '> ';
+
+export interface CliChannelConfig {
+  // Streams to attach to (defaults: process.stdin / process.stdout)
+  input?: Readable;
+  output?: Writable;
+  // If set, listen on this Unix socket instead of the process streams
+  socketPath?: string;
+  // Display name for messages typed at the prompt
+  userName?: string;
+}
+
+interface CliSession {
+  output: Writable;
+  rl: readline.Interface;
+}
+
+export class CliChannel implements Channel {
+  name = 'cli';
+  capabilities: ChannelCapabilities = {
+    markup: 'markdown',
+    threads: false,
+    reactions: false,
+    attachments: false,
+    edits: false,
+  };
+
+  private sessions = new Set<CliSession>();
+  private server: net.Server | null = null;
+  private connected = false;
+  private spinnerTimer: ReturnType<typeof setInterval> | null = null;
+  private spinnerFrame = 0;
+  private messageSeq = 0;
+
+  constructor(
+    private readonly opts: ChannelOpts,
+    private readonly config: CliChannelConfig = {},
+  ) {}
+
+  async connect(): Promise<void> {
+    this.opts.onChatMetadata(
+      CLI_JID,
+      new Date().toISOString(),
+      'Local CLI',
+      'cli',
+      false,
+    );
+    this.ensureRegistered();
+
+    if (this.config.socketPath) {
+      await this.listen(this.config.socketPath);
+    } else {
+      this.attach(
+        this.config.input ?? process.stdin,
+        this.config.output ?? process.stdout,
+      );
+    }
+    this.connected = true;
+  }
+
+  async sendMessage(jid: string, text: string): Promise<void> {
+    this.stopSpinner();
+    this.write(`\r${ASSISTANT_NAME}: ${text}\n${PROMPT}`);
+  }
+
+  async setTyping(jid: string, isTyping: boolean): Promise<void> {
+    if (isTyping) this.startSpinner();
+    else this.stopSpinner();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  ownsJid(jid: string): boolean {
+    return jid === CLI_JID;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.stopSpinner();
+    for (const session of this.sessions) session.rl.close();
+    this.sessions.clear();
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private ensureRegistered(): void {
+    const groups = this.opts.registeredGroups();
+    if (groups[CLI_JID] || !this.opts.registerGroup) return;
+
+    const hasMain = Object.values(groups).some((g) => g.isMain);
+    this.opts.registerGroup(CLI_JID, {
+      name: 'Local CLI',
+      folder: CLI_FOLDER,
+      trigger: `@${ASSISTANT_NAME}`,
+      added_at: new Date().toISOString(),
+      requiresTrigger: false,
+      isMain: hasMain ? undefined : true,
+    });
+  }
+
+  private async listen(socketPath: string): Promise<void> {
+    // A stale socket file from a previous run would make listen() fail
+    fs.rmSync(socketPath, { force: true });
+    const server = net.createServer((socket) => {
+      const session = this.attach(socket, socket);
+      socket.on('close', () => {
+        session.rl.close();
+        this.sessions.delete(session);
+      });
+      socket.on('error', (err) =>
+        logger.debug({ err }, 'CLI socket client error'),
+      );
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    logger.info({ socketPath }, 'CLI channel listening');
+  }
+
+  private attach(input: Readable, output: Writable): CliSession {
+    const rl = readline.createInterface({ input, terminal: false });
+    const session: CliSession = { output, rl };
+    this.sessions.add(session);
+    rl.on('line', (line) => this.handleLine(line));
+    output.write(
+      `NanoClaw CLI — chatting with ${ASSISTANT_NAME} as ${CLI_JID}\n${PROMPT}`,
+    );
+    return session;
+  }
+
+  private handleLine(line: string): void {
+    const content = line.trim();
+    if (!content) {
+      this.write(PROMPT);
+      return;
+    }
+    const timestamp = new Date().toISOString();
+    this.opts.onChatMetadata(CLI_JID, timestamp, undefined, 'cli', false);
+    this.opts.onMessage(CLI_JID, {
+      id: `cli-${Date.now()}-${++this.messageSeq}`,
+      chat_jid: CLI_JID,
+      sender: 'cli:user',
+      sender_name: this.config.userName || 'You',
+      content,
+      timestamp,
+      is_from_me: false,
+    });
+  }
+
+  private write(text: string): void {
+    for (const session of this.sessions) session.output.write(text);
+  }
+
+  private startSpinner(): void {
+    if (this.spinnerTimer) return;
+    this.spinnerTimer = setInterval(() => {
+      const frame = SPINNER_FRAMES[this.spinnerFrame++ % SPINNER_FRAMES.length];
+      this.write(`\r${frame} ${ASSISTANT_NAME} is thinking…`);
+    }, SPINNER_INTERVAL_MS);
+  }
+
+  private stopSpinner(): void {
+    if (!this.spinnerTimer) return;
+    clearInterval(this.spinnerTimer);
+    this.spinnerTimer = null;
+    // Erase the spinner line
+    this.write('\r\x1b[2K');
+  }
+}
+
+registerChannel(
+  'cli',
+  (opts: ChannelOpts) => {
+    const env = readEnvFile(['CLI_CHANNEL_SOCKET']);
+    const socketPath = process.env.CLI_CHANNEL_SOCKET || env.CLI_CHANNEL_SOCKET;
+    // Without a socket, only attach to an interactive terminal — never to
+    // the stdin of a background service.
+    if (!socketPath && !process.stdin.isTTY) return null;
+    return new CliChannel(opts, {
+      socketPath,
+      userName: process.env.USER,
+    });
+  },
+  { fallback: true },
+);
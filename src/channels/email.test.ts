@@ -0,0 +1,621 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { RegisteredGroup } from '../types.js';
+import {
+  EmailChannel,
+  EmailChannelConfig,
+  emailJid,
+  parseAddressList,
+  parseEmail,
+  stripQuotedReply,
+} from './email.js';
+import { ChannelOpts } from './registry.js';
+
+const routerState = new Map<string, string>();
+vi.mock('../db.js', () => ({
+  getRouterState: vi.fn((key: string) => routerState.get(key)),
+  setRouterState: vi.fn((key: string, value: string) =>
+    routerState.set(key, value),
+  ),
+}));
+
+function mail(lines: string[]): string {
+  return lines.join('\r\n');
+}
+
+const HISTORY = mail([
+  'From: Old <old@example.com>',
+  'To: andy@example.org',
+  'Subject: Ancient',
+  'Message-ID: <old@example.com>',
+  '',
+  'history',
+]);
+
+const QUESTION = mail([
+  'From: "Alice Smith" <alice@example.com>',
+  'To: Andy <andy@example.org>',
+  'Cc: bob@example.com',
+  'Subject: =?UTF-8?B?UXVhcnRlcmx5IHJlcG9ydCDwn5OI?=',
+  'Date: Mon, 01 Jan 2024 10:00:00 +0000',
+  'Message-ID: <root1@example.com>',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Can you summarise the numbers?',
+]);
+
+const FOLLOW_UP = mail([
+  'From: Bob <bob@example.com>',
+  'To: andy@example.org, alice@example.com',
+  'Subject: Re: Quarterly report',
+  'Date: Mon, 01 Jan 2024 11:00:00 +0000',
+  'Message-ID: <reply2@example.com>',
+  'In-Reply-To: <sent@example.org>',
+  'References: <root1@example.com> <sent@example.org>',
+  '',
+  'Thanks!',
+  '',
+  'On Mon, Jan 1, 2024 at 10:30 AM Andy <andy@example.org> wrote:',
+  '> Here is the summary',
+]);
+
+const STRANGER = mail([
+  'From: Eve <eve@example.net>',
+  'To: andy@example.org',
+  'Subject: Hello',
+  'Message-ID: <other@example.net>',
+  '',
+  'unregistered',
+]);
+
+/** Minimal IMAP server: LOGIN, SELECT, UID SEARCH/FETCH and IDLE. */
+class FakeImap {
+  server: net.Server;
+  messages: { uid: number; raw: string }[] = [];
+  commands: string[] = [];
+  // Commands the server never answers
+  unanswered: string[] = [];
+  private nextUid = 1;
+  private idling: { socket: net.Socket; tag: string } | null = null;
+  private sockets = new Set<net.Socket>();
+
+  constructor() {
+    this.server = net.createServer((socket) => this.accept(socket));
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>((r) => this.server.listen(0, '127.0.0.1', r));
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const s of this.sockets) s.destroy();
+    await new Promise<void>((r) => this.server.close(() => r()));
+  }
+
+  deliver(raw: string): void {
+    this.messages.push({ uid: this.nextUid++, raw });
+    this.idling?.socket.write(`* ${this.messages.length} EXISTS\r\n`);
+  }
+
+  dropClients(): void {
+    for (const s of this.sockets) s.destroy();
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => {});
+    const send = (line: string) => socket.write(`${line}\r\n`);
+    send('* OK fake IMAP ready');
+
+    let buffer = '';
+    socket.on('data', (data) => {
+      buffer += data.toString();
+      let eol: number;
+      while ((eol = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, eol);
+        buffer = buffer.slice(eol + 2);
+        this.commands.push(line);
+        this.handle(socket, line, send);
+      }
+    });
+  }
+
+  private handle(
+    socket: net.Socket,
+    line: string,
+    send: (line: string) => void,
+  ): void {
+    if (line === 'DONE' && this.idling?.socket === socket) {
+      send(`${this.idling.tag} OK IDLE terminated`);
+      this.idling = null;
+      return;
+    }
+    const [tag, ...rest] = line.split(' ');
+    const command = rest.join(' ');
+    if (this.unanswered.some((c) => command.startsWith(c))) return;
+    if (command.startsWith('LOGIN')) {
+      if (command === 'LOGIN "andy@example.org" "secret"') send(`${tag} OK`);
+      else send(`${tag} NO [AUTHENTICATIONFAILED] bad credentials`);
+    } else if (command.startsWith('SELECT')) {
+      send(`* ${this.messages.length} EXISTS`);
+      send('* OK [UIDVALIDITY 7] UIDs valid');
+      send(`* OK [UIDNEXT ${this.nextUid}] Predicted next UID`);
+      send(`${tag} OK [READ-WRITE] SELECT completed`);
+    } else if (command.startsWith('UID SEARCH UID ')) {
+      const from = parseInt(command.split(' ')[3], 10);
+      let uids = this.messages.map((m) => m.uid).filter((u) => u >= from);
+      if (uids.length === 0 && this.messages.length) {
+        uids = [this.messages[this.messages.length - 1].uid];
+      }
+      send(`* SEARCH${uids.map((u) => ` ${u}`).join('')}`);
+      send(`${tag} OK SEARCH completed`);
+    } else if (command.startsWith('UID FETCH ')) {
+      const uid = parseInt(command.split(' ')[2], 10);
+      const seq = this.messages.findIndex((m) => m.uid === uid) + 1;
+      const raw = Buffer.from(this.messages[seq - 1].raw);
+      socket.write(`* ${seq} FETCH (UID ${uid} BODY[] {${raw.length}}\r\n`);
+      socket.write(raw);
+      send(')');
+      send(`${tag} OK FETCH completed`);
+    } else if (command === 'IDLE') {
+      this.idling = { socket, tag };
+      send('+ idling');
+    } else if (command === 'LOGOUT') {
+      send('* BYE');
+      send(`${tag} OK`);
+      socket.end();
+    } else {
+      send(`${tag} BAD unknown command`);
+    }
+  }
+}
+
+interface SmtpEnvelope {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/** Minimal SMTP server that records each accepted message. */
+class FakeSmtp {
+  server: net.Server;
+  received: SmtpEnvelope[] = [];
+  auth: string[] = [];
+  // Accept connections without ever greeting
+  silent = false;
+
+  constructor() {
+    this.server = net.createServer((socket) => this.accept(socket));
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>((r) => this.server.listen(0, '127.0.0.1', r));
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((r) => this.server.close(() => r()));
+  }
+
+  private accept(socket: net.Socket): void {
+    const send = (line: string) => socket.write(`${line}\r\n`);
+    let envelope: SmtpEnvelope = { from: '', to: [], data: '' };
+    let inData = false;
+    let buffer = '';
+    socket.on('error', () => {});
+    if (this.silent) return;
+    send('220 fake SMTP ready');
+
+    socket.on('data', (data) => {
+      buffer += data.toString();
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        envelope.data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+        buffer = buffer.slice(end + 5);
+        this.received.push(envelope);
+        envelope = { from: '', to: [], data: '' };
+        inData = false;
+        send('250 queued');
+      }
+      let eol: number;
+      while (!inData && (eol = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, eol);
+        buffer = buffer.slice(eol + 2);
+        if (line.startsWith('EHLO')) {
+          send('250-fake.smtp');
+          send('250 AUTH PLAIN');
+        } else if (line.startsWith('AUTH PLAIN ')) {
+          this.auth.push(line.slice(11));
+          send('235 authenticated');
+        } else if (line.startsWith('MAIL FROM:')) {
+          envelope.from = line.slice(10).replace(/[<>]/g, '');
+          send('250 ok');
+        } else if (line.startsWith('RCPT TO:')) {
+          envelope.to.push(line.slice(8).replace(/[<>]/g, ''));
+          send('250 ok');
+        } else if (line === 'DATA') {
+          inData = true;
+          send('354 go ahead');
+        } else if (line === 'QUIT') {
+          send('221 bye');
+          socket.end();
+        }
+      }
+    });
+  }
+}
+
+const GROUP: RegisteredGroup = {
+  name: 'Quarterly report',
+  folder: 'email_report',
+  trigger: '@Andy',
+  added_at: '2024-01-01T00:00:00.000Z',
+  requiresTrigger: false,
+};
+const THREAD_JID = 'email:root1@example.com';
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('EmailChannel', () => {
+  let imap: FakeImap;
+  let smtp: FakeSmtp;
+  let config: EmailChannelConfig;
+  let opts: ChannelOpts;
+  let channel: EmailChannel;
+
+  beforeEach(async () => {
+    routerState.clear();
+    imap = new FakeImap();
+    smtp = new FakeSmtp();
+    const [imapPort, smtpPort] = [await imap.start(), await smtp.start()];
+    config = {
+      address: 'andy@example.org',
+      user: 'andy@example.org',
+      password: 'secret',
+      imap: { host: '127.0.0.1', port: imapPort, tls: false },
+      mailbox: 'INBOX',
+      smtp: { host: '127.0.0.1', port: smtpPort, secure: 'none' },
+      reconnectBaseMs: 10,
+      reconnectMaxMs: 50,
+    };
+    opts = {
+      onMessage: vi.fn(),
+      onChatMetadata: vi.fn(),
+      registeredGroups: () => ({ [THREAD_JID]: GROUP }),
+    };
+    channel = new EmailChannel(opts, config);
+  });
+
+  afterEach(async () => {
+    await channel.disconnect();
+    await imap.stop();
+    await smtp.stop();
+  });
+
+  it('maps thread roots to email: JIDs', () => {
+    expect(emailJid('<root1@example.com>')).toBe(THREAD_JID);
+    expect(channel.ownsJid(THREAD_JID)).toBe(true);
+    expect(channel.ownsJid('mx:!room:example.org')).toBe(false);
+  });
+
+  it('skips existing mail and delivers new mail pushed during IDLE', async () => {
+    imap.deliver(HISTORY);
+    await channel.connect();
+    expect(channel.isConnected()).toBe(true);
+    await waitFor(() => imap.commands.some((c) => c.endsWith(' IDLE')));
+
+    imap.deliver(QUESTION);
+    imap.deliver(STRANGER);
+    await waitFor(() => vi.mocked(opts.onChatMetadata).mock.calls.length >= 2);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      THREAD_JID,
+      {
+        id: 'root1@example.com',
+        chat_jid: THREAD_JID,
+        sender: 'alice@example.com',
+        sender_name: 'Alice Smith',
+        content: 'Can you summarise the numbers?',
+        timestamp: '2024-01-01T10:00:00.000Z',
+        is_from_me: false,
+        is_bot_message: false,
+      },
+      [],
+    );
+    // Alice plus Bob on Cc: a group thread
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      THREAD_JID,
+      '2024-01-01T10:00:00.000Z',
+      'Quarterly report 📈',
+      'email',
+      true,
+    );
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      'email:other@example.net',
+      expect.any(String),
+      'Hello',
+      'email',
+      false,
+    );
+  });
+
+  it('replies over SMTP with threading headers to all participants', async () => {
+    await channel.connect();
+    imap.deliver(QUESTION);
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length > 0);
+
+    await channel.sendMessage(THREAD_JID, 'Revenue is **up 12%**.');
+
+    expect(smtp.received).toHaveLength(1);
+    const [sent] = smtp.received;
+    expect(sent.from).toBe('andy@example.org');
+    expect(sent.to).toEqual(['alice@example.com', 'bob@example.com']);
+    expect(smtp.auth[0]).toBe(
+      Buffer.from('\0andy@example.org\0secret').toString('base64'),
+    );
+
+    const parsed = parseEmail(Buffer.from(sent.data));
+    expect(parsed.inReplyTo).toBe('root1@example.com');
+    expect(parsed.references).toEqual(['root1@example.com']);
+    expect(parsed.subject).toBe('Re: Quarterly report 📈');
+    expect(parsed.text).toBe('Revenue is up 12%.');
+    // HTML alternative rendered from the same Markdown
+    expect(sent.data).toContain('Content-Type: multipart/alternative');
+    expect(sent.data).toContain(
+      Buffer.from('Revenue is <strong>up 12%</strong>.').toString('base64'),
+    );
+    expect(parsed.messageId).toMatch(/@example\.org$/);
+  });
+
+  it('attaches files to a threaded reply', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-email-'));
+    const filePath = path.join(dir, 'numbers.csv');
+    fs.writeFileSync(filePath, 'quarter,revenue\nQ3,112\n');
+    await channel.connect();
+    imap.deliver(QUESTION);
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length > 0);
+
+    await channel.sendFile(THREAD_JID, {
+      path: filePath,
+      mime: 'text/csv',
+      filename: 'numbers.csv',
+      size: 24,
+      caption: 'Numbers attached',
+    });
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    const parsed = parseEmail(Buffer.from(smtp.received[0].data));
+    expect(smtp.received[0].data).toContain('Content-Type: multipart/mixed');
+    expect(parsed.inReplyTo).toBe('root1@example.com');
+    expect(parsed.text).toBe('Numbers attached');
+    expect(parsed.attachments).toEqual([
+      {
+        data: Buffer.from('quarter,revenue\nQ3,112\n'),
+        mime: 'text/csv',
+        filename: 'numbers.csv',
+      },
+    ]);
+  });
+
+  it('keeps replies to our own mail in the same thread', async () => {
+    await channel.connect();
+    imap.deliver(QUESTION);
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length > 0);
+    await channel.sendMessage(THREAD_JID, 'Here is the summary');
+    const ourId = parseEmail(Buffer.from(smtp.received[0].data)).messageId;
+
+    imap.deliver(FOLLOW_UP.replace(/sent@example\.org/g, ourId!));
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length > 1);
+
+    expect(opts.onMessage).toHaveBeenLastCalledWith(
+      THREAD_JID,
+      expect.objectContaining({
+        sender: 'bob@example.com',
+        content: 'Thanks!',
+        reply_to_id: ourId,
+      }),
+      [],
+    );
+
+    await channel.sendMessage(THREAD_JID, 'You are welcome');
+    const second = parseEmail(Buffer.from(smtp.received[1].data));
+    expect(second.inReplyTo).toBe('reply2@example.com');
+    expect(second.references).toEqual([
+      'root1@example.com',
+      ourId,
+      'reply2@example.com',
+    ]);
+  });
+
+  it('catches up on mail that arrived while offline', async () => {
+    await channel.connect();
+    await channel.disconnect();
+
+    imap.deliver(QUESTION);
+    channel = new EmailChannel(opts, config);
+    await channel.connect();
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length > 0);
+
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      THREAD_JID,
+      expect.objectContaining({ id: 'root1@example.com' }),
+      [],
+    );
+  });
+
+  it('reconnects after the IMAP connection drops', async () => {
+    await channel.connect();
+    await waitFor(() => imap.commands.some((c) => c.endsWith(' IDLE')));
+
+    imap.dropClients();
+    imap.deliver(QUESTION);
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length > 0);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    expect(channel.isConnected()).toBe(true);
+  });
+
+  it('refuses to send to an unknown thread', async () => {
+    await channel.connect();
+    await expect(
+      channel.sendMessage('email:nope@example.com', 'hi'),
+    ).rejects.toThrow(/No email thread/);
+  });
+
+  it('gives up on an IMAP server that stops answering', async () => {
+    imap.unanswered.push('SELECT');
+    const stalled = new EmailChannel(opts, { ...config, timeoutMs: 100 });
+    await expect(stalled.connect()).rejects.toThrow(/IMAP server timed out/);
+  });
+
+  it('gives up on an SMTP server that never greets', async () => {
+    channel = new EmailChannel(opts, { ...config, timeoutMs: 100 });
+    await channel.connect();
+    imap.deliver(QUESTION);
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length > 0);
+
+    smtp.silent = true;
+    await expect(channel.sendMessage(THREAD_JID, 'hello')).rejects.toThrow(
+      /SMTP server timed out/,
+    );
+  });
+
+  it('fails to connect with bad credentials', async () => {
+    const bad = new EmailChannel(opts, { ...config, password: 'wrong' });
+    await expect(bad.connect()).rejects.toThrow(/AUTHENTICATIONFAILED/);
+  });
+});
+
+describe('parseEmail', () => {
+  it('prefers text/plain from multipart mail and decodes quoted-printable', () => {
+    const raw = mail([
+      'From: =?ISO-8859-1?Q?Ren=E9?= <rene@example.com>',
+      'Subject: Caf=?utf-8?q?=C3=A9?=',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Caf=C3=A9 at n=',
+      'oon?',
+      '--b1',
+      'Content-Type: text/html',
+      '',
+      '<p>ignored</p>',
+      '--b1--',
+    ]);
+    const parsed = parseEmail(Buffer.from(raw));
+    expect(parsed.from).toEqual({ address: 'rene@example.com', name: 'René' });
+    expect(parsed.text).toBe('Café at noon?');
+  });
+
+  it('falls back to HTML converted to text', () => {
+    const raw = mail([
+      'From: a@example.com',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>Hello &amp; welcome</p><p>Line<br>two</p>',
+    ]);
+    expect(parseEmail(Buffer.from(raw)).text.trim()).toBe(
+      'Hello & welcome\nLine\ntwo',
+    );
+  });
+
+  it('keeps attachments out of the body', () => {
+    const raw = mail([
+      'From: a@example.com',
+      'Content-Type: multipart/mixed; boundary=xyz',
+      '',
+      '--xyz',
+      'Content-Type: text/plain; name=notes.txt',
+      'Content-Disposition: attachment; filename=notes.txt',
+      '',
+      'attached',
+      '--xyz',
+      'Content-Type: text/plain',
+      '',
+      'body',
+      '--xyz--',
+    ]);
+    const parsed = parseEmail(Buffer.from(raw));
+    expect(parsed.text.trim()).toBe('body');
+    expect(parsed.attachments).toEqual([
+      {
+        data: Buffer.from('attached'),
+        mime: 'text/plain',
+        filename: 'notes.txt',
+      },
+    ]);
+  });
+
+  it('decodes base64 attachments and inline images', () => {
+    const raw = mail([
+      'From: a@example.com',
+      'Content-Type: multipart/related; boundary=rel',
+      '',
+      '--rel',
+      'Content-Type: text/plain',
+      '',
+      'see chart',
+      '--rel',
+      'Content-Type: image/png',
+      'Content-Disposition: inline',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('PNGDATA').toString('base64'),
+      '--rel',
+      'Content-Type: application/pdf; name="=?utf-8?q?R=C3=A9sum=C3=A9.pdf?="',
+      'Content-Disposition: attachment',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('%PDF-1.4').toString('base64'),
+      '--rel--',
+    ]);
+    const parsed = parseEmail(Buffer.from(raw));
+    expect(parsed.text.trim()).toBe('see chart');
+    expect(parsed.attachments).toEqual([
+      { data: Buffer.from('PNGDATA'), mime: 'image/png' },
+      {
+        data: Buffer.from('%PDF-1.4'),
+        mime: 'application/pdf',
+        filename: 'Résumé.pdf',
+      },
+    ]);
+  });
+});
+
+describe('parseAddressList', () => {
+  it('handles quoted names containing commas', () => {
+    expect(
+      parseAddressList('"Smith, Alice" <Alice@Example.com>, bob@example.com'),
+    ).toEqual([
+      { address: 'alice@example.com', name: 'Smith, Alice' },
+      { address: 'bob@example.com' },
+    ]);
+  });
+});
+
+describe('stripQuotedReply', () => {
+  it('removes quoted history and signatures', () => {
+    expect(
+      stripQuotedReply('Sounds good\n-- \nBob\n\nOn Mon, Bob wrote:\n> old'),
+    ).toBe('Sounds good');
+  });
+
+  it('keeps the text when it is all quoted', () => {
+    expect(stripQuotedReply('> only quote')).toBe('> only quote');
+  });
+});
@@ -0,0 +1,1116 @@
+/**
+ * Email channel: IMAP IDLE for inbound mail, SMTP for replies.
+ *
+ * Each thread is a chat, addressed as `email:<root-message-id>` where the
+ * root is the first entry of References (or In-Reply-To, or the message's
+ * own Message-ID). Replies go to the thread's participants with
+ * In-Reply-To/References set so mail clients keep the thread together.
+ *
+ * Thread headers and the IMAP UID cursor are kept in router_state so
+ * replies and catch-up survive restarts.
+ *
+ * Configure in .env:
+ *   EMAIL_ADDRESS       our address (required; also the default login)
+ *   EMAIL_PASSWORD      login password
+ *   EMAIL_USER          login name, if different from the address
+ *   EMAIL_IMAP_HOST     IMAP server (required)
+ *   EMAIL_IMAP_PORT     default 993
+ *   EMAIL_IMAP_TLS      "false" for plaintext IMAP
+ *   EMAIL_MAILBOX       default INBOX
+ *   EMAIL_SMTP_HOST     default: EMAIL_IMAP_HOST
+ *   EMAIL_SMTP_PORT     default 465
+ *   EMAIL_SMTP_SECURE   tls | starttls | none (default: tls on 465, else starttls)
+ *
+ * A named instance (email:work) reads the same keys with _WORK appended
+ * and uses JIDs of the form `email.work:<root-message-id>`.
+ */
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import tls from 'tls';
+
+import { ASSISTANT_NAME } from '../config.js';
+import { getRouterState, setRouterState } from '../db.js';
+import { readChannelEnv } from '../env.js';
+import { renderMarkup } from '../formatters.js';
+import { logger } from '../logger.js';
+import {
+  Channel,
+  ChannelCapabilities,
+  InboundAttachment,
+  OutboundFile,
+} from '../types.js';
+import {
+  channelInstanceName,
+  ChannelOpts,
+  instanceJidPrefix,
+  registerChannel,
+} from './registry.js';
+
+const JID_PREFIX = 'email:';
+// RFC 2177: clients should re-issue IDLE at least every 29 minutes
+const IDLE_REFRESH_MS = 25 * 60 * 1000;
+const MAX_THREADS = 500;
+// How long a server may stay silent mid-exchange before we give up
+const SOCKET_TIMEOUT_MS = 60 * 1000;
+// Keep the root plus the most recent ancestors in References
+const MAX_REFERENCES = 10;
+
+export interface EmailChannelConfig {
+  address: string;
+  user: string;
+  password: string;
+  imap: { host: string; port: number; tls: boolean };
+  mailbox: string;
+  smtp: { host: string; port: number; secure: 'tls' | 'starttls' | 'none' };
+  // Reconnect backoff bounds (ms)
+  reconnectBaseMs?: number;
+  reconnectMaxMs?: number;
+  // Server silence that fails a command (ms)
+  timeoutMs?: number;
+  // For tests against self-signed local servers
+  rejectUnauthorized?: boolean;
+  instance?: string; // Named instance (`work` for email:work)
+}
+
+export interface EmailAddress {
+  address: string;
+  name?: string;
+}
+
+export interface ParsedEmail {
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  from?: EmailAddress;
+  replyTo: EmailAddress[];
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  subject: string;
+  date?: Date;
+  text: string;
+  attachments: InboundAttachment[];
+}
+
+interface EmailThread {
+  subject: string;
+  participants: string[];
+  references: string[];
+}
+
+interface EmailState {
+  uidValidity?: number;
+  lastUid: number;
+  threads: Record<string, EmailThread>;
+}
+
+export function emailJid(rootMessageId: string, instance?: string): string {
+  return `${instanceJidPrefix(JID_PREFIX, instance)}${stripAngles(rootMessageId)}`;
+}
+
+function stripAngles(id: string): string {
+  return id.trim().replace(/^<|>$/g, '');
+}
+
+// --- MIME parsing ---
+
+type Headers = Map<string, string>;
+
+/** Split a raw entity (as a latin1 string) into unfolded headers and body. */
+function splitEntity(raw: string): { headers: Headers; body: string } {
+  const match = raw.match(/\r?\n\r?\n/);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : '';
+  const headers: Headers = new Map();
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // First occurrence wins (trace headers repeat; the rest don't)
+    if (!headers.has(name)) {
+      headers.set(
+        name,
+        Buffer.from(line.slice(colon + 1).trim(), 'latin1').toString('utf-8'),
+      );
+    }
+  }
+  return { headers, body };
+}
+
+function headerParam(value: string, param: string): string | undefined {
+  const re = new RegExp(`;\\s*${param}\\s*=\\s*("([^"]*)"|[^;\\s]+)`, 'i');
+  const m = value.match(re);
+  return m ? (m[2] ?? m[1]) : undefined;
+}
+
+function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return bytes.toString('utf-8');
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const latin1 = text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-F]{2})/gi, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    );
+  return Buffer.from(latin1, 'latin1');
+}
+
+/** Decode RFC 2047 encoded-words (=?charset?B|Q?...?=) in a header value. */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(
+      /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+      (_, charset: string, encoding: string, text: string) => {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(text, 'base64')
+            : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeCharset(bytes, charset);
+      },
+    );
+}
+
+function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+export function parseAddressList(value: string | undefined): EmailAddress[] {
+  if (!value) return [];
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (const ch of value) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === '<' && !quoted) angle = true;
+    else if (ch === '>' && !quoted) angle = false;
+    if (ch === ',' && !quoted && !angle) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+
+  const result: EmailAddress[] = [];
+  for (const part of parts) {
+    const m = part.match(/^(.*)<([^>]+)>\s*$/);
+    const address = (m ? m[2] : part).trim().toLowerCase();
+    if (!address.includes('@')) continue;
+    const name = m
+      ? decodeHeaderValue(m[1].trim().replace(/^"|"$/g, '').trim())
+      : undefined;
+    result.push(name ? { address, name } : { address });
+  }
+  return result;
+}
+
+function parseMessageIds(value: string | undefined): string[] {
+  return value?.match(/<[^>]+>/g)?.map(stripAngles) ?? [];
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(parseInt(n, 10)))
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+interface MimeParts {
+  plain?: string;
+  html?: string;
+  attachments: InboundAttachment[];
+}
+
+function decodeTransfer(headers: Headers, body: string): Buffer {
+  const encoding = (headers.get('content-transfer-encoding') || '')
+    .trim()
+    .toLowerCase();
+  return encoding === 'base64'
+    ? Buffer.from(body, 'base64')
+    : encoding === 'quoted-printable'
+      ? decodeQuotedPrintable(body)
+      : Buffer.from(body, 'latin1');
+}
+
+/**
+ * Walk a MIME tree, keeping the first text/plain and text/html bodies and
+ * every attached file (explicit attachments and non-text inline parts).
+ */
+function collectParts(headers: Headers, body: string, out: MimeParts): void {
+  const contentType = headers.get('content-type') || 'text/plain';
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  const disposition = headers.get('content-disposition') || '';
+
+  if (type.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (!boundary) return;
+    const sections = body.split(`--${boundary}`);
+    // sections[0] is the preamble; the part after the closing "--" is the epilogue
+    for (const section of sections.slice(1)) {
+      if (section.startsWith('--')) break;
+      // The CRLF before each delimiter belongs to the delimiter, not the part
+      const part = splitEntity(
+        section.replace(/^\r?\n/, '').replace(/\r?\n$/, ''),
+      );
+      collectParts(part.headers, part.body, out);
+    }
+    return;
+  }
+
+  const isText = type === 'text/plain' || type === 'text/html';
+  if (/^attachment/i.test(disposition) || !isText) {
+    if (type.startsWith('message/')) return; // forwarded mails are not files
+    const name =
+      headerParam(disposition, 'filename') ?? headerParam(contentType, 'name');
+    out.attachments.push({
+      data: decodeTransfer(headers, body),
+      mime: type,
+      ...(name ? { filename: decodeHeaderValue(name) } : {}),
+    });
+    return;
+  }
+
+  const bytes = decodeTransfer(headers, body);
+  const text = decodeCharset(bytes, headerParam(contentType, 'charset'));
+  if (type === 'text/plain') out.plain ??= text;
+  else out.html ??= text;
+}
+
+/**
+ * Drop the quoted history most clients append to replies, so the agent
+ * sees only what was newly written.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+  for (const line of lines) {
+    if (/^On .+wrote:\s*$/.test(line)) break;
+    if (/^-{2,}\s*Original Message\s*-{2,}/i.test(line)) break;
+    if (line === '-- ') break;
+    if (line.startsWith('>')) continue;
+    kept.push(line);
+  }
+  const stripped = kept.join('\n').trim();
+  return stripped || text.trim();
+}
+
+export function parseEmail(raw: Buffer): ParsedEmail {
+  const { headers, body } = splitEntity(raw.toString('latin1'));
+  const out: MimeParts = { attachments: [] };
+  collectParts(headers, body, out);
+
+  const dateHeader = headers.get('date');
+  const date = dateHeader ? new Date(dateHeader) : undefined;
+  return {
+    messageId: parseMessageIds(headers.get('message-id'))[0],
+    inReplyTo: parseMessageIds(headers.get('in-reply-to'))[0],
+    references: parseMessageIds(headers.get('references')),
+    from: parseAddressList(headers.get('from'))[0],
+    replyTo: parseAddressList(headers.get('reply-to')),
+    to: parseAddressList(headers.get('to')),
+    cc: parseAddressList(headers.get('cc')),
+    subject: decodeHeaderValue(headers.get('subject') || ''),
+    date: date && !isNaN(date.getTime()) ? date : undefined,
+    text: out.plain ?? (out.html ? htmlToText(out.html) : ''),
+    attachments: out.attachments,
+  };
+}
+
+// --- IMAP ---
+
+interface ImapResponse {
+  text: string;
+  literals: Buffer[];
+}
+
+interface PendingCommand {
+  tag: string;
+  untagged: ImapResponse[];
+  resolve: (untagged: ImapResponse[]) => void;
+  reject: (err: Error) => void;
+}
+
+/** One IMAP connection running one command at a time. */
+class ImapConnection {
+  onUntagged: ((response: ImapResponse) => void) | null = null;
+
+  private buffer = Buffer.alloc(0);
+  private text = '';
+  private literals: Buffer[] = [];
+  private literalSize: number | null = null;
+  private tagSeq = 0;
+  private current: PendingCommand | null = null;
+  private greeting: PendingCommand | null = null;
+  private closed = false;
+
+  constructor(
+    private readonly socket: net.Socket,
+    private readonly timeoutMs = SOCKET_TIMEOUT_MS,
+  ) {
+    socket.on('data', (data: Buffer) => this.handleData(data));
+    socket.on('error', (err) => logger.debug({ err }, 'IMAP socket error'));
+    socket.on('timeout', () => {
+      const err = new Error('IMAP server timed out');
+      this.greeting?.reject(err);
+      this.current?.reject(err);
+      this.greeting = this.current = null;
+      socket.destroy();
+    });
+    socket.on('close', () => {
+      this.closed = true;
+      const err = new Error('IMAP connection closed');
+      this.greeting?.reject(err);
+      this.current?.reject(err);
+      this.greeting = this.current = null;
+    });
+  }
+
+  ready(): Promise<void> {
+    this.socket.setTimeout(this.timeoutMs);
+    return new Promise((resolve, reject) => {
+      this.greeting = {
+        tag: '*',
+        untagged: [],
+        resolve: () => resolve(),
+        reject,
+      };
+    });
+  }
+
+  /** Send a command; timeoutMs of 0 lets the server stay silent (IDLE). */
+  command(
+    command: string,
+    timeoutMs = this.timeoutMs,
+  ): Promise<ImapResponse[]> {
+    if (this.closed) {
+      return Promise.reject(new Error('IMAP connection closed'));
+    }
+    if (this.current) {
+      return Promise.reject(new Error('IMAP command already in progress'));
+    }
+    const tag = `A${++this.tagSeq}`;
+    return new Promise((resolve, reject) => {
+      this.current = { tag, untagged: [], resolve, reject };
+      this.socket.setTimeout(timeoutMs);
+      this.send(`${tag} ${command}`);
+    });
+  }
+
+  /** Continue the command in progress (DONE ends IDLE) and await its reply. */
+  write(line: string): void {
+    if (this.current) this.socket.setTimeout(this.timeoutMs);
+    this.send(line);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.send('A0 LOGOUT');
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private send(line: string): void {
+    if (!this.closed) this.socket.write(`${line}\r\n`);
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    for (;;) {
+      if (this.literalSize !== null) {
+        if (this.buffer.length < this.literalSize) return;
+        this.literals.push(this.buffer.subarray(0, this.literalSize));
+        this.buffer = this.buffer.subarray(this.literalSize);
+        this.literalSize = null;
+        continue;
+      }
+      const eol = this.buffer.indexOf('\r\n');
+      if (eol === -1) return;
+      const line = this.buffer.subarray(0, eol).toString('utf-8');
+      this.buffer = this.buffer.subarray(eol + 2);
+      this.text += line;
+      const literal = line.match(/\{(\d+)\}$/);
+      if (literal) {
+        this.literalSize = parseInt(literal[1], 10);
+        continue;
+      }
+      const response = { text: this.text, literals: this.literals };
+      this.text = '';
+      this.literals = [];
+      this.handleResponse(response);
+    }
+  }
+
+  private handleResponse(response: ImapResponse): void {
+    const { text } = response;
+    if (this.greeting) {
+      const greeting = this.greeting;
+      this.greeting = null;
+      this.socket.setTimeout(0);
+      if (/^\* (OK|PREAUTH)/i.test(text)) greeting.resolve([]);
+      else greeting.reject(new Error(`IMAP server refused: ${text}`));
+      return;
+    }
+    if (text.startsWith('* ')) {
+      this.current?.untagged.push(response);
+      this.onUntagged?.(response);
+      return;
+    }
+    if (text.startsWith('+')) return; // continuation (IDLE)
+
+    const current = this.current;
+    const m = text.match(/^(\S+) (OK|NO|BAD)\b ?(.*)$/i);
+    if (!current || !m || m[1] !== current.tag) return;
+    this.current = null;
+    this.socket.setTimeout(0);
+    if (m[2].toUpperCase() === 'OK') current.resolve(current.untagged);
+    else current.reject(new Error(`IMAP ${m[2]}: ${m[3]}`));
+  }
+}
+
+function imapQuote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function openSocket(
+  host: string,
+  port: number,
+  useTls: boolean,
+  rejectUnauthorized = true,
+  timeoutMs = SOCKET_TIMEOUT_MS,
+): Promise<net.Socket> {
+  const socket = useTls
+    ? tls.connect({ host, port, servername: host, rejectUnauthorized })
+    : net.connect({ host, port });
+  return whenConnected(socket, useTls ? 'secureConnect' : 'connect', timeoutMs);
+}
+
+/**
+ * Resolve once socket emits event. The socket's timeout stays armed for the
+ * caller, who must handle 'timeout' from then on.
+ */
+function whenConnected(
+  socket: net.Socket,
+  event: 'connect' | 'secureConnect',
+  timeoutMs: number,
+): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onTimeout = () => socket.destroy(new Error('Connection timed out'));
+    socket.setTimeout(timeoutMs);
+    socket.once('timeout', onTimeout);
+    socket.once(event, () => {
+      socket.off('error', reject);
+      socket.off('timeout', onTimeout);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+// --- SMTP ---
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+class SmtpReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (err: Error) => void;
+  } | null = null;
+  private error: Error | null = null;
+  private socket: net.Socket | null = null;
+
+  private readonly onData = (data: Buffer) => this.handleData(data);
+  private readonly onError = (err: Error) => this.fail(err);
+  private readonly onClose = () =>
+    this.fail(new Error('SMTP connection closed'));
+  private readonly onTimeout = () => {
+    this.fail(new Error('SMTP server timed out'));
+    this.socket?.destroy();
+  };
+
+  attach(socket: net.Socket): void {
+    this.detach();
+    this.socket = socket;
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+    socket.on('timeout', this.onTimeout);
+  }
+
+  detach(): void {
+    this.socket?.off('data', this.onData);
+    this.socket?.off('error', this.onError);
+    this.socket?.off('close', this.onClose);
+    this.socket?.off('timeout', this.onTimeout);
+    this.socket = null;
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  async command(line: string, expect: number[]): Promise<SmtpReply> {
+    this.socket?.write(`${line}\r\n`);
+    return this.expect(expect, line.split(' ')[0]);
+  }
+
+  async expect(codes: number[], what = 'greeting'): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${what} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer += data.toString('utf-8');
+    let eol: number;
+    while ((eol = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, eol);
+      this.buffer = this.buffer.slice(eol + 2);
+      this.lines.push(line.slice(4));
+      // "250-..." continues a multiline reply; "250 ..." ends it
+      if (line[3] === '-') continue;
+      const reply = {
+        code: parseInt(line.slice(0, 3), 10),
+        text: this.lines.join('\n'),
+      };
+      this.lines = [];
+      if (this.waiter) {
+        this.waiter.resolve(reply);
+        this.waiter = null;
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(err: Error): void {
+    this.error ??= err;
+    this.waiter?.reject(err);
+    this.waiter = null;
+  }
+}
+
+async function sendSmtp(
+  config: EmailChannelConfig,
+  recipients: string[],
+  data: string,
+): Promise<void> {
+  const { host, port, secure } = config.smtp;
+  const rejectUnauthorized = config.rejectUnauthorized ?? true;
+  const timeoutMs = config.timeoutMs ?? SOCKET_TIMEOUT_MS;
+  let socket = await openSocket(
+    host,
+    port,
+    secure === 'tls',
+    rejectUnauthorized,
+    timeoutMs,
+  );
+  const reader = new SmtpReader();
+  reader.attach(socket);
+  const clientName = config.address.split('@')[1] || 'localhost';
+
+  try {
+    await reader.expect([220]);
+    await reader.command(`EHLO ${clientName}`, [250]);
+    if (secure === 'starttls') {
+      await reader.command('STARTTLS', [220]);
+      reader.detach();
+      const plain = socket;
+      // The TLS socket takes over the timeout from here
+      plain.setTimeout(0);
+      socket = await whenConnected(
+        tls.connect({ socket: plain, servername: host, rejectUnauthorized }),
+        'secureConnect',
+        timeoutMs,
+      );
+      reader.attach(socket);
+      await reader.command(`EHLO ${clientName}`, [250]);
+    }
+    if (config.password) {
+      const auth = Buffer.from(`\0${config.user}\0${config.password}`).toString(
+        'base64',
+      );
+      await reader.command(`AUTH PLAIN ${auth}`, [235]);
+    }
+    await reader.command(`MAIL FROM:<${config.address}>`, [250]);
+    for (const rcpt of recipients) {
+      await reader.command(`RCPT TO:<${rcpt}>`, [250, 251]);
+    }
+    await reader.command('DATA', [354]);
+    // Dot-stuff lines that start with "." and terminate with <CRLF>.<CRLF>
+    const stuffed = data.replace(/\r\n/g, '\n').replace(/^\./gm, '..');
+    await reader.command(`${stuffed.replace(/\n/g, '\r\n')}\r\n.`, [250]);
+    await reader.command('QUIT', [221]).catch(() => {});
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
+
+function wrapBase64(data: string | Buffer): string {
+  return (
+    Buffer.from(data)
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
+
+// --- Channel ---
+
+export class EmailChannel implements Channel {
+  name: string;
+  // Replies carry both a plain and an HTML rendering of the Markdown
+  capabilities: ChannelCapabilities = {
+    markup: 'markdown',
+    threads: false,
+    reactions: false,
+    attachments: true,
+    edits: false,
+  };
+
+  private imap: ImapConnection | null = null;
+  private connected = false;
+  private stopping = false;
+  private state: EmailState = { lastUid: 0, threads: {} };
+  private newMail = false;
+  private stopIdle: (() => void) | null = null;
+  private cancelBackoff: (() => void) | null = null;
+  private loop: Promise<void> | null = null;
+  private readonly jidPrefix: string;
+
+  constructor(
+    private readonly opts: ChannelOpts,
+    private readonly config: EmailChannelConfig,
+  ) {
+    this.name = channelInstanceName('email', config.instance);
+    this.jidPrefix = instanceJidPrefix(JID_PREFIX, config.instance);
+  }
+
+  async connect(): Promise<void> {
+    this.stopping = false;
+    this.loadState();
+    await this.openMailbox();
+    this.connected = true;
+    logger.info(
+      { address: this.config.address, mailbox: this.config.mailbox },
+      'Email channel connected',
+    );
+    this.loop = this.runLoop();
+  }
+
+  async sendMessage(jid: string, text: string): Promise<void> {
+    await this.sendReply(jid, text);
+    logger.info({ jid, length: text.length }, 'Email reply sent');
+  }
+
+  async sendFile(jid: string, file: OutboundFile): Promise<void> {
+    await this.sendReply(jid, file.caption ?? '', file);
+    logger.info(
+      { jid, file: file.filename, size: file.size },
+      'Email reply with attachment sent',
+    );
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  ownsJid(jid: string): boolean {
+    return jid.startsWith(this.jidPrefix);
+  }
+
+  // Anyone can put any address in From:
+  isVerifiedSender(): boolean {
+    return false;
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopping = true;
+    this.connected = false;
+    this.cancelBackoff?.();
+    this.stopIdle?.();
+    this.imap?.close();
+    this.imap = null;
+    await this.loop?.catch(() => {});
+    this.loop = null;
+  }
+
+  private async openMailbox(): Promise<void> {
+    const { host, port, tls: useTls } = this.config.imap;
+    const socket = await openSocket(
+      host,
+      port,
+      useTls,
+      this.config.rejectUnauthorized,
+      this.config.timeoutMs,
+    );
+    const imap = new ImapConnection(socket, this.config.timeoutMs);
+    try {
+      await imap.ready();
+      await imap.command(
+        `LOGIN ${imapQuote(this.config.user)} ${imapQuote(this.config.password)}`,
+      );
+      const select = await imap.command(
+        `SELECT ${imapQuote(this.config.mailbox)}`,
+      );
+      const code = (name: string) => {
+        for (const r of select) {
+          const m = r.text.match(new RegExp(`\\[${name} (\\d+)\\]`, 'i'));
+          if (m) return parseInt(m[1], 10);
+        }
+        return undefined;
+      };
+      const uidValidity = code('UIDVALIDITY');
+      const uidNext = code('UIDNEXT') ?? 1;
+      if (uidValidity !== this.state.uidValidity) {
+        // New mailbox (or UIDs were reset): start from now, skip history
+        this.state.uidValidity = uidValidity;
+        this.state.lastUid = uidNext - 1;
+        this.saveState();
+      }
+    } catch (err) {
+      imap.close();
+      throw err;
+    }
+
+    imap.onUntagged = (response) => {
+      if (/^\* \d+ EXISTS/i.test(response.text)) {
+        this.newMail = true;
+        this.stopIdle?.();
+      }
+    };
+    this.imap = imap;
+  }
+
+  private async runLoop(): Promise<void> {
+    let attempts = 0;
+    while (!this.stopping) {
+      try {
+        if (!this.imap) {
+          await this.openMailbox();
+          this.connected = true;
+          attempts = 0;
+          logger.info('Email channel reconnected');
+        }
+        await this.fetchNew();
+        await this.idle();
+      } catch (err) {
+        if (this.stopping) break;
+        this.connected = false;
+        this.imap?.close();
+        this.imap = null;
+        const base = this.config.reconnectBaseMs ?? 1000;
+        const max = this.config.reconnectMaxMs ?? 60000;
+        const delay = Math.min(base * 2 ** attempts++, max);
+        logger.warn({ err, delayMs: delay }, 'Email IMAP error, reconnecting');
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, delay);
+          this.cancelBackoff = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        this.cancelBackoff = null;
+      }
+    }
+  }
+
+  private async fetchNew(): Promise<void> {
+    const imap = this.imap!;
+    this.newMail = false;
+    const search = await imap.command(
+      `UID SEARCH UID ${this.state.lastUid + 1}:*`,
+    );
+    // "n:*" always matches the highest UID, even when it is below n
+    const uids = search
+      .flatMap((r) => r.text.match(/^\* SEARCH((?: \d+)*)/i)?.[1] ?? '')
+      .flatMap((list) => list.trim().split(/\s+/))
+      .filter(Boolean)
+      .map(Number)
+      .filter((uid) => uid > this.state.lastUid)
+      .sort((a, b) => a - b);
+
+    for (const uid of uids) {
+      const fetch = await imap.command(`UID FETCH ${uid} (UID BODY.PEEK[])`);
+      const raw = fetch.find((r) => r.literals.length > 0)?.literals[0];
+      if (raw) {
+        try {
+          this.handleRawMessage(raw, uid);
+        } catch (err) {
+          logger.error({ err, uid }, 'Failed to process email');
+        }
+      }
+      this.state.lastUid = uid;
+      this.saveState();
+    }
+  }
+
+  private async idle(): Promise<void> {
+    if (this.newMail || this.stopping) return;
+    const imap = this.imap!;
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      imap.write('DONE');
+    };
+    const timer = setTimeout(finish, IDLE_REFRESH_MS);
+    this.stopIdle = finish;
+    try {
+      // The server may stay silent while idling; DONE re-arms the timeout
+      await imap.command('IDLE', 0);
+    } finally {
+      clearTimeout(timer);
+      this.stopIdle = null;
+    }
+  }
+
+  private handleRawMessage(raw: Buffer, uid: number): void {
+    const mail = parseEmail(raw);
+    const self = this.config.address.toLowerCase();
+    const messageId = mail.messageId || `uid-${uid}@${this.config.imap.host}`;
+    const root = mail.references[0] || mail.inReplyTo || messageId;
+    const jid = emailJid(root, this.config.instance);
+    const fromSelf = mail.from?.address === self;
+
+    // Reply-all: the author (or their Reply-To) plus everyone else on the mail
+    const author = mail.replyTo.length
+      ? mail.replyTo
+      : mail.from
+        ? [mail.from]
+        : [];
+    const participants = [
+      ...new Set(
+        [...(fromSelf ? [] : author), ...mail.to, ...mail.cc]
+          .map((a) => a.address)
+          .filter((a) => a !== self),
+      ),
+    ];
+
+    const existing = this.state.threads[root];
+    const thread: EmailThread = existing ?? {
+      subject: mail.subject,
+      participants: [],
+      references: mail.references.length
+        ? mail.references
+        : mail.inReplyTo
+          ? [mail.inReplyTo]
+          : [],
+    };
+    if (participants.length) thread.participants = participants;
+    this.appendReference(thread, messageId);
+    // Move to the end so the oldest threads are evicted first
+    delete this.state.threads[root];
+    this.state.threads[root] = thread;
+
+    const timestamp = (mail.date ?? new Date()).toISOString();
+    const isGroup = thread.participants.length > 1;
+    const chatName = thread.subject.replace(/^(re|fwd?):\s*/i, '') || root;
+    this.opts.onChatMetadata(jid, timestamp, chatName, this.name, isGroup);
+
+    if (!this.opts.registeredGroups()[jid]) return;
+
+    this.opts.onMessage(
+      jid,
+      {
+        id: messageId,
+        chat_jid: jid,
+        sender: mail.from?.address || 'unknown',
+        sender_name: mail.from?.name || mail.from?.address || 'unknown',
+        content: stripQuotedReply(mail.text),
+        timestamp,
+        is_from_me: fromSelf,
+        is_bot_message: fromSelf,
+        // The whole mail thread is one chat, so only the direct parent matters
+        ...(mail.inReplyTo ? { reply_to_id: mail.inReplyTo } : {}),
+      },
+      mail.attachments,
+    );
+  }
+
+  /** Reply-all on the thread, optionally attaching a file. */
+  private async sendReply(
+    jid: string,
+    text: string,
+    file?: OutboundFile,
+  ): Promise<void> {
+    const root = jid.slice(this.jidPrefix.length);
+    const thread = this.state.threads[root];
+    if (!thread || thread.participants.length === 0) {
+      throw new Error(`No email thread to reply to for ${jid}`);
+    }
+
+    const domain = this.config.address.split('@')[1] || 'localhost';
+    const messageId = `${randomUUID()}@${domain}`;
+    const boundary = `alt-${randomUUID()}`;
+    const lastId = thread.references[thread.references.length - 1];
+    const subject = /^re:/i.test(thread.subject)
+      ? thread.subject
+      : `Re: ${thread.subject}`;
+    const headers = [
+      `From: ${encodeHeaderValue(ASSISTANT_NAME)} <${this.config.address}>`,
+      `To: ${thread.participants.join(', ')}`,
+      `Subject: ${encodeHeaderValue(subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${messageId}>`,
+      `In-Reply-To: <${lastId}>`,
+      `References: ${thread.references.map((r) => `<${r}>`).join(' ')}`,
+      'MIME-Version: 1.0',
+    ];
+    const part = (type: string, body: string) =>
+      [
+        `--${boundary}`,
+        `Content-Type: ${type}; charset=utf-8`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrapBase64(body),
+      ].join('\r\n');
+    const alternative = [
+      part('text/plain', renderMarkup(text, 'plain')),
+      part('text/html', renderMarkup(text, 'html')),
+      `--${boundary}--`,
+    ].join('\r\n');
+    let contentType = `multipart/alternative; boundary="${boundary}"`;
+    let body = alternative;
+    if (file) {
+      const mixed = `mixed-${randomUUID()}`;
+      const name = encodeHeaderValue(file.filename.replace(/["\\]/g, '_'));
+      contentType = `multipart/mixed; boundary="${mixed}"`;
+      body = [
+        `--${mixed}`,
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        alternative,
+        `--${mixed}`,
+        `Content-Type: ${file.mime}; name="${name}"`,
+        `Content-Disposition: attachment; filename="${name}"`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrapBase64(fs.readFileSync(file.path)),
+        `--${mixed}--`,
+      ].join('\r\n');
+    }
+    headers.push(`Content-Type: ${contentType}`);
+    await sendSmtp(
+      this.config,
+      thread.participants,
+      `${headers.join('\r\n')}\r\n\r\n${body}`,
+    );
+
+    this.appendReference(thread, messageId);
+    this.saveState();
+  }
+
+  private appendReference(thread: EmailThread, messageId: string): void {
+    if (!thread.references.includes(messageId)) {
+      thread.references.push(messageId);
+    }
+    if (thread.references.length > MAX_REFERENCES) {
+      thread.references = [
+        thread.references[0],
+        ...thread.references.slice(-(MAX_REFERENCES - 1)),
+      ];
+    }
+  }
+
+  private get stateKey(): string {
+    return `email:${this.config.address}:${this.config.mailbox}`;
+  }
+
+  private loadState(): void {
+    const raw = getRouterState(this.stateKey);
+    if (!raw) return;
+    try {
+      this.state = { lastUid: 0, threads: {}, ...JSON.parse(raw) };
+    } catch {
+      logger.warn('Corrupted email channel state, starting fresh');
+    }
+  }
+
+  private saveState(): void {
+    const roots = Object.keys(this.state.threads);
+    for (const root of roots.slice(0, roots.length - MAX_THREADS)) {
+      delete this.state.threads[root];
+    }
+    setRouterState(this.stateKey, JSON.stringify(this.state));
+  }
+}
+
+registerChannel('email', (opts: ChannelOpts, instance?: string) => {
+  const keys = [
+    'EMAIL_ADDRESS',
+    'EMAIL_PASSWORD',
+    'EMAIL_USER',
+    'EMAIL_IMAP_HOST',
+    'EMAIL_IMAP_PORT',
+    'EMAIL_IMAP_TLS',
+    'EMAIL_MAILBOX',
+    'EMAIL_SMTP_HOST',
+    'EMAIL_SMTP_PORT',
+    'EMAIL_SMTP_SECURE',
+  ];
+  const env = readChannelEnv(keys, instance);
+  const get = (key: string) => env[key];
+
+  const address = get('EMAIL_ADDRESS');
+  const imapHost = get('EMAIL_IMAP_HOST');
+  if (!address || !imapHost) return null;
+
+  const imapTls = get('EMAIL_IMAP_TLS') !== 'false';
+  const smtpPort = parseInt(get('EMAIL_SMTP_PORT') || '465', 10);
+  const secure = get('EMAIL_SMTP_SECURE');
+  return new EmailChannel(opts, {
+    address,
+    user: get('EMAIL_USER') || address,
+    password: get('EMAIL_PASSWORD') || '',
+    imap: {
+      host: imapHost,
+      port: parseInt(get('EMAIL_IMAP_PORT') || (imapTls ? '993' : '143'), 10),
+      tls: imapTls,
+    },
+    mailbox: get('EMAIL_MAILBOX') || 'INBOX',
+    smtp: {
+      host: get('EMAIL_SMTP_HOST') || imapHost,
+      port: smtpPort,
+      secure:
+        secure === 'tls' || secure === 'starttls' || secure === 'none'
+          ? secure
+          : smtpPort === 465
+            ? 'tls'
+            : 'starttls',
+    },
+    instance,
+  });
+});
@@ -0,0 +1,266 @@
+import { createServer, Server } from 'http';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { RegisteredGroup } from '../types.js';
+import { HttpChannel, HttpChannelConfig } from './http.js';
+import { ChannelOpts } from './registry.js';
+
+const GROUP: RegisteredGroup = {
+  name: 'Tools',
+  folder: 'http_tools',
+  trigger: '@Andy',
+  added_at: '2024-01-01T00:00:00.000Z',
+};
+
+function makeOpts(): ChannelOpts {
+  return {
+    onMessage: vi.fn(),
+    onChatMetadata: vi.fn(),
+    registeredGroups: () => ({ 'http:tools': GROUP }),
+  };
+}
+
+describe('HttpChannel', () => {
+  let opts: ChannelOpts;
+  let channel: HttpChannel;
+  let base: string;
+
+  async function start(config: Partial<HttpChannelConfig> = {}) {
+    channel = new HttpChannel(opts, { port: 0, host: '127.0.0.1', ...config });
+    await channel.connect();
+    base = `http://127.0.0.1:${channel.address()!.port}`;
+  }
+
+  function post(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(`${base}/messages`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  beforeEach(() => {
+    opts = makeOpts();
+  });
+
+  afterEach(async () => {
+    await channel.disconnect();
+  });
+
+  it('owns http: JIDs only', async () => {
+    await start();
+    expect(channel.ownsJid('http:tools')).toBe(true);
+    expect(channel.ownsJid('tg:123')).toBe(false);
+    expect(channel.isConnected()).toBe(true);
+  });
+
+  it('delivers inbound messages for registered chats', async () => {
+    await start();
+    const res = await post({
+      chat_id: 'tools',
+      content: '@Andy ping',
+      sender: 'ci-bot',
+      sender_name: 'CI',
+      chat_name: 'Tools',
+      is_group: true,
+    });
+
+    expect(res.status).toBe(202);
+    expect(await res.json()).toMatchObject({
+      jid: 'http:tools',
+      registered: true,
+    });
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      'http:tools',
+      expect.any(String),
+      'Tools',
+      'http',
+      true,
+    );
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      'http:tools',
+      expect.objectContaining({
+        chat_jid: 'http:tools',
+        sender: 'ci-bot',
+        sender_name: 'CI',
+        content: '@Andy ping',
+      }),
+    );
+  });
+
+  it('namespaces JIDs and chat attribution by instance', async () => {
+    opts.registeredGroups = () => ({ 'http.work:tools': GROUP });
+    await start({ instance: 'work' });
+    expect(channel.name).toBe('http:work');
+    expect(channel.ownsJid('http.work:tools')).toBe(true);
+    expect(channel.ownsJid('http:tools')).toBe(false);
+
+    const res = await post({ chat_id: 'tools', content: '@Andy ping' });
+    expect(await res.json()).toMatchObject({
+      jid: 'http.work:tools',
+      registered: true,
+    });
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      'http.work:tools',
+      expect.any(String),
+      undefined,
+      'http:work',
+      false,
+    );
+  });
+
+  it('records metadata but drops content for unregistered chats', async () => {
+    await start();
+    const res = await post({ chat_id: 'other', content: 'hello' });
+
+    expect(res.status).toBe(202);
+    expect(opts.onChatMetadata).toHaveBeenCalled();
+    expect(opts.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed requests', async () => {
+    await start();
+    expect((await post('not json')).status).toBe(400);
+    expect((await post({ content: 'no chat' })).status).toBe(400);
+    expect((await post({ chat_id: 'tools' })).status).toBe(400);
+    expect((await fetch(`${base}/nope`)).status).toBe(404);
+  });
+
+  it('requires the bearer token when configured', async () => {
+    await start({ token: 's3cret' });
+    expect((await post({ chat_id: 'tools', content: 'x' })).status).toBe(401);
+    for (const authorization of ['Bearer s3cre', 'Bearer s3cret2']) {
+      const wrong = await post(
+        { chat_id: 'tools', content: 'x' },
+        { authorization },
+      );
+      expect(wrong.status).toBe(401);
+    }
+    const ok = await post(
+      { chat_id: 'tools', content: 'x' },
+      { authorization: 'Bearer s3cret' },
+    );
+    expect(ok.status).toBe(202);
+  });
+
+  it('returns queued replies from the long-poll endpoint', async () => {
+    await start();
+    await channel.sendMessage('http:tools', 'first');
+    await channel.sendMessage('http:tools', 'second');
+
+    const res = await fetch(`${base}/messages?chat_id=tools`);
+    const body = (await res.json()) as { messages: { text: string }[] };
+    expect(body.messages.map((m) => m.text)).toEqual(['first', 'second']);
+
+    // Drained after read
+    const again = await fetch(`${base}/messages?chat_id=tools`);
+    expect(((await again.json()) as { messages: [] }).messages).toEqual([]);
+  });
+
+  it('sends prompts with their choices and takes answers', async () => {
+    opts.onPromptAnswer = vi.fn();
+    await start();
+    await channel.sendPrompt('http:tools', {
+      id: 'p1',
+      question: 'Delete it?',
+      choices: ['Yes', 'No'],
+    });
+
+    const res = await fetch(`${base}/messages?chat_id=tools`);
+    const body = (await res.json()) as { messages: unknown[] };
+    expect(body.messages).toMatchObject([
+      { text: 'Delete it?', prompt: { id: 'p1', choices: ['Yes', 'No'] } },
+    ]);
+
+    const answer = await fetch(`${base}/prompts/p1/answer`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ chat_id: 'tools', choice: 1, sender: 'alice' }),
+    });
+    expect(answer.status).toBe(202);
+    expect(opts.onPromptAnswer).toHaveBeenCalledWith(
+      'http:tools',
+      'p1',
+      1,
+      'alice',
+    );
+
+    const bad = await fetch(`${base}/prompts/p1/answer`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ chat_id: 'tools', choice: 'yes' }),
+    });
+    expect(bad.status).toBe(400);
+  });
+
+  it('wakes a waiting long-poll when a reply arrives', async () => {
+    await start();
+    const pending = fetch(`${base}/messages?chat_id=tools&wait=10`);
+    await new Promise((r) => setTimeout(r, 50));
+    await channel.sendMessage('http:tools', 'late reply');
+
+    const body = (await (await pending).json()) as {
+      messages: { text: string }[];
+    };
+    expect(body.messages.map((m) => m.text)).toEqual(['late reply']);
+  });
+
+  it('streams replies and typing over SSE', async () => {
+    await start();
+    const res = await fetch(`${base}/events?chat_id=tools`);
+    const reader = res.body!.getReader();
+    await reader.read(); // ": connected"
+
+    await channel.setTyping('http:tools', true);
+    await channel.sendMessage('http:tools', 'streamed');
+
+    let text = '';
+    while (!text.includes('streamed')) {
+      const { value } = await reader.read();
+      text += new TextDecoder().decode(value);
+    }
+    expect(text).toContain('event: typing');
+    expect(text).toContain('event: message');
+    await reader.cancel();
+  });
+
+  describe('callback URL', () => {
+    let callbackServer: Server;
+    let received: unknown[];
+
+    beforeEach(async () => {
+      received = [];
+      callbackServer = createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (c) => chunks.push(c));
+        req.on('end', () => {
+          received.push(JSON.parse(Buffer.concat(chunks).toString()));
+          res.writeHead(204);
+          res.end();
+        });
+      });
+      await new Promise<void>((r) =>
+        callbackServer.listen(0, '127.0.0.1', () => r()),
+      );
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((r) => callbackServer.close(() => r()));
+    });
+
+    it('POSTs replies to the configured callback', async () => {
+      const addr = callbackServer.address() as { port: number };
+      await start({ callbackUrl: `http://127.0.0.1:${addr.port}/hook` });
+
+      await channel.sendMessage('http:tools', 'via webhook');
+
+      expect(received).toEqual([
+        expect.objectContaining({
+          jid: 'http:tools',
+          chat_id: 'tools',
+          text: 'via webhook',
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,462 @@
+/**
+ * HTTP/webhook channel.
+ *
+ * A first-party channel with no chat platform behind it, for wiring NanoClaw
+ * into internal tools and for end-to-end tests. Chats are addressed as
+ * `http:<chat_id>`.
+ *
+ * Inbound:
+ *   POST /messages   { chat_id, content, sender?, sender_name?, id?,
+ *                      timestamp?, chat_name?, is_group? }
+ *   POST /prompts/<id>/answer   { chat_id, choice, sender? }  picks a choice
+ *                      of an outbound message's `prompt` (index from 0)
+ *
+ * Outbound (any combination):
+ *   HTTP_CHANNEL_CALLBACK_URL  each reply is POSTed there as JSON
+ *   GET /messages?chat_id=..&wait=25   long-poll, drains queued replies
+ *   GET /events[?chat_id=..]           Server-Sent Events stream
+ *
+ * Enabled by setting HTTP_CHANNEL_PORT. When HTTP_CHANNEL_TOKEN is set,
+ * every request must carry `Authorization: Bearer <token>`.
+ *
+ * A named instance (http:work) reads the same keys with _WORK appended
+ * and uses JIDs of the form `http.work:<chat_id>`.
+ */
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+
+import { readChannelEnv } from '../env.js';
+import { logger } from '../logger.js';
+import { Channel, ChannelCapabilities, Prompt } from '../types.js';
+import {
+  channelInstanceName,
+  ChannelOpts,
+  instanceJidPrefix,
+  registerChannel,
+} from './registry.js';
+
+const JID_PREFIX = 'http:';
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_QUEUED_PER_CHAT = 100;
+const MAX_LONG_POLL_SECONDS = 60;
+const SSE_KEEPALIVE_MS = 25000;
+const CALLBACK_TIMEOUT_MS = 30000;
+
+export interface HttpChannelConfig {
+  port: number;
+  host: string;
+  token?: string;
+  callbackUrl?: string;
+  instance?: string; // Named instance (`work` for http:work)
+}
+
+export interface OutboundHttpMessage {
+  id: string;
+  jid: string;
+  chat_id: string;
+  text: string;
+  timestamp: string;
+  // Set for ask_user questions: show the choices as buttons and POST the
+  // pick to /prompts/<id>/answer
+  prompt?: { id: string; choices: string[] };
+}
+
+interface SseClient {
+  res: ServerResponse;
+  chatId: string | null;
+}
+
+interface LongPollWaiter {
+  chatId: string;
+  resolve: () => void;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export function httpJid(chatId: string, instance?: string): string {
+  return `${instanceJidPrefix(JID_PREFIX, instance)}${chatId}`;
+}
+
+/**
+ * Whether an Authorization header carries the bearer token. Both sides are
+ * hashed to the same length and compared in constant time, so the time
+ * taken says nothing about how much of the token matched.
+ */
+function matchesToken(header: string | undefined, token: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(header ?? ''), digest(`Bearer ${token}`));
+}
+
+export class HttpChannel implements Channel {
+  name: string;
+  capabilities: ChannelCapabilities = {
+    markup: 'markdown',
+    threads: false,
+    reactions: false,
+    attachments: false,
+    edits: false,
+  };
+
+  private server: Server | null = null;
+  private connected = false;
+  private queued = new Map<string, OutboundHttpMessage[]>();
+  private sseClients = new Set<SseClient>();
+  private waiters = new Set<LongPollWaiter>();
+  private keepaliveTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly jidPrefix: string;
+
+  constructor(
+    private readonly opts: ChannelOpts,
+    private readonly config: HttpChannelConfig,
+  ) {
+    this.name = channelInstanceName('http', config.instance);
+    this.jidPrefix = instanceJidPrefix(JID_PREFIX, config.instance);
+  }
+
+  async connect(): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        const status = err instanceof HttpError ? err.status : 500;
+        if (status === 500) {
+          logger.error({ err, url: req.url }, 'HTTP channel request failed');
+        }
+        if (!res.headersSent) {
+          sendJson(res, status, {
+            error: err instanceof HttpError ? err.message : 'Internal error',
+          });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.connected = true;
+    this.keepaliveTimer = setInterval(() => {
+      for (const client of this.sseClients) client.res.write(': keepalive\n\n');
+    }, SSE_KEEPALIVE_MS);
+    logger.info(
+      { host: this.config.host, port: this.address()?.port },
+      'HTTP channel listening',
+    );
+  }
+
+  /** The bound address (useful when listening on port 0). */
+  address(): { host: string; port: number } | null {
+    const addr = this.server?.address();
+    if (!addr || typeof addr === 'string') return null;
+    return { host: addr.address, port: addr.port };
+  }
+
+  async sendMessage(jid: string, text: string): Promise<void> {
+    await this.emit(jid, text);
+  }
+
+  async sendPrompt(jid: string, prompt: Prompt): Promise<void> {
+    await this.emit(jid, prompt.question, {
+      id: prompt.id,
+      choices: prompt.choices,
+    });
+  }
+
+  async setTyping(jid: string, isTyping: boolean): Promise<void> {
+    const chatId = jid.slice(this.jidPrefix.length);
+    this.broadcast(chatId, 'typing', { jid, chat_id: chatId, isTyping });
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  ownsJid(jid: string): boolean {
+    return jid.startsWith(this.jidPrefix);
+  }
+
+  // Whoever holds the token can post as any sender
+  isVerifiedSender(): boolean {
+    return false;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    if (this.keepaliveTimer) clearInterval(this.keepaliveTimer);
+    this.keepaliveTimer = null;
+    for (const waiter of this.waiters) waiter.resolve();
+    for (const client of this.sseClients) client.res.end();
+    this.sseClients.clear();
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /** Queue a reply for pollers, push it to SSE clients and the callback. */
+  private async emit(
+    jid: string,
+    text: string,
+    prompt?: OutboundHttpMessage['prompt'],
+  ): Promise<void> {
+    const chatId = jid.slice(this.jidPrefix.length);
+    const message: OutboundHttpMessage = {
+      id: randomUUID(),
+      jid,
+      chat_id: chatId,
+      text,
+      timestamp: new Date().toISOString(),
+      ...(prompt ? { prompt } : {}),
+    };
+
+    const queue = this.queued.get(chatId) ?? [];
+    queue.push(message);
+    if (queue.length > MAX_QUEUED_PER_CHAT) queue.shift();
+    this.queued.set(chatId, queue);
+
+    this.broadcast(chatId, 'message', message);
+    for (const waiter of this.waiters) {
+      if (waiter.chatId === chatId) waiter.resolve();
+    }
+
+    if (this.config.callbackUrl) {
+      const res = await fetch(this.config.callbackUrl, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(message),
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new Error(
+          `HTTP channel callback failed: ${res.status} ${res.statusText}`,
+        );
+      }
+    }
+  }
+
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    if (
+      this.config.token &&
+      !matchesToken(req.headers['authorization'], this.config.token)
+    ) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'POST' && url.pathname === '/messages') {
+      return this.handleInbound(req, res);
+    }
+    const answer = url.pathname.match(/^\/prompts\/([^/]+)\/answer$/);
+    if (req.method === 'POST' && answer) {
+      return this.handlePromptAnswer(decodeURIComponent(answer[1]), req, res);
+    }
+    if (req.method === 'GET' && url.pathname === '/messages') {
+      return this.handleLongPoll(url, req, res);
+    }
+    if (req.method === 'GET' && url.pathname === '/events') {
+      return this.handleEvents(url, req, res);
+    }
+    if (req.method === 'GET' && url.pathname === '/health') {
+      return sendJson(res, 200, { ok: true });
+    }
+    throw new HttpError(404, 'Not found');
+  }
+
+  private async handleInbound(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const body = await readJsonBody(req);
+    const chatId = body.chat_id;
+    const content = body.content;
+    if (typeof chatId !== 'string' || !chatId) {
+      throw new HttpError(400, 'chat_id is required');
+    }
+    if (typeof content !== 'string' || !content) {
+      throw new HttpError(400, 'content is required');
+    }
+
+    const jid = httpJid(chatId, this.config.instance);
+    const timestamp =
+      typeof body.timestamp === 'string'
+        ? body.timestamp
+        : new Date().toISOString();
+    const sender = typeof body.sender === 'string' ? body.sender : 'http';
+    const id = typeof body.id === 'string' ? body.id : randomUUID();
+    const isGroup = body.is_group === true;
+
+    this.opts.onChatMetadata(
+      jid,
+      timestamp,
+      typeof body.chat_name === 'string' ? body.chat_name : undefined,
+      this.name,
+      isGroup,
+    );
+
+    // Only deliver full messages for registered groups
+    const group = this.opts.registeredGroups()[jid];
+    if (!group) {
+      logger.debug({ jid }, 'Message from unregistered HTTP chat');
+      return sendJson(res, 202, { id, jid, registered: false });
+    }
+
+    this.opts.onMessage(jid, {
+      id,
+      chat_jid: jid,
+      sender,
+      sender_name:
+        typeof body.sender_name === 'string' ? body.sender_name : sender,
+      content,
+      timestamp,
+      is_from_me: false,
+    });
+
+    sendJson(res, 202, { id, jid, registered: true });
+  }
+
+  private async handlePromptAnswer(
+    promptId: string,
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const body = await readJsonBody(req);
+    const chatId = body.chat_id;
+    if (typeof chatId !== 'string' || !chatId) {
+      throw new HttpError(400, 'chat_id is required');
+    }
+    if (typeof body.choice !== 'number') {
+      throw new HttpError(400, 'choice is required');
+    }
+    const jid = httpJid(chatId, this.config.instance);
+    const sender = typeof body.sender === 'string' ? body.sender : 'http';
+    this.opts.onPromptAnswer?.(jid, promptId, body.choice, sender);
+    sendJson(res, 202, { prompt_id: promptId, jid });
+  }
+
+  private async handleLongPoll(
+    url: URL,
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const chatId = url.searchParams.get('chat_id');
+    if (!chatId) throw new HttpError(400, 'chat_id is required');
+    const waitSeconds = Math.min(
+      Math.max(parseInt(url.searchParams.get('wait') || '0', 10) || 0, 0),
+      MAX_LONG_POLL_SECONDS,
+    );
+
+    if (!this.queued.get(chatId)?.length && waitSeconds > 0) {
+      await new Promise<void>((resolve) => {
+        const waiter: LongPollWaiter = {
+          chatId,
+          resolve: () => {
+            clearTimeout(timer);
+            this.waiters.delete(waiter);
+            resolve();
+          },
+        };
+        const timer = setTimeout(waiter.resolve, waitSeconds * 1000);
+        this.waiters.add(waiter);
+        req.on('close', waiter.resolve);
+      });
+    }
+
+    const messages = this.queued.get(chatId) ?? [];
+    this.queued.delete(chatId);
+    sendJson(res, 200, { messages });
+  }
+
+  private handleEvents(
+    url: URL,
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): void {
+    res.writeHead(200, {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache',
+      connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    const client: SseClient = { res, chatId: url.searchParams.get('chat_id') };
+    this.sseClients.add(client);
+    req.on('close', () => this.sseClients.delete(client));
+  }
+
+  private broadcast(chatId: string, event: string, data: unknown): void {
+    const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const client of this.sseClients) {
+      if (client.chatId === null || client.chatId === chatId) {
+        client.res.write(payload);
+      }
+    }
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const parsed = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          reject(new HttpError(400, 'Body must be a JSON object'));
+          return;
+        }
+        resolve(parsed as Record<string, unknown>);
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+registerChannel('http', (opts: ChannelOpts, instance?: string) => {
+  const env = readChannelEnv(
+    [
+      'HTTP_CHANNEL_PORT',
+      'HTTP_CHANNEL_HOST',
+      'HTTP_CHANNEL_TOKEN',
+      'HTTP_CHANNEL_CALLBACK_URL',
+    ],
+    instance,
+  );
+  if (!env.HTTP_CHANNEL_PORT) return null;
+  return new HttpChannel(opts, {
+    port: parseInt(env.HTTP_CHANNEL_PORT, 10),
+    host: env.HTTP_CHANNEL_HOST || '127.0.0.1',
+    token: env.HTTP_CHANNEL_TOKEN,
+    callbackUrl: env.HTTP_CHANNEL_CALLBACK_URL,
+    instance,
+  });
+});
@@ -1,10 +1,28 @@
 // Channel self-registration barrel file.
 // Each import triggers the channel module's registerChannel() call.
 
+// cli
+import './cli.js';
+
 // discord
 
+// email
+import './email.js';
+
 // gmail
 
+// http
+import './http.js';
+
+// irc
+import './irc.js';
+
+// matrix
+import './matrix.js';
+
+// signal
+import './signal.js';
+
 // slack
 
 // telegram
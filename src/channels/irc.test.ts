@@ -0,0 +1,370 @@
+import net from 'net';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { RegisteredGroup } from '../types.js';
+import { IrcChannel, parseIrcLine, splitIrcMessage } from './irc.js';
+import { ChannelOpts } from './registry.js';
+
+interface FakeIrcdOptions {
+  // Nicks the server treats as already taken
+  takenNicks?: string[];
+  // Accepted SASL PLAIN payload (base64); absent means SASL is not offered
+  saslPayload?: string;
+  // Offer the IRCv3 account-tag capability
+  accountTag?: boolean;
+  // Accept connections but never send RPL_WELCOME
+  silent?: boolean;
+}
+
+/** Just enough of an IRC server to register, join and relay PRIVMSG. */
+class FakeIrcd {
+  server: net.Server;
+  received: string[] = [];
+  clients: net.Socket[] = [];
+  connections = 0;
+
+  constructor(private readonly options: FakeIrcdOptions = {}) {
+    this.server = net.createServer((socket) => this.accept(socket));
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>((r) => this.server.listen(0, '127.0.0.1', r));
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const c of this.clients) c.destroy();
+    await new Promise<void>((r) => this.server.close(() => r()));
+  }
+
+  /** Send a raw line to every connected client. */
+  broadcast(line: string): void {
+    for (const c of this.clients) c.write(`${line}\r\n`);
+  }
+
+  dropClients(): void {
+    for (const c of this.clients) c.destroy();
+    this.clients = [];
+  }
+
+  private accept(socket: net.Socket): void {
+    this.connections++;
+    this.clients.push(socket);
+    socket.setEncoding('utf-8');
+    let buffer = '';
+    let nick = '';
+    let capPending = false;
+    let userSeen = false;
+    let welcomed = false;
+    const send = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.on('error', () => {});
+    socket.on('data', (data: string) => {
+      buffer += data;
+      const lines = buffer.split('\r\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        this.received.push(line);
+        const [cmd, ...args] = line.split(' ');
+        switch (cmd) {
+          case 'CAP': {
+            if (args[0] !== 'REQ') break;
+            const cap = args[1].slice(1);
+            const offered =
+              cap === 'sasl'
+                ? !!this.options.saslPayload
+                : cap === 'account-tag' && !!this.options.accountTag;
+            capPending = true;
+            send(`:irc.test CAP * ${offered ? 'ACK' : 'NAK'} :${cap}`);
+            break;
+          }
+          case 'AUTHENTICATE':
+            if (args[0] === 'PLAIN') send('AUTHENTICATE +');
+            else if (args[0] === this.options.saslPayload) {
+              send(':irc.test 903 * :SASL authentication successful');
+            } else {
+              send(':irc.test 904 * :SASL authentication failed');
+            }
+            break;
+          case 'NICK':
+            if (this.options.takenNicks?.includes(args[0])) {
+              send(`:irc.test 433 * ${args[0]} :Nickname is already in use`);
+            } else {
+              nick = args[0];
+            }
+            break;
+          case 'JOIN':
+            send(`:${nick}!u@h JOIN ${args[0]}`);
+            break;
+        }
+        if (line === 'CAP END') capPending = false;
+        if (cmd === 'USER') userSeen = true;
+        // Welcome once NICK/USER are in and any CAP negotiation finished
+        if (
+          !welcomed &&
+          !this.options.silent &&
+          nick &&
+          userSeen &&
+          !capPending
+        ) {
+          welcomed = true;
+          send(`:irc.test 001 ${nick} :Welcome`);
+        }
+      }
+    });
+  }
+}
+
+const GROUP: RegisteredGroup = {
+  name: 'Dev',
+  folder: 'irc_dev',
+  trigger: '@Andy',
+  added_at: '2024-01-01T00:00:00.000Z',
+};
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('IrcChannel', () => {
+  let ircd: FakeIrcd;
+  let opts: ChannelOpts;
+  let channel: IrcChannel;
+
+  async function makeChannel(
+    options: FakeIrcdOptions = {},
+    sasl?: { user: string; password: string },
+  ): Promise<void> {
+    ircd = new FakeIrcd(options);
+    const port = await ircd.start();
+    channel = new IrcChannel(opts, {
+      host: '127.0.0.1',
+      port,
+      tls: false,
+      nick: 'Andy',
+      network: 'test',
+      channels: ['#dev'],
+      saslUser: sasl?.user,
+      saslPassword: sasl?.password,
+      reconnectBaseMs: 10,
+      reconnectMaxMs: 50,
+      registrationTimeoutMs: 200,
+    });
+  }
+
+  beforeEach(() => {
+    opts = {
+      onMessage: vi.fn(),
+      onChatMetadata: vi.fn(),
+      registeredGroups: () => ({ 'irc:#dev@test': GROUP }),
+    };
+  });
+
+  afterEach(async () => {
+    await channel?.disconnect();
+    await ircd?.stop();
+  });
+
+  it('maps channels and nicks to network-scoped JIDs', async () => {
+    await makeChannel();
+    expect(channel.jidFor('#dev')).toBe('irc:#dev@test');
+    expect(channel.ownsJid('irc:#dev@test')).toBe(true);
+    expect(channel.ownsJid('irc:#dev@other')).toBe(false);
+    expect(channel.ownsJid('mx:!room:test')).toBe(false);
+  });
+
+  it('registers, joins configured channels and reports them as groups', async () => {
+    await makeChannel();
+    await channel.connect();
+
+    expect(channel.isConnected()).toBe(true);
+    await waitFor(() => vi.mocked(opts.onChatMetadata).mock.calls.length > 0);
+    expect(ircd.received).toContain('JOIN #dev');
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      'irc:#dev@test',
+      expect.any(String),
+      '#dev',
+      'irc',
+      true,
+    );
+  });
+
+  it('falls back to an alternate nick on collision', async () => {
+    await makeChannel({ takenNicks: ['Andy', 'Andy_'] });
+    await channel.connect();
+
+    expect(channel.nick).toBe('Andy__');
+    expect(ircd.received).toEqual(
+      expect.arrayContaining(['NICK Andy', 'NICK Andy_', 'NICK Andy__']),
+    );
+  });
+
+  it('authenticates with SASL PLAIN', async () => {
+    const payload = Buffer.from('andy\0andy\0hunter2').toString('base64');
+    await makeChannel(
+      { saslPayload: payload },
+      { user: 'andy', password: 'hunter2' },
+    );
+    await channel.connect();
+
+    expect(ircd.received).toEqual(
+      expect.arrayContaining([
+        'CAP REQ :sasl',
+        'AUTHENTICATE PLAIN',
+        `AUTHENTICATE ${payload}`,
+        'CAP END',
+      ]),
+    );
+  });
+
+  it('delivers channel messages for registered groups and answers PING', async () => {
+    await makeChannel();
+    await channel.connect();
+
+    ircd.broadcast('PING :irc.test');
+    ircd.broadcast(':alice!a@host PRIVMSG #dev :@Andy hello');
+    ircd.broadcast(':bob!b@host PRIVMSG Andy :psst');
+    ircd.broadcast(':alice!a@host PRIVMSG #dev :\x01ACTION waves\x01');
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length >= 2);
+
+    expect(ircd.received).toContain('PONG :irc.test');
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      'irc:#dev@test',
+      expect.objectContaining({
+        chat_jid: 'irc:#dev@test',
+        sender: 'nick:alice@test',
+        sender_name: 'alice',
+        content: '@Andy hello',
+        is_from_me: false,
+      }),
+    );
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      'irc:#dev@test',
+      expect.objectContaining({ content: '* alice waves' }),
+    );
+    // Private messages are direct chats; unregistered, so metadata only
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      'irc:bob@test',
+      expect.any(String),
+      'bob',
+      'irc',
+      false,
+    );
+    expect(opts.onMessage).not.toHaveBeenCalledWith(
+      'irc:bob@test',
+      expect.anything(),
+    );
+  });
+
+  it('identifies senders by account when the server tags messages', async () => {
+    await makeChannel({ accountTag: true });
+    await channel.connect();
+
+    ircd.broadcast('@account=alice :ali!a@host PRIVMSG #dev :@Andy hi');
+    ircd.broadcast(':guest!g@host PRIVMSG #dev :@Andy hello');
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length >= 2);
+
+    expect(ircd.received).toContain('CAP REQ :account-tag');
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      'irc:#dev@test',
+      expect.objectContaining({
+        sender: 'account:alice@test',
+        sender_name: 'ali',
+      }),
+    );
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      'irc:#dev@test',
+      expect.objectContaining({
+        sender: 'nick:guest@test',
+        sender_name: 'guest',
+      }),
+    );
+  });
+
+  it('splits long replies into line-safe PRIVMSGs', async () => {
+    await makeChannel();
+    await channel.connect();
+
+    const long = 'word '.repeat(200).trim();
+    await channel.sendMessage('irc:#dev@test', `first line\n\n${long}`);
+
+    const sent = () =>
+      ircd.received.filter((l) => l.startsWith('PRIVMSG #dev :'));
+    const rejoined = () =>
+      sent()
+        .slice(1)
+        .map((l) => l.slice('PRIVMSG #dev :'.length))
+        .join(' ');
+    await waitFor(() => rejoined() === long);
+
+    expect(rejoined()).toBe(long);
+    expect(sent()[0]).toBe('PRIVMSG #dev :first line');
+    expect(sent().length).toBeGreaterThan(2);
+    for (const line of sent()) {
+      expect(Buffer.byteLength(line) + 100 + 2).toBeLessThanOrEqual(512);
+    }
+  });
+
+  it('reconnects with backoff after the server drops the connection', async () => {
+    await makeChannel();
+    await channel.connect();
+
+    ircd.dropClients();
+    await waitFor(() => ircd.connections >= 2 && channel.isConnected());
+
+    expect(ircd.connections).toBe(2);
+    expect(channel.isConnected()).toBe(true);
+  });
+
+  it('gives up when the server never completes registration', async () => {
+    await makeChannel({ silent: true });
+    await expect(channel.connect()).rejects.toThrow(/registration timed out/);
+    expect(channel.isConnected()).toBe(false);
+    expect(ircd.connections).toBe(1);
+  });
+
+  it('throws when sending while disconnected', async () => {
+    await makeChannel();
+    await expect(channel.sendMessage('irc:#dev@test', 'hello')).rejects.toThrow(
+      /not connected/,
+    );
+  });
+});
+
+describe('parseIrcLine', () => {
+  it('parses prefix, command, middle and trailing params', () => {
+    expect(
+      parseIrcLine('@time=x :nick!u@h PRIVMSG #chan :hello  world'),
+    ).toEqual({
+      tags: { time: 'x' },
+      prefix: 'nick!u@h',
+      command: 'PRIVMSG',
+      params: ['#chan', 'hello  world'],
+    });
+    expect(parseIrcLine('PING :server')).toEqual({
+      tags: {},
+      prefix: '',
+      command: 'PING',
+      params: ['server'],
+    });
+  });
+
+  it('unescapes tag values', () => {
+    expect(
+      parseIrcLine('@account=a\\sb;+draft/x=1\\:2;flag :n PING').tags,
+    ).toEqual({ account: 'a b', '+draft/x': '1;2', flag: '' });
+  });
+});
+
+describe('splitIrcMessage', () => {
+  it('never splits a multi-byte character', () => {
+    const chunks = splitIrcMessage('é'.repeat(10), 5);
+    expect(chunks).toEqual(['éé', 'éé', 'éé', 'éé', 'éé']);
+  });
+
+  it('drops blank lines', () => {
+    expect(splitIrcMessage('a\n\n  \nb', 100)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,537 @@
+/**
+ * IRC channel.
+ *
+ * Connects to one IRC network and maps chats to JIDs:
+ *   irc:#channel@network   channels (groups)
+ *   irc:nick@network       private messages
+ *
+ * Supports SASL PLAIN, nick-collision fallback, line-length-safe message
+ * splitting and reconnect with jittered exponential backoff.
+ *
+ * Configure in .env:
+ *   IRC_SERVER        host (required)
+ *   IRC_PORT          default 6697 (TLS) / 6667 (plain)
+ *   IRC_TLS           "false" for plaintext
+ *   IRC_NICK          default ASSISTANT_NAME
+ *   IRC_CHANNELS      comma-separated channels to join, e.g. "#dev,#ops"
+ *   IRC_NETWORK       name used in JIDs (default: IRC_SERVER)
+ *   IRC_PASSWORD      server password (PASS)
+ *   IRC_SASL_USER / IRC_SASL_PASSWORD   SASL PLAIN credentials
+ *
+ * A named instance (irc:work) reads the same keys with _WORK appended
+ * and uses JIDs of the form `irc.work:#channel@network`.
+ */
+import net from 'net';
+import tls from 'tls';
+
+import { ASSISTANT_NAME } from '../config.js';
+import { readChannelEnv } from '../env.js';
+import { logger } from '../logger.js';
+import { Channel, ChannelCapabilities } from '../types.js';
+import {
+  channelInstanceName,
+  ChannelOpts,
+  instanceJidPrefix,
+  registerChannel,
+} from './registry.js';
+
+const JID_PREFIX = 'irc:';
+// RFC 1459: 512 bytes per line including CRLF
+const MAX_LINE_BYTES = 512;
+// Servers prepend ":nick!user@host " when relaying; reserve room for it
+const PREFIX_RESERVE_BYTES = 100;
+const LINE_DELAY_MS = 300;
+const MAX_NICK_ATTEMPTS = 10;
+
+export interface IrcChannelConfig {
+  host: string;
+  port: number;
+  tls: boolean;
+  nick: string;
+  network: string;
+  channels: string[];
+  password?: string;
+  saslUser?: string;
+  saslPassword?: string;
+  // Reconnect backoff bounds (ms)
+  reconnectBaseMs?: number;
+  reconnectMaxMs?: number;
+  // How long to wait for RPL_WELCOME after connecting (ms)
+  registrationTimeoutMs?: number;
+  // For tests against self-signed local servers
+  rejectUnauthorized?: boolean;
+  instance?: string; // Named instance (`work` for irc:work)
+}
+
+interface IrcLine {
+  tags: Record<string, string>; // IRCv3 message tags, unescaped
+  prefix: string;
+  command: string;
+  params: string[];
+}
+
+const TAG_ESCAPES: Record<string, string> = {
+  ':': ';',
+  s: ' ',
+  r: '\r',
+  n: '\n',
+};
+
+export function parseIrcLine(raw: string): IrcLine {
+  let line = raw;
+  const tags: Record<string, string> = {};
+  if (line.startsWith('@')) {
+    const space = line.indexOf(' ');
+    for (const tag of line.slice(1, space).split(';')) {
+      const eq = tag.indexOf('=');
+      const key = eq === -1 ? tag : tag.slice(0, eq);
+      const value = eq === -1 ? '' : tag.slice(eq + 1);
+      tags[key] = value.replace(/\\(.?)/g, (_, c) => TAG_ESCAPES[c] ?? c);
+    }
+    line = line.slice(space + 1);
+  }
+  let prefix = '';
+  if (line.startsWith(':')) {
+    const space = line.indexOf(' ');
+    prefix = line.slice(1, space);
+    line = line.slice(space + 1);
+  }
+  const params: string[] = [];
+  while (line.length > 0) {
+    if (line.startsWith(':')) {
+      params.push(line.slice(1));
+      break;
+    }
+    const space = line.indexOf(' ');
+    if (space === -1) {
+      params.push(line);
+      break;
+    }
+    params.push(line.slice(0, space));
+    line = line.slice(space + 1).replace(/^ +/, '');
+  }
+  const command = (params.shift() || '').toUpperCase();
+  return { tags, prefix, command, params };
+}
+
+/**
+ * Split text into chunks that each fit in maxBytes of UTF-8, preferring
+ * line breaks, then whitespace, and never splitting a code point.
+ */
+export function splitIrcMessage(text: string, maxBytes: number): string[] {
+  const chunks: string[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine;
+    if (!line.trim()) continue;
+    while (Buffer.byteLength(line) > maxBytes) {
+      // Largest prefix (in code points) that fits
+      let end = 0;
+      let bytes = 0;
+      for (const ch of line) {
+        const len = Buffer.byteLength(ch);
+        if (bytes + len > maxBytes) break;
+        bytes += len;
+        end += ch.length;
+      }
+      const space = line.lastIndexOf(' ', end);
+      const cut = space > end / 2 ? space : end;
+      chunks.push(line.slice(0, cut).trimEnd());
+      line = line.slice(cut).trimStart();
+    }
+    if (line) chunks.push(line);
+  }
+  return chunks;
+}
+
+export class IrcChannel implements Channel {
+  name: string;
+  // No router-level limit: sendMessage splits into protocol-safe lines
+  capabilities: ChannelCapabilities = {
+    markup: 'plain',
+    threads: false,
+    reactions: false,
+    attachments: false,
+    edits: false,
+  };
+
+  private socket: net.Socket | null = null;
+  private connected = false;
+  private stopping = false;
+  private currentNick: string;
+  private nickAttempts = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private registrationTimer: ReturnType<typeof setTimeout> | null = null;
+  private buffer = '';
+  private messageSeq = 0;
+  private accountTag = false; // Server tags messages with the sender's account
+  private firstConnect: {
+    resolve: () => void;
+    reject: (err: Error) => void;
+  } | null = null;
+  private readonly jidPrefix: string;
+
+  constructor(
+    private readonly opts: ChannelOpts,
+    private readonly config: IrcChannelConfig,
+  ) {
+    this.name = channelInstanceName('irc', config.instance);
+    this.jidPrefix = instanceJidPrefix(JID_PREFIX, config.instance);
+    this.currentNick = config.nick;
+  }
+
+  jidFor(target: string): string {
+    return `${this.jidPrefix}${target}@${this.config.network}`;
+  }
+
+  get nick(): string {
+    return this.currentNick;
+  }
+
+  async connect(): Promise<void> {
+    this.stopping = false;
+    await new Promise<void>((resolve, reject) => {
+      this.firstConnect = { resolve, reject };
+      this.open();
+    });
+  }
+
+  async sendMessage(jid: string, text: string): Promise<void> {
+    const target = this.targetFromJid(jid);
+    if (!this.socket || !this.connected) {
+      throw new Error(`IRC not connected, cannot send to ${jid}`);
+    }
+    const overhead =
+      Buffer.byteLength(`PRIVMSG ${target} :\r\n`) + PREFIX_RESERVE_BYTES;
+    const chunks = splitIrcMessage(text, MAX_LINE_BYTES - overhead);
+    for (let i = 0; i < chunks.length; i++) {
+      if (i > 0) await new Promise((r) => setTimeout(r, LINE_DELAY_MS));
+      this.send(`PRIVMSG ${target} :${chunks[i]}`);
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  ownsJid(jid: string): boolean {
+    return (
+      jid.startsWith(this.jidPrefix) && jid.endsWith(`@${this.config.network}`)
+    );
+  }
+
+  // Services accounts are authenticated; anyone can take a nick
+  isVerifiedSender(sender: string): boolean {
+    return sender.startsWith('account:');
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopping = true;
+    this.connected = false;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.clearRegistrationTimer();
+    const socket = this.socket;
+    this.socket = null;
+    if (socket && !socket.destroyed) {
+      socket.write('QUIT :Bye\r\n');
+      socket.end();
+      socket.destroy();
+    }
+  }
+
+  private targetFromJid(jid: string): string {
+    return jid.slice(this.jidPrefix.length, jid.lastIndexOf('@'));
+  }
+
+  private open(): void {
+    const { host, port } = this.config;
+    const socket = this.config.tls
+      ? tls.connect({
+          host,
+          port,
+          servername: host,
+          rejectUnauthorized: this.config.rejectUnauthorized ?? true,
+        })
+      : net.connect({ host, port });
+    this.socket = socket;
+    this.buffer = '';
+    this.currentNick = this.config.nick;
+    this.nickAttempts = 0;
+
+    socket.setEncoding('utf-8');
+    socket.on(this.config.tls ? 'secureConnect' : 'connect', () =>
+      this.register(),
+    );
+    socket.on('data', (data: string) => this.handleData(data));
+    socket.on('error', (err) => {
+      logger.warn({ err, host }, 'IRC socket error');
+    });
+    socket.on('close', () => this.handleClose(socket));
+
+    // A server that accepts the connection but never welcomes us would
+    // otherwise stall connect() forever
+    this.clearRegistrationTimer();
+    this.registrationTimer = setTimeout(() => {
+      this.registrationTimer = null;
+      if (socket !== this.socket) return;
+      logger.warn({ host }, 'IRC registration timed out');
+      if (this.firstConnect) {
+        this.firstConnect.reject(new Error('IRC registration timed out'));
+        this.firstConnect = null;
+        this.socket = null; // First connect fails outright, no reconnect
+      }
+      socket.destroy();
+    }, this.config.registrationTimeoutMs ?? 30000);
+  }
+
+  private clearRegistrationTimer(): void {
+    if (this.registrationTimer) clearTimeout(this.registrationTimer);
+    this.registrationTimer = null;
+  }
+
+  private get wantsSasl(): boolean {
+    return !!(this.config.saslUser && this.config.saslPassword);
+  }
+
+  private register(): void {
+    // Requested one at a time: a server NAKs a request as a whole
+    this.accountTag = false;
+    this.send('CAP REQ :account-tag');
+    if (this.wantsSasl) this.send('CAP REQ :sasl');
+    if (this.config.password) this.send(`PASS ${this.config.password}`);
+    this.send(`NICK ${this.currentNick}`);
+    this.send(`USER ${this.config.nick} 0 * :${ASSISTANT_NAME}`);
+  }
+
+  private handleClose(socket: net.Socket): void {
+    if (socket !== this.socket) return;
+    this.connected = false;
+    this.socket = null;
+    this.clearRegistrationTimer();
+
+    if (this.firstConnect) {
+      this.firstConnect.reject(new Error('IRC connection closed'));
+      this.firstConnect = null;
+      return;
+    }
+    if (this.stopping) return;
+
+    const base = this.config.reconnectBaseMs ?? 1000;
+    const max = this.config.reconnectMaxMs ?? 300000;
+    const delay = Math.min(base * 2 ** this.reconnectAttempts, max);
+    const jittered = Math.round(delay / 2 + (Math.random() * delay) / 2);
+    this.reconnectAttempts++;
+    logger.warn(
+      { attempt: this.reconnectAttempts, delayMs: jittered },
+      'IRC disconnected, reconnecting',
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopping) this.open();
+    }, jittered);
+  }
+
+  private handleData(data: string): void {
+    this.buffer += data;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line) this.handleLine(parseIrcLine(line));
+    }
+  }
+
+  private handleLine(msg: IrcLine): void {
+    switch (msg.command) {
+      case 'PING':
+        this.send(`PONG :${msg.params[0] ?? ''}`);
+        break;
+
+      case 'CAP': {
+        const sub = msg.params[1];
+        const caps = (msg.params[2] ?? '').trim();
+        if (sub !== 'ACK' && sub !== 'NAK') break;
+        if (caps === 'account-tag') {
+          this.accountTag = sub === 'ACK';
+          // Without SASL to follow, negotiation ends here
+          if (!this.wantsSasl) this.send('CAP END');
+        } else if (caps === 'sasl') {
+          if (sub === 'ACK') {
+            this.send('AUTHENTICATE PLAIN');
+          } else {
+            logger.warn('IRC server refused SASL capability');
+            this.send('CAP END');
+          }
+        }
+        break;
+      }
+
+      case 'AUTHENTICATE':
+        if (msg.params[0] === '+') {
+          const payload = Buffer.from(
+            `${this.config.saslUser}\0${this.config.saslUser}\0${this.config.saslPassword}`,
+          ).toString('base64');
+          this.send(`AUTHENTICATE ${payload}`);
+        }
+        break;
+
+      case '903': // RPL_SASLSUCCESS
+        this.send('CAP END');
+        break;
+
+      case '904': // ERR_SASLFAIL
+      case '905': // ERR_SASLTOOLONG
+        logger.error({ code: msg.command }, 'IRC SASL authentication failed');
+        this.send('CAP END');
+        break;
+
+      case '001': // RPL_WELCOME
+        this.currentNick = msg.params[0] || this.currentNick;
+        this.connected = true;
+        this.reconnectAttempts = 0;
+        this.clearRegistrationTimer();
+        for (const channel of this.config.channels) {
+          this.send(`JOIN ${channel}`);
+        }
+        logger.info(
+          { network: this.config.network, nick: this.currentNick },
+          'IRC connected',
+        );
+        this.firstConnect?.resolve();
+        this.firstConnect = null;
+        break;
+
+      case '432': // ERR_ERRONEUSNICKNAME
+      case '433': // ERR_NICKNAMEINUSE
+      case '436': // ERR_NICKCOLLISION
+        this.nickAttempts++;
+        if (this.nickAttempts > MAX_NICK_ATTEMPTS) {
+          logger.error({ nick: this.config.nick }, 'IRC could not get a nick');
+          this.socket?.destroy();
+          return;
+        }
+        this.currentNick = `${this.config.nick}${'_'.repeat(this.nickAttempts)}`;
+        this.send(`NICK ${this.currentNick}`);
+        break;
+
+      case 'NICK':
+        if (nickOf(msg.prefix) === this.currentNick && msg.params[0]) {
+          this.currentNick = msg.params[0];
+        }
+        break;
+
+      case 'JOIN':
+        if (nickOf(msg.prefix) === this.currentNick && msg.params[0]) {
+          this.opts.onChatMetadata(
+            this.jidFor(msg.params[0]),
+            new Date().toISOString(),
+            msg.params[0],
+            this.name,
+            true,
+          );
+        }
+        break;
+
+      case 'PRIVMSG':
+        this.handlePrivmsg(msg);
+        break;
+    }
+  }
+
+  private handlePrivmsg(msg: IrcLine): void {
+    const [target, rawText] = msg.params;
+    const nick = nickOf(msg.prefix);
+    if (!target || !rawText || !nick) return;
+
+    let text = rawText;
+    if (text.startsWith('\x01')) {
+      // CTCP: only /me actions carry chat content
+      const action = text.match(/^\x01ACTION (.*?)\x01?$/);
+      if (!action) return;
+      text = `* ${nick} ${action[1]}`;
+    }
+
+    const isGroup = /^[#&+!]/.test(target);
+    const jid = this.jidFor(isGroup ? target : nick);
+    const timestamp = new Date().toISOString();
+    this.opts.onChatMetadata(
+      jid,
+      timestamp,
+      isGroup ? target : nick,
+      this.name,
+      isGroup,
+    );
+
+    // Only deliver full messages for registered groups
+    if (!this.opts.registeredGroups()[jid]) return;
+
+    this.opts.onMessage(jid, {
+      id: `irc-${Date.now()}-${++this.messageSeq}`,
+      chat_jid: jid,
+      sender: this.senderId(msg, nick),
+      sender_name: nick,
+      content: text,
+      timestamp,
+      is_from_me: false,
+    });
+  }
+
+  /**
+   * A network-scoped sender ID. The services account, when the server
+   * reports one, is authenticated and stays with the person across nick
+   * changes; a bare nick can be taken by anyone, so the two never share a
+   * namespace.
+   */
+  private senderId(msg: IrcLine, nick: string): string {
+    const account = this.accountTag ? msg.tags.account : undefined;
+    return account
+      ? `account:${account}@${this.config.network}`
+      : `nick:${nick}@${this.config.network}`;
+  }
+
+  private send(line: string): void {
+    if (!this.socket || this.socket.destroyed) return;
+    this.socket.write(`${line.replace(/[\r\n]/g, ' ')}\r\n`);
+  }
+}
+
+function nickOf(prefix: string): string {
+  const bang = prefix.indexOf('!');
+  return bang === -1 ? prefix : prefix.slice(0, bang);
+}
+
+registerChannel('irc', (opts: ChannelOpts, instance?: string) => {
+  const env = readChannelEnv(
+    [
+      'IRC_SERVER',
+      'IRC_PORT',
+      'IRC_TLS',
+      'IRC_NICK',
+      'IRC_CHANNELS',
+      'IRC_NETWORK',
+      'IRC_PASSWORD',
+      'IRC_SASL_USER',
+      'IRC_SASL_PASSWORD',
+    ],
+    instance,
+  );
+
+  const host = env.IRC_SERVER;
+  if (!host) return null;
+  const useTls = env.IRC_TLS !== 'false';
+  return new IrcChannel(opts, {
+    host,
+    port: parseInt(env.IRC_PORT || (useTls ? '6697' : '6667'), 10),
+    tls: useTls,
+    nick: env.IRC_NICK || ASSISTANT_NAME,
+    network: env.IRC_NETWORK || host,
+    channels: (env.IRC_CHANNELS || '')
+      .split(',')
+      .map((c) => c.trim())
+      .filter(Boolean),
+    password: env.IRC_PASSWORD,
+    saslUser: env.IRC_SASL_USER,
+    saslPassword: env.IRC_SASL_PASSWORD,
+    instance,
+  });
+});
@@ -0,0 +1,575 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { RegisteredGroup } from '../types.js';
+import { MatrixChannel, matrixJid } from './matrix.js';
+import { ChannelOpts } from './registry.js';
+
+vi.mock('../db.js', () => ({
+  getLastGroupSync: vi.fn(() => null),
+  setLastGroupSync: vi.fn(),
+}));
+
+const BOT = '@andy:example.org';
+const ROOM = '!team:example.org';
+const DM = '!dm:example.org';
+
+// Recorded /sync responses (trimmed to the fields the channel reads)
+const INITIAL_SYNC = {
+  next_batch: 's1',
+  rooms: {
+    join: {
+      [ROOM]: {
+        summary: { 'm.joined_member_count': 5 },
+        state: {
+          events: [
+            { type: 'm.room.name', state_key: '', content: { name: 'Team' } },
+            {
+              type: 'm.room.member',
+              state_key: '@alice:example.org',
+              content: { membership: 'join', displayname: 'Alice' },
+            },
+          ],
+        },
+        timeline: {
+          events: [
+            {
+              type: 'm.room.message',
+              event_id: '$old',
+              sender: '@alice:example.org',
+              origin_server_ts: 1704067200000,
+              content: { msgtype: 'm.text', body: 'old history' },
+            },
+          ],
+        },
+      },
+    },
+  },
+};
+
+const MESSAGE_SYNC = {
+  next_batch: 's2',
+  rooms: {
+    join: {
+      [ROOM]: {
+        timeline: {
+          events: [
+            {
+              type: 'm.room.message',
+              event_id: '$new',
+              sender: '@alice:example.org',
+              origin_server_ts: 1704067260000,
+              content: { msgtype: 'm.text', body: '@Andy hello' },
+            },
+            {
+              type: 'm.room.message',
+              event_id: '$mine',
+              sender: BOT,
+              origin_server_ts: 1704067270000,
+              content: { msgtype: 'm.text', body: 'my own reply' },
+            },
+          ],
+        },
+      },
+      [DM]: {
+        summary: { 'm.joined_member_count': 2 },
+        timeline: {
+          events: [
+            {
+              type: 'm.room.message',
+              event_id: '$dm',
+              sender: '@bob:example.org',
+              origin_server_ts: 1704067280000,
+              content: { msgtype: 'm.text', body: 'unregistered dm' },
+            },
+          ],
+        },
+      },
+    },
+    invite: { '!invite:example.org': {} },
+  },
+};
+
+interface Recorded {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+/** A homeserver stand-in that replays recorded sync batches. */
+class FakeHomeserver {
+  server: Server;
+  requests: Recorded[] = [];
+  initialSyncs = 0;
+  private batches: unknown[] = [];
+  private held: ServerResponse[] = [];
+
+  constructor() {
+    this.server = createServer((req, res) => this.handle(req, res));
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((r) => this.server.listen(0, '127.0.0.1', r));
+    const { port } = this.server.address() as { port: number };
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    for (const res of this.held) res.end(JSON.stringify({ next_batch: 'x' }));
+    this.server.closeAllConnections();
+    await new Promise<void>((r) => this.server.close(() => r()));
+  }
+
+  pushSync(batch: unknown): void {
+    const res = this.held.shift();
+    if (res) json(res, 200, batch);
+    else this.batches.push(batch);
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (c) => chunks.push(c));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString();
+      const url = new URL(req.url!, 'http://x');
+      const path = url.pathname.replace('/_matrix/client/v3', '');
+      this.requests.push({
+        method: req.method!,
+        path: decodeURIComponent(path),
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+
+      if (req.headers.authorization !== 'Bearer tok') {
+        return json(res, 401, { errcode: 'M_UNKNOWN_TOKEN' });
+      }
+      if (path === '/account/whoami') return json(res, 200, { user_id: BOT });
+      if (path === '/sync') {
+        if (!url.searchParams.get('since')) {
+          this.initialSyncs++;
+          return json(res, 200, INITIAL_SYNC);
+        }
+        const batch = this.batches.shift();
+        if (batch) return json(res, 200, batch);
+        this.held.push(res);
+        return;
+      }
+      if (path === '/joined_rooms') {
+        return json(res, 200, { joined_rooms: [ROOM, DM] });
+      }
+      if (path.endsWith('/state/m.room.name')) {
+        return decodeURIComponent(path).includes(ROOM)
+          ? json(res, 200, { name: 'Team' })
+          : json(res, 404, { errcode: 'M_NOT_FOUND' });
+      }
+      if (path.endsWith('/joined_members')) {
+        const joined = decodeURIComponent(path).includes(ROOM)
+          ? { [BOT]: {}, a: {}, b: {} }
+          : { [BOT]: {}, b: {} };
+        return json(res, 200, { joined });
+      }
+      if (req.method === 'PUT' || req.method === 'POST') {
+        return json(res, 200, { event_id: '$sent' });
+      }
+      json(res, 404, { errcode: 'M_UNRECOGNIZED' });
+    });
+  }
+}
+
+function json(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const GROUP: RegisteredGroup = {
+  name: 'Team',
+  folder: 'matrix_team',
+  trigger: '@Andy',
+  added_at: '2024-01-01T00:00:00.000Z',
+};
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('MatrixChannel', () => {
+  let hs: FakeHomeserver;
+  let opts: ChannelOpts;
+  let channel: MatrixChannel;
+
+  beforeEach(async () => {
+    hs = new FakeHomeserver();
+    const homeserver = await hs.start();
+    opts = {
+      onMessage: vi.fn(),
+      onChatMetadata: vi.fn(),
+      registeredGroups: () => ({ [matrixJid(ROOM)]: GROUP }),
+    };
+    channel = new MatrixChannel(opts, {
+      homeserver,
+      accessToken: 'tok',
+      autoJoin: true,
+    });
+  });
+
+  afterEach(async () => {
+    await channel.disconnect();
+    await hs.stop();
+  });
+
+  it('maps room IDs to mx: JIDs', () => {
+    expect(matrixJid(ROOM)).toBe('mx:!team:example.org');
+    expect(channel.ownsJid('mx:!team:example.org')).toBe(true);
+    expect(channel.ownsJid('tg:123')).toBe(false);
+  });
+
+  it('does not deliver history from the initial sync', async () => {
+    await channel.connect();
+    expect(channel.isConnected()).toBe(true);
+    expect(opts.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('resumes from its sync cursor when reconnected', async () => {
+    await channel.connect();
+    await channel.disconnect();
+    await channel.connect();
+
+    expect(channel.isConnected()).toBe(true);
+    // A fresh initial sync would skip whatever arrived while it was down
+    expect(hs.initialSyncs).toBe(1);
+  });
+
+  it('gives up a connect that a disconnect overtook', async () => {
+    const connecting = channel.connect();
+    await channel.disconnect();
+
+    await expect(connecting).rejects.toThrow(/abandoned/);
+    expect(channel.isConnected()).toBe(false);
+  });
+
+  it('delivers new messages for registered rooms with display names', async () => {
+    await channel.connect();
+    hs.pushSync(MESSAGE_SYNC);
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length >= 2);
+
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      'mx:!team:example.org',
+      expect.objectContaining({
+        id: '$new',
+        sender: '@alice:example.org',
+        sender_name: 'Alice',
+        content: '@Andy hello',
+        timestamp: '2024-01-01T00:01:00.000Z',
+        is_from_me: false,
+      }),
+    );
+    // Our own echo is stored as a bot message, never as user input
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      'mx:!team:example.org',
+      expect.objectContaining({ id: '$mine', is_bot_message: true }),
+    );
+    // Unregistered rooms only get metadata
+    expect(opts.onMessage).not.toHaveBeenCalledWith(
+      'mx:!dm:example.org',
+      expect.anything(),
+    );
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      'mx:!dm:example.org',
+      expect.any(String),
+      undefined,
+      'matrix',
+      false,
+    );
+  });
+
+  it('joins invited rooms when auto-join is enabled', async () => {
+    await channel.connect();
+    hs.pushSync(MESSAGE_SYNC);
+    await waitFor(() =>
+      hs.requests.some((r) => r.path === '/rooms/!invite:example.org/join'),
+    );
+    expect(
+      hs.requests.some((r) => r.path === '/rooms/!invite:example.org/join'),
+    ).toBe(true);
+  });
+
+  it('sends m.room.message with a formatted body', async () => {
+    await channel.connect();
+    await channel.sendMessage(matrixJid(ROOM), 'Hi **there**');
+
+    const sent = hs.requests.find((r) =>
+      r.path.startsWith(`/rooms/${ROOM}/send/m.room.message/`),
+    );
+    expect(sent?.method).toBe('PUT');
+    expect(sent?.body).toEqual({
+      msgtype: 'm.text',
+      body: 'Hi **there**',
+      format: 'org.matrix.custom.html',
+      formatted_body: 'Hi <strong>there</strong>',
+    });
+  });
+
+  it('reads reply and thread relations, dropping the quoted fallback', async () => {
+    await channel.connect();
+    hs.pushSync({
+      next_batch: 's3',
+      rooms: {
+        join: {
+          [ROOM]: {
+            timeline: {
+              events: [
+                {
+                  type: 'm.room.message',
+                  event_id: '$reply',
+                  sender: '@alice:example.org',
+                  origin_server_ts: 1704067300000,
+                  content: {
+                    msgtype: 'm.text',
+                    body: '> <@bob:example.org> lunch?\n\n@Andy where?',
+                    'm.relates_to': { 'm.in_reply_to': { event_id: '$q' } },
+                  },
+                },
+                {
+                  type: 'm.room.message',
+                  event_id: '$inthread',
+                  sender: '@alice:example.org',
+                  origin_server_ts: 1704067400000,
+                  content: {
+                    msgtype: 'm.text',
+                    body: 'more detail',
+                    'm.relates_to': {
+                      rel_type: 'm.thread',
+                      event_id: '$root',
+                      is_falling_back: true,
+                      'm.in_reply_to': { event_id: '$prev' },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+    });
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length >= 2);
+
+    const [reply, threaded] = vi
+      .mocked(opts.onMessage)
+      .mock.calls.map((c) => c[1]);
+    expect(reply).toMatchObject({
+      content: '@Andy where?',
+      reply_to_id: '$q',
+    });
+    expect(reply.thread_id).toBeUndefined();
+    expect(threaded).toMatchObject({
+      content: 'more detail',
+      thread_id: '$root',
+    });
+    expect(threaded.reply_to_id).toBeUndefined();
+  });
+
+  it('reports edits and redactions instead of new messages', async () => {
+    opts.onMessageEdited = vi.fn();
+    opts.onMessageDeleted = vi.fn();
+    await channel.connect();
+    hs.pushSync({
+      next_batch: 's3',
+      rooms: {
+        join: {
+          [ROOM]: {
+            timeline: {
+              events: [
+                {
+                  type: 'm.room.message',
+                  event_id: '$edit',
+                  sender: '@alice:example.org',
+                  origin_server_ts: 1704067300000,
+                  content: {
+                    msgtype: 'm.text',
+                    body: '* @Andy lunch at 1?',
+                    'm.new_content': {
+                      msgtype: 'm.text',
+                      body: '@Andy lunch at 1?',
+                    },
+                    'm.relates_to': { rel_type: 'm.replace', event_id: '$new' },
+                  },
+                },
+                {
+                  type: 'm.room.redaction',
+                  event_id: '$redact',
+                  sender: '@alice:example.org',
+                  origin_server_ts: 1704067400000,
+                  redacts: '$old',
+                  content: {},
+                },
+              ],
+            },
+          },
+        },
+      },
+    });
+    await waitFor(
+      () => vi.mocked(opts.onMessageDeleted!).mock.calls.length > 0,
+    );
+
+    expect(opts.onMessageEdited).toHaveBeenCalledWith(
+      'mx:!team:example.org',
+      '$new',
+      '@alice:example.org',
+      '@Andy lunch at 1?',
+      '2024-01-01T00:01:40.000Z',
+    );
+    expect(opts.onMessageDeleted).toHaveBeenCalledWith(
+      'mx:!team:example.org',
+      '$old',
+      '2024-01-01T00:03:20.000Z',
+    );
+    expect(opts.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('reports reactions from others with the reaction event id', async () => {
+    opts.onReaction = vi.fn();
+    await channel.connect();
+    const reaction = (event_id: string, sender: string) => ({
+      type: 'm.reaction',
+      event_id,
+      sender,
+      origin_server_ts: 1704067300000,
+      content: {
+        'm.relates_to': {
+          rel_type: 'm.annotation',
+          event_id: '$answer',
+          key: '👍',
+        },
+      },
+    });
+    hs.pushSync({
+      next_batch: 's3',
+      rooms: {
+        join: {
+          [ROOM]: {
+            timeline: {
+              events: [
+                reaction('$mine', BOT),
+                reaction('$thumbs', '@alice:example.org'),
+              ],
+            },
+          },
+        },
+      },
+    });
+    await waitFor(() => vi.mocked(opts.onReaction!).mock.calls.length > 0);
+
+    expect(opts.onReaction).toHaveBeenCalledTimes(1);
+    expect(opts.onReaction).toHaveBeenCalledWith('mx:!team:example.org', {
+      message_id: '$answer',
+      sender: '@alice:example.org',
+      sender_name: 'Alice',
+      emoji: '👍',
+      timestamp: '2024-01-01T00:01:40.000Z',
+      reaction_id: '$thumbs',
+    });
+    expect(opts.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('replaces its own earlier reaction on a message', async () => {
+    await channel.connect();
+    await channel.react(matrixJid(ROOM), '$q', '👀');
+    await channel.react(matrixJid(ROOM), '$q', '✅');
+
+    const calls = hs.requests.filter(
+      (r) =>
+        r.path.includes('/send/m.reaction/') || r.path.includes('/redact/'),
+    );
+    expect(calls.map((r) => r.path.split('/').slice(3, 5).join('/'))).toEqual([
+      'send/m.reaction',
+      'redact/$sent',
+      'send/m.reaction',
+    ]);
+    expect(calls[2].body).toEqual({
+      'm.relates_to': { rel_type: 'm.annotation', event_id: '$q', key: '✅' },
+    });
+  });
+
+  it('sends replies and thread messages with m.relates_to', async () => {
+    await channel.connect();
+    await channel.sendMessage(matrixJid(ROOM), 'sure', { replyTo: '$q' });
+    await channel.sendMessage(matrixJid(ROOM), 'more', {
+      replyTo: '$inthread',
+      threadId: '$root',
+    });
+
+    const sent = hs.requests
+      .filter((r) => r.path.startsWith(`/rooms/${ROOM}/send/m.room.message/`))
+      .map((r) => (r.body as Record<string, unknown>)['m.relates_to']);
+    expect(sent).toEqual([
+      { 'm.in_reply_to': { event_id: '$q' } },
+      {
+        rel_type: 'm.thread',
+        event_id: '$root',
+        is_falling_back: false,
+        'm.in_reply_to': { event_id: '$inthread' },
+      },
+    ]);
+  });
+
+  it('returns the event id and edits with m.replace', async () => {
+    await channel.connect();
+    const id = await channel.sendMessage(matrixJid(ROOM), 'Working');
+    expect(id).toBe('$sent');
+    await channel.editMessage(matrixJid(ROOM), id, 'Working\n\n**Done**');
+
+    const edit = hs.requests.filter((r) =>
+      r.path.startsWith(`/rooms/${ROOM}/send/m.room.message/`),
+    )[1];
+    expect(edit.body).toMatchObject({
+      body: '* Working\n\n**Done**',
+      'm.new_content': {
+        msgtype: 'm.text',
+        body: 'Working\n\n**Done**',
+        formatted_body: expect.stringContaining('<strong>Done</strong>'),
+      },
+      'm.relates_to': { rel_type: 'm.replace', event_id: '$sent' },
+    });
+  });
+
+  it('sets typing state for the bot user', async () => {
+    await channel.connect();
+    await channel.setTyping(matrixJid(ROOM), true);
+
+    const typing = hs.requests.find(
+      (r) => r.path === `/rooms/${ROOM}/typing/${BOT}`,
+    );
+    expect(typing?.body).toEqual({ typing: true, timeout: 30000 });
+  });
+
+  it('syncGroups reports joined rooms with names and group flag', async () => {
+    await channel.connect();
+    vi.mocked(opts.onChatMetadata).mockClear();
+    await channel.syncGroups(true);
+
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      'mx:!team:example.org',
+      expect.any(String),
+      'Team',
+      'matrix',
+      true,
+    );
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      'mx:!dm:example.org',
+      expect.any(String),
+      undefined,
+      'matrix',
+      false,
+    );
+  });
+
+  it('fails to connect with a bad token', async () => {
+    const bad = new MatrixChannel(opts, {
+      homeserver: `http://127.0.0.1:${(hs.server.address() as { port: number }).port}`,
+      accessToken: 'wrong',
+    });
+    await expect(bad.connect()).rejects.toThrow(/401/);
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * Matrix channel via the client-server API.
+ *
+ * Long-polls /sync for new events and maps rooms to JIDs of the form
+ * `mx:!roomid:server`. Sends m.room.message events with an HTML
+ * formatted_body alongside the plain body.
+ *
+ * Configure in .env:
+ *   MATRIX_HOMESERVER    e.g. https://matrix.example.org
+ *   MATRIX_ACCESS_TOKEN  access token for the bot account
+ *   MATRIX_AUTO_JOIN     "true" to accept room invites automatically
+ *
+ * A named instance (matrix:work) reads the same keys with _WORK appended
+ * and uses JIDs of the form `mx.work:!roomid:server`.
+ */
+import { ASSISTANT_NAME } from '../config.js';
+import { getLastGroupSync, setLastGroupSync } from '../db.js';
+import { readChannelEnv } from '../env.js';
+import { renderMarkup } from '../formatters.js';
+import { logger } from '../logger.js';
+import { Channel, ChannelCapabilities, SendOptions } from '../types.js';
+import {
+  channelInstanceName,
+  ChannelOpts,
+  instanceJidPrefix,
+  registerChannel,
+} from './registry.js';
+
+const JID_PREFIX = 'mx:';
+const SYNC_TIMEOUT_MS = 30000;
+const TYPING_TIMEOUT_MS = 30000;
+const MAX_BACKOFF_MS = 60000;
+const GROUP_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface MatrixChannelConfig {
+  homeserver: string;
+  accessToken: string;
+  autoJoin?: boolean;
+  instance?: string; // Named instance (`work` for matrix:work)
+}
+
+interface MatrixEvent {
+  type: string;
+  event_id?: string;
+  sender?: string;
+  state_key?: string;
+  origin_server_ts?: number;
+  redacts?: string; // m.room.redaction before room version 11
+  content?: Record<string, unknown>;
+}
+
+interface JoinedRoomSync {
+  summary?: { 'm.joined_member_count'?: number };
+  state?: { events?: MatrixEvent[] };
+  timeline?: { events?: MatrixEvent[] };
+}
+
+interface SyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, JoinedRoomSync>;
+    invite?: Record<string, unknown>;
+  };
+}
+
+interface MatrixRelation {
+  rel_type?: string;
+  event_id?: string;
+  is_falling_back?: boolean;
+  key?: string; // m.annotation: the reaction emoji
+  'm.in_reply_to'?: { event_id?: string };
+}
+
+interface RoomInfo {
+  name?: string;
+  memberCount?: number;
+  displayNames: Map<string, string>;
+  lastActivity?: string;
+}
+
+export function matrixJid(roomId: string, instance?: string): string {
+  return `${instanceJidPrefix(JID_PREFIX, instance)}${roomId}`;
+}
+
+/** Drop the "> <@user> quoted text" block older clients prepend to replies. */
+function stripReplyFallback(body: string): string {
+  const lines = body.split('\n');
+  let i = 0;
+  while (i < lines.length && lines[i].startsWith('> ')) i++;
+  if (i === 0) return body;
+  return lines.slice(i).join('\n').replace(/^\n/, '') || body;
+}
+
+function displayName(info: RoomInfo, sender: string): string {
+  return (
+    info.displayNames.get(sender) || sender.replace(/^@/, '').split(':')[0]
+  );
+}
+
+function relationFor(
+  options: SendOptions | undefined,
+): MatrixRelation | undefined {
+  if (options?.threadId) {
+    return {
+      rel_type: 'm.thread',
+      event_id: options.threadId,
+      // Clients without thread support show it as a reply to this event
+      is_falling_back: !options.replyTo,
+      'm.in_reply_to': { event_id: options.replyTo ?? options.threadId },
+    };
+  }
+  if (options?.replyTo) {
+    return { 'm.in_reply_to': { event_id: options.replyTo } };
+  }
+  return undefined;
+}
+
+function messageContent(text: string): Record<string, unknown> {
+  return {
+    msgtype: 'm.text',
+    body: text,
+    format: 'org.matrix.custom.html',
+    formatted_body: renderMarkup(text, 'html'),
+  };
+}
+
+export class MatrixChannel implements Channel {
+  name: string;
+  capabilities: ChannelCapabilities = {
+    // Events are capped at 65536 bytes including the HTML body
+    maxMessageLength: 16000,
+    // body carries the Markdown source; formatted_body is rendered here
+    markup: 'markdown',
+    threads: true,
+    reactions: true,
+    attachments: false,
+    edits: true,
+  };
+
+  private userId = '';
+  private since: string | null = null;
+  private connected = false;
+  private running = false;
+  private abort: AbortController | null = null;
+  private syncLoop: Promise<void> | null = null;
+  private cancelBackoff: (() => void) | null = null;
+  // Bumped by disconnect(), so a connect() it overtook gives up
+  private generation = 0;
+  private rooms = new Map<string, RoomInfo>();
+  private txnCounter = 0;
+  // Our reaction event per "roomId event_id", so a new one can replace it
+  private ownReactions = new Map<string, string>();
+
+  private readonly jidPrefix: string;
+
+  constructor(
+    private readonly opts: ChannelOpts,
+    private readonly config: MatrixChannelConfig,
+  ) {
+    this.name = channelInstanceName('matrix', config.instance);
+    this.jidPrefix = instanceJidPrefix(JID_PREFIX, config.instance);
+  }
+
+  async connect(): Promise<void> {
+    const generation = this.generation;
+    const whoami = (await this.request('GET', '/account/whoami')) as {
+      user_id: string;
+    };
+    this.userId = whoami.user_id;
+
+    // Initial sync establishes the cursor and room state; its timeline is
+    // history from before we started, so it is not delivered as messages.
+    // A reconnect keeps its cursor, so what arrived while down is delivered.
+    if (!this.since) {
+      const initial = (await this.request(
+        'GET',
+        `/sync?timeout=0&filter=${encodeURIComponent(
+          JSON.stringify({ room: { timeline: { limit: 1 } } }),
+        )}`,
+      )) as SyncResponse;
+      this.handleSync(initial, false);
+    }
+    if (generation !== this.generation) {
+      throw new Error('Matrix connect abandoned by disconnect');
+    }
+
+    this.connected = true;
+    this.running = true;
+    this.syncLoop = this.runSyncLoop();
+    logger.info({ userId: this.userId }, 'Matrix channel connected');
+  }
+
+  async sendMessage(
+    jid: string,
+    text: string,
+    options?: SendOptions,
+  ): Promise<string> {
+    const relation = relationFor(options);
+    return this.sendEvent(this.roomIdFromJid(jid), 'm.room.message', {
+      ...messageContent(text),
+      ...(relation ? { 'm.relates_to': relation } : {}),
+    });
+  }
+
+  async editMessage(
+    jid: string,
+    messageId: string,
+    text: string,
+  ): Promise<void> {
+    // Clients that don't understand m.replace show the fallback body
+    const fallback = messageContent(`* ${text}`);
+    await this.sendEvent(this.roomIdFromJid(jid), 'm.room.message', {
+      ...fallback,
+      'm.new_content': messageContent(text),
+      'm.relates_to': { rel_type: 'm.replace', event_id: messageId },
+    });
+  }
+
+  async react(jid: string, messageId: string, emoji: string): Promise<void> {
+    const roomId = this.roomIdFromJid(jid);
+    const key = `${roomId} ${messageId}`;
+    // Annotations accumulate; take our earlier one back first
+    const previous = this.ownReactions.get(key);
+    if (previous) {
+      const txnId = `nc${Date.now()}.${++this.txnCounter}`;
+      await this.request(
+        'PUT',
+        `/rooms/${encodeURIComponent(roomId)}/redact/${encodeURIComponent(previous)}/${txnId}`,
+        {},
+      );
+      this.ownReactions.delete(key);
+    }
+    const eventId = await this.sendEvent(roomId, 'm.reaction', {
+      'm.relates_to': {
+        rel_type: 'm.annotation',
+        event_id: messageId,
+        key: emoji,
+      },
+    });
+    this.ownReactions.set(key, eventId);
+  }
+
+  async setTyping(jid: string, isTyping: boolean): Promise<void> {
+    const roomId = this.roomIdFromJid(jid);
+    try {
+      await this.request(
+        'PUT',
+        `/rooms/${encodeURIComponent(roomId)}/typing/${encodeURIComponent(this.userId)}`,
+        isTyping
+          ? { typing: true, timeout: TYPING_TIMEOUT_MS }
+          : { typing: false },
+      );
+    } catch (err) {
+      logger.debug({ jid, err }, 'Failed to update Matrix typing state');
+    }
+  }
+
+  async syncGroups(force: boolean): Promise<void> {
+    if (!force) {
+      const lastSync = getLastGroupSync(this.name);
+      if (
+        lastSync &&
+        Date.now() - new Date(lastSync).getTime() < GROUP_SYNC_INTERVAL_MS
+      ) {
+        return;
+      }
+    }
+
+    const { joined_rooms } = (await this.request('GET', '/joined_rooms')) as {
+      joined_rooms: string[];
+    };
+    for (const roomId of joined_rooms) {
+      const info = this.getRoom(roomId);
+      try {
+        const state = (await this.request(
+          'GET',
+          `/rooms/${encodeURIComponent(roomId)}/state/m.room.name`,
+        )) as { name?: string };
+        if (state.name) info.name = state.name;
+      } catch {
+        // Unnamed room (common for DMs) — keep whatever we have
+      }
+      try {
+        const members = (await this.request(
+          'GET',
+          `/rooms/${encodeURIComponent(roomId)}/joined_members`,
+        )) as { joined?: Record<string, unknown> };
+        if (members.joined) {
+          info.memberCount = Object.keys(members.joined).length;
+        }
+      } catch (err) {
+        logger.debug({ roomId, err }, 'Failed to fetch Matrix room members');
+      }
+      this.reportMetadata(roomId, info);
+    }
+    setLastGroupSync(this.name);
+    logger.info({ count: joined_rooms.length }, 'Matrix rooms synced');
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  ownsJid(jid: string): boolean {
+    return jid.startsWith(this.jidPrefix);
+  }
+
+  private jid(roomId: string): string {
+    return `${this.jidPrefix}${roomId}`;
+  }
+
+  private roomIdFromJid(jid: string): string {
+    return jid.slice(this.jidPrefix.length);
+  }
+
+  async disconnect(): Promise<void> {
+    this.generation++;
+    this.running = false;
+    this.connected = false;
+    this.abort?.abort();
+    this.cancelBackoff?.();
+    await this.syncLoop?.catch(() => {});
+    this.syncLoop = null;
+  }
+
+  private async runSyncLoop(): Promise<void> {
+    let backoffMs = 1000;
+    while (this.running) {
+      try {
+        const params = new URLSearchParams({
+          timeout: String(SYNC_TIMEOUT_MS),
+        });
+        if (this.since) params.set('since', this.since);
+        const res = (await this.request(
+          'GET',
+          `/sync?${params.toString()}`,
+        )) as SyncResponse;
+        this.handleSync(res, true);
+        this.connected = true;
+        backoffMs = 1000;
+      } catch (err) {
+        if (!this.running) return;
+        this.connected = false;
+        logger.warn({ err, retryInMs: backoffMs }, 'Matrix sync failed');
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, backoffMs);
+          this.cancelBackoff = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        this.cancelBackoff = null;
+        backoffMs = Math.min(backoffMs * 2, MAX_BACKOFF_MS);
+      }
+    }
+  }
+
+  private handleSync(res: SyncResponse, deliver: boolean): void {
+    this.since = res.next_batch;
+
+    for (const [roomId, room] of Object.entries(res.rooms?.join ?? {})) {
+      const info = this.getRoom(roomId);
+      const count = room.summary?.['m.joined_member_count'];
+      if (count !== undefined) info.memberCount = count;
+
+      for (const event of room.state?.events ?? []) {
+        this.applyStateEvent(info, event);
+      }
+      for (const event of room.timeline?.events ?? []) {
+        this.applyStateEvent(info, event);
+        if (deliver) this.handleTimelineEvent(roomId, info, event);
+      }
+    }
+
+    if (this.config.autoJoin) {
+      for (const roomId of Object.keys(res.rooms?.invite ?? {})) {
+        this.request('POST', `/rooms/${encodeURIComponent(roomId)}/join`, {})
+          .then(() => logger.info({ roomId }, 'Joined Matrix room on invite'))
+          .catch((err) =>
+            logger.warn({ roomId, err }, 'Failed to join Matrix room'),
+          );
+      }
+    }
+  }
+
+  private applyStateEvent(info: RoomInfo, event: MatrixEvent): void {
+    if (event.type === 'm.room.name') {
+      const name = event.content?.name;
+      if (typeof name === 'string' && name) info.name = name;
+    } else if (event.type === 'm.room.member' && event.state_key) {
+      const displayName = event.content?.displayname;
+      if (typeof displayName === 'string' && displayName) {
+        info.displayNames.set(event.state_key, displayName);
+      }
+    }
+  }
+
+  private handleTimelineEvent(
+    roomId: string,
+    info: RoomInfo,
+    event: MatrixEvent,
+  ): void {
+    if (event.type === 'm.room.redaction') {
+      this.handleRedaction(roomId, event);
+      return;
+    }
+    if (event.type === 'm.reaction') {
+      this.handleReaction(roomId, info, event);
+      return;
+    }
+    if (event.type !== 'm.room.message' || !event.sender) return;
+    const rawBody = event.content?.body;
+    if (typeof rawBody !== 'string' || !rawBody) return;
+
+    const relation = event.content?.['m.relates_to'] as
+      | MatrixRelation
+      | undefined;
+    if (relation?.rel_type === 'm.replace') {
+      this.handleEdit(roomId, event, relation);
+      return;
+    }
+    const threadId =
+      relation?.rel_type === 'm.thread' ? relation.event_id : undefined;
+    // Thread messages carry an in_reply_to fallback for older clients
+    const replyTo = relation?.is_falling_back
+      ? undefined
+      : relation?.['m.in_reply_to']?.event_id;
+    const body = replyTo ? stripReplyFallback(rawBody) : rawBody;
+
+    const jid = this.jid(roomId);
+    const timestamp = new Date(
+      event.origin_server_ts ?? Date.now(),
+    ).toISOString();
+    info.lastActivity = timestamp;
+    this.reportMetadata(roomId, info);
+
+    // Only deliver full messages for registered groups
+    if (!this.opts.registeredGroups()[jid]) return;
+
+    const isOwn = event.sender === this.userId;
+    this.opts.onMessage(jid, {
+      id: event.event_id || `${roomId}-${timestamp}`,
+      chat_jid: jid,
+      sender: event.sender,
+      sender_name: isOwn ? ASSISTANT_NAME : displayName(info, event.sender),
+      content: body,
+      timestamp,
+      is_from_me: isOwn,
+      is_bot_message: isOwn,
+      ...(replyTo ? { reply_to_id: replyTo } : {}),
+      ...(threadId ? { thread_id: threadId } : {}),
+    });
+  }
+
+  private handleEdit(
+    roomId: string,
+    event: MatrixEvent,
+    relation: MatrixRelation,
+  ): void {
+    const jid = this.jid(roomId);
+    if (!relation.event_id || !this.opts.registeredGroups()[jid]) return;
+    // m.new_content holds the replacement; body is a "* new text" fallback
+    const newContent = event.content?.['m.new_content'] as
+      | { body?: unknown }
+      | undefined;
+    if (typeof newContent?.body !== 'string' || !event.sender) return;
+    this.opts.onMessageEdited?.(
+      jid,
+      relation.event_id,
+      event.sender,
+      newContent.body,
+      new Date(event.origin_server_ts ?? Date.now()).toISOString(),
+    );
+  }
+
+  private handleReaction(
+    roomId: string,
+    info: RoomInfo,
+    event: MatrixEvent,
+  ): void {
+    const jid = this.jid(roomId);
+    const relation = event.content?.['m.relates_to'] as
+      | MatrixRelation
+      | undefined;
+    if (
+      relation?.rel_type !== 'm.annotation' ||
+      !relation.event_id ||
+      !relation.key ||
+      !event.sender ||
+      event.sender === this.userId ||
+      !this.opts.registeredGroups()[jid]
+    ) {
+      return;
+    }
+    // Taking a reaction back redacts this event (see handleRedaction)
+    this.opts.onReaction?.(jid, {
+      message_id: relation.event_id,
+      sender: event.sender,
+      sender_name: displayName(info, event.sender),
+      emoji: relation.key,
+      timestamp: new Date(event.origin_server_ts ?? Date.now()).toISOString(),
+      ...(event.event_id ? { reaction_id: event.event_id } : {}),
+    });
+  }
+
+  private handleRedaction(roomId: string, event: MatrixEvent): void {
+    const jid = this.jid(roomId);
+    const target = event.redacts ?? event.content?.redacts;
+    if (typeof target !== 'string' || !this.opts.registeredGroups()[jid]) {
+      return;
+    }
+    this.opts.onMessageDeleted?.(
+      jid,
+      target,
+      new Date(event.origin_server_ts ?? Date.now()).toISOString(),
+    );
+  }
+
+  private reportMetadata(roomId: string, info: RoomInfo): void {
+    this.opts.onChatMetadata(
+      this.jid(roomId),
+      info.lastActivity ?? new Date(0).toISOString(),
+      info.name,
+      this.name,
+      info.memberCount === undefined ? true : info.memberCount > 2,
+    );
+  }
+
+  private getRoom(roomId: string): RoomInfo {
+    let info = this.rooms.get(roomId);
+    if (!info) {
+      info = { displayNames: new Map() };
+      this.rooms.set(roomId, info);
+    }
+    return info;
+  }
+
+  /** Send a room event and return its event ID. */
+  private async sendEvent(
+    roomId: string,
+    type: string,
+    content: Record<string, unknown>,
+  ): Promise<string> {
+    const txnId = `nc${Date.now()}.${++this.txnCounter}`;
+    const { event_id } = (await this.request(
+      'PUT',
+      `/rooms/${encodeURIComponent(roomId)}/send/${type}/${txnId}`,
+      content,
+    )) as { event_id: string };
+    return event_id;
+  }
+
+  private async request(
+    method: string,
+    endpoint: string,
+    body?: unknown,
+  ): Promise<unknown> {
+    const isSync = endpoint.startsWith('/sync');
+    if (isSync) this.abort = new AbortController();
+    const res = await fetch(
+      `${this.config.homeserver.replace(/\/$/, '')}/_matrix/client/v3${endpoint}`,
+      {
+        method,
+        headers: {
+          authorization: `Bearer ${this.config.accessToken}`,
+          ...(body !== undefined ? { 'content-type': 'application/json' } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: isSync ? this.abort!.signal : undefined,
+      },
+    );
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      const error = (data as { errcode?: string; error?: string }) ?? {};
+      throw new Error(
+        `Matrix ${method} ${endpoint.split('?')[0]} failed: ${res.status} ${error.errcode ?? ''} ${error.error ?? ''}`.trim(),
+      );
+    }
+    return data;
+  }
+}
+
+registerChannel('matrix', (opts: ChannelOpts, instance?: string) => {
+  const env = readChannelEnv(
+    ['MATRIX_HOMESERVER', 'MATRIX_ACCESS_TOKEN', 'MATRIX_AUTO_JOIN'],
+    instance,
+  );
+  if (!env.MATRIX_HOMESERVER || !env.MATRIX_ACCESS_TOKEN) return null;
+  return new MatrixChannel(opts, {
+    homeserver: env.MATRIX_HOMESERVER,
+    accessToken: env.MATRIX_ACCESS_TOKEN,
+    autoJoin: env.MATRIX_AUTO_JOIN === 'true',
+    instance,
+  });
+});
@@ -1,9 +1,13 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 
 import {
+  channelInstanceName,
+  instanceJidPrefix,
+  parseChannelInstance,
   registerChannel,
   getChannelFactory,
   getRegisteredChannelNames,
+  isFallbackChannel,
 } from './registry.js';
 
 // The registry is module-level state, so we need a fresh module per test.
@@ -40,3 +44,36 @@ describe('channel registry', () => {
     expect(getChannelFactory('overwrite-test')).toBe(factory2);
   });
 });
+
+describe('fallback channels', () => {
+  it('registerChannel marks fallback channels', () => {
+    registerChannel('fallback-test', () => null, { fallback: true });
+    registerChannel('regular-test', () => null);
+    expect(isFallbackChannel('fallback-test')).toBe(true);
+    expect(isFallbackChannel('regular-test')).toBe(false);
+  });
+
+  it('re-registering without the option clears the fallback flag', () => {
+    registerChannel('flip-test', () => null, { fallback: true });
+    registerChannel('flip-test', () => null);
+    expect(isFallbackChannel('flip-test')).toBe(false);
+  });
+});
+
+describe('channel instances', () => {
+  it('names instances and parses them back', () => {
+    expect(channelInstanceName('telegram')).toBe('telegram');
+    expect(channelInstanceName('telegram', 'work')).toBe('telegram:work');
+    expect(parseChannelInstance('telegram:work')).toEqual({
+      type: 'telegram',
+      instance: 'work',
+    });
+    expect(parseChannelInstance('telegram')).toEqual({ type: 'telegram' });
+  });
+
+  it('gives each instance JIDs the default instance does not own', () => {
+    expect(instanceJidPrefix('tg:')).toBe('tg:');
+    expect(instanceJidPrefix('tg:', 'work')).toBe('tg.work:');
+    expect('tg.work:123'.startsWith(instanceJidPrefix('tg:'))).toBe(false);
+  });
+});
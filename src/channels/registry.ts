@@ -2,21 +2,52 @@ import {
   Channel,
   OnInboundMessage,
   OnChatMetadata,
+  OnMessageDeleted,
+  OnMessageEdited,
+  OnPromptAnswer,
+  OnReaction,
   RegisteredGroup,
 } from '../types.js';
 
 export interface ChannelOpts {
   onMessage: OnInboundMessage;
+  // Optional: channels whose platform reports edits and deletions call these.
+  onMessageEdited?: OnMessageEdited;
+  onMessageDeleted?: OnMessageDeleted;
+  // Optional: channels whose platform has reactions report them here.
+  onReaction?: OnReaction;
+  // Optional: channels with sendPrompt report button presses and votes here.
+  onPromptAnswer?: OnPromptAnswer;
   onChatMetadata: OnChatMetadata;
   registeredGroups: () => Record<string, RegisteredGroup>;
+  // Optional: lets a channel register its own chat (e.g. the local CLI).
+  registerGroup?: (jid: string, group: RegisteredGroup) => void;
 }
 
-export type ChannelFactory = (opts: ChannelOpts) => Channel | null;
+// instance is set for named instances (`work` for `matrix:work`) and
+// undefined for the default one. Factories read the instance's settings
+// with readChannelEnv() and build its names with the helpers below.
+export type ChannelFactory = (
+  opts: ChannelOpts,
+  instance?: string,
+) => Channel | null;
+
+export interface ChannelRegistration {
+  // Fallback channels are only started when no other channel connects.
+  fallback?: boolean;
+}
 
 const registry = new Map<string, ChannelFactory>();
+const fallbacks = new Set<string>();
 
-export function registerChannel(name: string, factory: ChannelFactory): void {
+export function registerChannel(
+  name: string,
+  factory: ChannelFactory,
+  options: ChannelRegistration = {},
+): void {
   registry.set(name, factory);
+  if (options.fallback) fallbacks.add(name);
+  else fallbacks.delete(name);
 }
 
 export function getChannelFactory(name: string): ChannelFactory | undefined {
@@ -26,3 +57,30 @@ export function getChannelFactory(name: string): ChannelFactory | undefined {
 export function getRegisteredChannelNames(): string[] {
   return [...registry.keys()];
 }
+
+export function isFallbackChannel(name: string): boolean {
+  return fallbacks.has(name);
+}
+
+/** Channel name of an instance: `matrix`, or `matrix:work` for a named one. */
+export function channelInstanceName(type: string, instance?: string): string {
+  return instance ? `${type}:${instance}` : type;
+}
+
+/** Split `matrix:work` into its channel type and instance name. */
+export function parseChannelInstance(spec: string): {
+  type: string;
+  instance?: string;
+} {
+  const colon = spec.indexOf(':');
+  if (colon === -1) return { type: spec };
+  return { type: spec.slice(0, colon), instance: spec.slice(colon + 1) };
+}
+
+/**
+ * JID prefix of an instance: `mx:` for the default one and `mx.work:` for
+ * `matrix:work`, so no two instances claim the same JIDs.
+ */
+export function instanceJidPrefix(prefix: string, instance?: string): string {
+  return instance ? `${prefix.slice(0, -1)}.${instance}:` : prefix;
+}
@@ -0,0 +1,484 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { RegisteredGroup } from '../types.js';
+import { SignalChannel, signalGroupJid, signalJid } from './signal.js';
+import { ChannelOpts } from './registry.js';
+
+vi.mock('../db.js', () => ({
+  getLastGroupSync: vi.fn(() => null),
+  setLastGroupSync: vi.fn(),
+}));
+
+const ACCOUNT = '+15550000000';
+const GROUP_ID = 'aGVsbG8gd29ybGQ=';
+
+interface RpcRequest {
+  id: number;
+  method: string;
+  params: Record<string, unknown>;
+}
+
+/** Stand-in for `signal-cli daemon --socket`: answers requests, pushes envelopes. */
+class FakeSignalCli {
+  server: net.Server;
+  requests: RpcRequest[] = [];
+  clients = new Set<net.Socket>();
+  failMethods = new Set<string>();
+  // Methods the daemon never answers
+  silentMethods = new Set<string>();
+
+  constructor(private readonly socketPath: string) {
+    this.server = net.createServer((socket) => this.accept(socket));
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((r) => this.server.listen(this.socketPath, r));
+  }
+
+  async stop(): Promise<void> {
+    for (const c of this.clients) c.destroy();
+    await new Promise<void>((r) => this.server.close(() => r()));
+  }
+
+  receive(envelope: Record<string, unknown>): void {
+    const line = JSON.stringify({
+      jsonrpc: '2.0',
+      method: 'receive',
+      params: { envelope, account: ACCOUNT },
+    });
+    for (const c of this.clients) c.write(`${line}\n`);
+  }
+
+  dropClients(): void {
+    for (const c of this.clients) c.destroy();
+  }
+
+  private accept(socket: net.Socket): void {
+    this.clients.add(socket);
+    socket.on('close', () => this.clients.delete(socket));
+    let buffer = '';
+    socket.on('data', (data) => {
+      buffer += data.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const req = JSON.parse(line) as RpcRequest;
+        this.requests.push(req);
+        if (this.silentMethods.has(req.method)) continue;
+        socket.write(`${JSON.stringify(this.respond(req))}\n`);
+      }
+    });
+  }
+
+  private respond(req: RpcRequest): Record<string, unknown> {
+    if (this.failMethods.has(req.method)) {
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        error: { code: -1, message: 'Untrusted identity' },
+      };
+    }
+    const results: Record<string, unknown> = {
+      send: { timestamp: 1704067200000, results: [] },
+      sendTyping: {},
+      listGroups: [
+        { id: GROUP_ID, name: 'Family', isMember: true, members: [] },
+        { id: 'bGVmdA==', name: 'Left group', isMember: false, members: [] },
+      ],
+    };
+    return { jsonrpc: '2.0', id: req.id, result: results[req.method] ?? null };
+  }
+}
+
+const GROUP: RegisteredGroup = {
+  name: 'Family',
+  folder: 'signal_family',
+  trigger: '@Andy',
+  added_at: '2024-01-01T00:00:00.000Z',
+};
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('SignalChannel', () => {
+  let dir: string;
+  let daemon: FakeSignalCli;
+  let opts: ChannelOpts;
+  let channel: SignalChannel;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-signal-'));
+    const socketPath = path.join(dir, 'signal.sock');
+    daemon = new FakeSignalCli(socketPath);
+    await daemon.start();
+    opts = {
+      onMessage: vi.fn(),
+      onChatMetadata: vi.fn(),
+      registeredGroups: () => ({
+        [signalGroupJid(GROUP_ID)]: GROUP,
+        [signalJid('+15551112222')]: { ...GROUP, folder: 'signal_alice' },
+      }),
+    };
+    channel = new SignalChannel(opts, {
+      socketPath,
+      account: ACCOUNT,
+      reconnectBaseMs: 10,
+      reconnectMaxMs: 50,
+    });
+  });
+
+  afterEach(async () => {
+    await channel.disconnect();
+    await daemon.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('maps phone numbers and group IDs to JIDs', () => {
+    expect(signalJid('+15551112222')).toBe('signal:+15551112222');
+    expect(signalGroupJid(GROUP_ID)).toBe(`signal:group:${GROUP_ID}`);
+    expect(channel.ownsJid('signal:+15551112222')).toBe(true);
+    expect(channel.ownsJid('tg:123')).toBe(false);
+  });
+
+  it('syncs groups from listGroups on connect', async () => {
+    await channel.connect();
+    await waitFor(() => vi.mocked(opts.onChatMetadata).mock.calls.length > 0);
+
+    expect(daemon.requests[0]).toMatchObject({
+      method: 'listGroups',
+      params: { account: ACCOUNT },
+    });
+    expect(opts.onChatMetadata).toHaveBeenCalledTimes(1);
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      signalGroupJid(GROUP_ID),
+      expect.any(String),
+      'Family',
+      'signal',
+      true,
+    );
+  });
+
+  it('delivers group and direct messages with group flags', async () => {
+    await channel.connect();
+    daemon.receive({
+      sourceNumber: '+15551112222',
+      sourceUuid: 'uuid-alice',
+      sourceName: 'Alice',
+      timestamp: 1704067200000,
+      dataMessage: {
+        timestamp: 1704067200000,
+        message: '@Andy dinner?',
+        groupInfo: { groupId: GROUP_ID, type: 'DELIVER' },
+      },
+    });
+    daemon.receive({
+      sourceNumber: '+15551112222',
+      sourceName: 'Alice',
+      timestamp: 1704067260000,
+      dataMessage: { timestamp: 1704067260000, message: 'just us' },
+    });
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length >= 2);
+
+    expect(opts.onMessage).toHaveBeenCalledWith(signalGroupJid(GROUP_ID), {
+      id: '+15551112222-1704067200000',
+      chat_jid: signalGroupJid(GROUP_ID),
+      sender: '+15551112222',
+      sender_name: 'Alice',
+      content: '@Andy dinner?',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      is_from_me: false,
+      is_bot_message: false,
+    });
+    expect(opts.onChatMetadata).toHaveBeenCalledWith(
+      signalJid('+15551112222'),
+      '2024-01-01T00:01:00.000Z',
+      'Alice',
+      'signal',
+      false,
+    );
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      signalJid('+15551112222'),
+      expect.objectContaining({ content: 'just us' }),
+    );
+  });
+
+  it('treats sync messages from our other devices as our own', async () => {
+    await channel.connect();
+    daemon.receive({
+      sourceNumber: ACCOUNT,
+      timestamp: 1704067200000,
+      syncMessage: {
+        sentMessage: {
+          timestamp: 1704067200000,
+          message: 'sent from phone',
+          destinationNumber: '+15551112222',
+        },
+      },
+    });
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length > 0);
+
+    expect(opts.onMessage).toHaveBeenCalledWith(
+      signalJid('+15551112222'),
+      expect.objectContaining({ sender: ACCOUNT, is_from_me: true }),
+    );
+  });
+
+  it('maps quotes to reply_to_id and quotes replies back', async () => {
+    await channel.connect();
+    daemon.receive({
+      sourceNumber: '+15551112222',
+      sourceName: 'Alice',
+      timestamp: 1704067260000,
+      dataMessage: {
+        timestamp: 1704067260000,
+        message: '@Andy which one?',
+        groupInfo: { groupId: GROUP_ID, type: 'DELIVER' },
+        quote: { id: 1704067200000, authorNumber: '+15553334444', text: 'x' },
+      },
+    });
+    await waitFor(() => vi.mocked(opts.onMessage).mock.calls.length > 0);
+    const [, msg] = vi.mocked(opts.onMessage).mock.calls[0];
+    expect(msg.reply_to_id).toBe('+15553334444-1704067200000');
+
+    await channel.sendMessage(signalGroupJid(GROUP_ID), 'the blue one', {
+      replyTo: msg.id,
+    });
+    const send = daemon.requests.find((r) => r.method === 'send');
+    expect(send?.params).toEqual({
+      account: ACCOUNT,
+      groupId: GROUP_ID,
+      message: 'the blue one',
+      quoteAuthor: '+15551112222',
+      quoteTimestamp: 1704067260000,
+    });
+  });
+
+  it('reports edits and remote deletes by the original message id', async () => {
+    opts.onMessageEdited = vi.fn();
+    opts.onMessageDeleted = vi.fn();
+    await channel.connect();
+    daemon.receive({
+      sourceNumber: '+15551112222',
+      timestamp: 1704067300000,
+      editMessage: {
+        targetSentTimestamp: 1704067260000,
+        dataMessage: {
+          timestamp: 1704067300000,
+          message: '@Andy which blue one?',
+          groupInfo: { groupId: GROUP_ID, type: 'DELIVER' },
+        },
+      },
+    });
+    daemon.receive({
+      sourceNumber: '+15551112222',
+      timestamp: 1704067400000,
+      dataMessage: {
+        timestamp: 1704067400000,
+        remoteDelete: { timestamp: 1704067260000 },
+        groupInfo: { groupId: GROUP_ID, type: 'DELIVER' },
+      },
+    });
+    await waitFor(
+      () => vi.mocked(opts.onMessageDeleted!).mock.calls.length > 0,
+    );
+
+    expect(opts.onMessageEdited).toHaveBeenCalledWith(
+      signalGroupJid(GROUP_ID),
+      '+15551112222-1704067260000',
+      '+15551112222',
+      '@Andy which blue one?',
+      '2024-01-01T00:01:40.000Z',
+    );
+    expect(opts.onMessageDeleted).toHaveBeenCalledWith(
+      signalGroupJid(GROUP_ID),
+      '+15551112222-1704067260000',
+      '2024-01-01T00:03:20.000Z',
+    );
+    expect(opts.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('reports reactions and their removal', async () => {
+    opts.onReaction = vi.fn();
+    await channel.connect();
+    const reaction = (isRemove: boolean) => ({
+      emoji: '👍',
+      targetAuthorNumber: ACCOUNT,
+      targetSentTimestamp: 1704067200000,
+      isRemove,
+    });
+    daemon.receive({
+      sourceNumber: '+15551112222',
+      sourceName: 'Alice',
+      timestamp: 1704067300000,
+      dataMessage: { timestamp: 1704067300000, reaction: reaction(false) },
+    });
+    daemon.receive({
+      sourceNumber: '+15551112222',
+      sourceName: 'Alice',
+      timestamp: 1704067400000,
+      dataMessage: { timestamp: 1704067400000, reaction: reaction(true) },
+    });
+    await waitFor(() => vi.mocked(opts.onReaction!).mock.calls.length >= 2);
+
+    const added = {
+      message_id: `${ACCOUNT}-1704067200000`,
+      sender: '+15551112222',
+      sender_name: 'Alice',
+      emoji: '👍',
+      timestamp: '2024-01-01T00:01:40.000Z',
+    };
+    expect(vi.mocked(opts.onReaction!).mock.calls).toEqual([
+      [signalJid('+15551112222'), added],
+      [
+        signalJid('+15551112222'),
+        { ...added, timestamp: '2024-01-01T00:03:20.000Z', removed: true },
+      ],
+    ]);
+    expect(opts.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('reacts to a message by its author and timestamp', async () => {
+    await channel.connect();
+    await channel.react(
+      signalGroupJid(GROUP_ID),
+      '+15551112222-1704067260000',
+      '👀',
+    );
+
+    const reaction = daemon.requests.find((r) => r.method === 'sendReaction');
+    expect(reaction?.params).toEqual({
+      account: ACCOUNT,
+      groupId: GROUP_ID,
+      emoji: '👀',
+      targetAuthor: '+15551112222',
+      targetTimestamp: 1704067260000,
+    });
+  });
+
+  it('ignores receipts and unregistered chats', async () => {
+    await channel.connect();
+    daemon.receive({
+      sourceNumber: '+15551112222',
+      receiptMessage: { isDelivery: true, timestamps: [1] },
+    });
+    daemon.receive({
+      sourceNumber: '+15559999999',
+      sourceName: 'Stranger',
+      timestamp: 1704067200000,
+      dataMessage: { timestamp: 1704067200000, message: 'hi' },
+    });
+    await waitFor(() =>
+      vi
+        .mocked(opts.onChatMetadata)
+        .mock.calls.some((c) => c[0] === signalJid('+15559999999')),
+    );
+
+    expect(opts.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('sends to groups by groupId and to people by recipient', async () => {
+    await channel.connect();
+    await channel.sendMessage(signalGroupJid(GROUP_ID), 'hello group');
+    await channel.sendMessage(signalJid('+15551112222'), 'hello you');
+
+    const sends = daemon.requests.filter((r) => r.method === 'send');
+    expect(sends.map((r) => r.params)).toEqual([
+      { account: ACCOUNT, groupId: GROUP_ID, message: 'hello group' },
+      { account: ACCOUNT, recipient: ['+15551112222'], message: 'hello you' },
+    ]);
+  });
+
+  it('returns the sent message id and edits by its timestamp', async () => {
+    await channel.connect();
+    const jid = signalJid('+15551112222');
+    const id = await channel.sendMessage(jid, 'Working');
+    expect(id).toBe(`${ACCOUNT}-1704067200000`);
+    await channel.editMessage(jid, id!, 'Working\n\nDone');
+
+    const sends = daemon.requests.filter((r) => r.method === 'send');
+    expect(sends[1].params).toEqual({
+      account: ACCOUNT,
+      recipient: ['+15551112222'],
+      message: 'Working\n\nDone',
+      editTimestamp: 1704067200000,
+    });
+  });
+
+  it('sends files as data URI attachments', async () => {
+    const filePath = path.join(dir, 'chart.png');
+    fs.writeFileSync(filePath, 'PNGDATA');
+    await channel.connect();
+    await channel.sendFile(signalGroupJid(GROUP_ID), {
+      path: filePath,
+      mime: 'image/png',
+      filename: 'chart.png',
+      size: 7,
+      caption: 'Q3 chart',
+    });
+
+    const send = daemon.requests.find((r) => r.method === 'send');
+    expect(send?.params).toEqual({
+      account: ACCOUNT,
+      groupId: GROUP_ID,
+      message: 'Q3 chart',
+      attachments: [
+        `data:image/png;filename=chart.png;base64,${Buffer.from('PNGDATA').toString('base64')}`,
+      ],
+    });
+  });
+
+  it('surfaces JSON-RPC errors from send', async () => {
+    await channel.connect();
+    daemon.failMethods.add('send');
+    await expect(
+      channel.sendMessage(signalJid('+15551112222'), 'hi'),
+    ).rejects.toThrow(/send failed: Untrusted identity/);
+  });
+
+  it('fails requests still in flight when disconnected', async () => {
+    await channel.connect();
+    daemon.silentMethods.add('send');
+    const sending = channel.sendMessage(signalJid('+15551112222'), 'hi');
+    await waitFor(() => daemon.requests.some((r) => r.method === 'send'));
+
+    await channel.disconnect();
+    await expect(sending).rejects.toThrow(/Signal disconnected/);
+  });
+
+  it('sends typing start and stop', async () => {
+    await channel.connect();
+    await channel.setTyping(signalJid('+15551112222'), true);
+    await channel.setTyping(signalJid('+15551112222'), false);
+
+    const typing = daemon.requests.filter((r) => r.method === 'sendTyping');
+    expect(typing.map((r) => r.params)).toEqual([
+      { account: ACCOUNT, recipient: ['+15551112222'] },
+      { account: ACCOUNT, recipient: ['+15551112222'], stop: true },
+    ]);
+  });
+
+  it('reconnects after the daemon drops the connection', async () => {
+    await channel.connect();
+    daemon.dropClients();
+    await waitFor(() => !channel.isConnected());
+    await waitFor(() => channel.isConnected());
+
+    expect(channel.isConnected()).toBe(true);
+    await channel.sendMessage(signalJid('+15551112222'), 'back');
+    expect(daemon.requests.at(-1)?.params.message).toBe('back');
+  });
+
+  it('fails to connect when the daemon is not running', async () => {
+    const missing = new SignalChannel(opts, {
+      socketPath: path.join(dir, 'missing.sock'),
+    });
+    await expect(missing.connect()).rejects.toThrow();
+  });
+});
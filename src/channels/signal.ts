@@ -0,0 +1,569 @@
+/**
+ * Signal channel via a signal-cli daemon's JSON-RPC interface.
+ *
+ * Run signal-cli separately, e.g.
+ *   signal-cli -a +15551234567 daemon --socket /run/signal-cli/socket
+ * (or `--tcp 127.0.0.1:7583`). Requests and notifications are
+ * newline-delimited JSON-RPC 2.0.
+ *
+ * JIDs:
+ *   signal:+15551234567        direct chats (phone number, or UUID when hidden)
+ *   signal:group:<groupId>     groups (base64 group ID from signal-cli)
+ *
+ * Configure in .env:
+ *   SIGNAL_CLI_SOCKET   Unix socket path of the daemon, or
+ *   SIGNAL_CLI_TCP      host:port of the daemon
+ *   SIGNAL_ACCOUNT      account number (needed when the daemon serves several)
+ *
+ * A named instance (signal:work) reads the same keys with _WORK appended
+ * and uses JIDs of the form `signal.work:+15551234567`.
+ */
+import fs from 'fs';
+import net from 'net';
+
+import { ASSISTANT_HAS_OWN_NUMBER } from '../config.js';
+import { getLastGroupSync, setLastGroupSync } from '../db.js';
+import { readChannelEnv } from '../env.js';
+import { logger } from '../logger.js';
+import {
+  Channel,
+  ChannelCapabilities,
+  OutboundFile,
+  SendOptions,
+} from '../types.js';
+import {
+  channelInstanceName,
+  ChannelOpts,
+  instanceJidPrefix,
+  registerChannel,
+} from './registry.js';
+
+const JID_PREFIX = 'signal:';
+const GROUP_KEY = 'group:';
+const REQUEST_TIMEOUT_MS = 30000;
+const GROUP_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface SignalChannelConfig {
+  // Exactly one of socketPath / tcp
+  socketPath?: string;
+  tcp?: { host: string; port: number };
+  account?: string;
+  // Reconnect backoff bounds (ms)
+  reconnectBaseMs?: number;
+  reconnectMaxMs?: number;
+  instance?: string; // Named instance (`work` for signal:work)
+}
+
+interface SignalDataMessage {
+  timestamp?: number;
+  message?: string | null;
+  groupInfo?: { groupId: string; groupName?: string };
+  quote?: {
+    id: number;
+    author?: string;
+    authorNumber?: string | null;
+    authorUuid?: string;
+  };
+  remoteDelete?: { timestamp: number };
+  reaction?: {
+    emoji: string;
+    targetAuthor?: string;
+    targetAuthorNumber?: string | null;
+    targetAuthorUuid?: string;
+    targetSentTimestamp: number;
+    isRemove?: boolean;
+  };
+}
+
+interface SignalEnvelope {
+  source?: string;
+  sourceNumber?: string | null;
+  sourceUuid?: string;
+  sourceName?: string;
+  timestamp?: number;
+  dataMessage?: SignalDataMessage;
+  // The edited message in full, replacing the one sent at targetSentTimestamp
+  editMessage?: { targetSentTimestamp: number; dataMessage: SignalDataMessage };
+  syncMessage?: {
+    sentMessage?: SignalDataMessage & {
+      destination?: string | null;
+      destinationNumber?: string | null;
+      destinationUuid?: string;
+    };
+  };
+}
+
+interface SignalGroup {
+  id: string;
+  name?: string;
+  isMember?: boolean;
+  members?: unknown[];
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export function signalJid(recipient: string, instance?: string): string {
+  return `${instanceJidPrefix(JID_PREFIX, instance)}${recipient}`;
+}
+
+export function signalGroupJid(groupId: string, instance?: string): string {
+  return signalJid(`${GROUP_KEY}${groupId}`, instance);
+}
+
+// Signal identifies a message by its author and send timestamp
+function signalMessageId(
+  author: string,
+  timestamp: number | undefined,
+): string {
+  return `${author}-${timestamp}`;
+}
+
+function parseSignalMessageId(
+  id: string,
+): { author: string; timestamp: number } | null {
+  const dash = id.lastIndexOf('-');
+  if (dash <= 0) return null;
+  const timestamp = Number(id.slice(dash + 1));
+  if (!Number.isFinite(timestamp)) return null;
+  return { author: id.slice(0, dash), timestamp };
+}
+
+function quoteParams(replyTo: string | undefined): Record<string, unknown> {
+  const target = replyTo ? parseSignalMessageId(replyTo) : null;
+  if (!target) return {};
+  return { quoteAuthor: target.author, quoteTimestamp: target.timestamp };
+}
+
+export class SignalChannel implements Channel {
+  name: string;
+  capabilities: ChannelCapabilities = {
+    // Longer bodies are sent as a text attachment by Signal clients
+    maxMessageLength: 2000,
+    markup: 'plain',
+    threads: false,
+    reactions: true,
+    attachments: true,
+    edits: true,
+  };
+
+  private socket: net.Socket | null = null;
+  private connected = false;
+  private stopping = false;
+  private buffer = '';
+  private rpcSeq = 0;
+  private pending = new Map<number, PendingRequest>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private groupNames = new Map<string, string>();
+
+  private readonly jidPrefix: string;
+
+  constructor(
+    private readonly opts: ChannelOpts,
+    private readonly config: SignalChannelConfig,
+  ) {
+    this.name = channelInstanceName('signal', config.instance);
+    this.jidPrefix = instanceJidPrefix(JID_PREFIX, config.instance);
+  }
+
+  async connect(): Promise<void> {
+    this.stopping = false;
+    await this.open();
+    logger.info(
+      { account: this.config.account, socket: this.describeEndpoint() },
+      'Signal connected',
+    );
+    this.syncGroups(false).catch((err) =>
+      logger.warn({ err }, 'Signal group sync failed'),
+    );
+  }
+
+  async sendMessage(
+    jid: string,
+    text: string,
+    options?: SendOptions,
+  ): Promise<string | undefined> {
+    const { timestamp } = (await this.request('send', {
+      ...this.target(jid),
+      message: text,
+      ...quoteParams(options?.replyTo),
+    })) as { timestamp?: number };
+    logger.info({ jid, length: text.length }, 'Signal message sent');
+    // Our own number is the author part of the ID; without it the message
+    // can't be referred to again
+    if (!this.config.account || timestamp === undefined) return undefined;
+    return signalMessageId(this.config.account, timestamp);
+  }
+
+  async editMessage(
+    jid: string,
+    messageId: string,
+    text: string,
+  ): Promise<void> {
+    const target = parseSignalMessageId(messageId);
+    if (!target) throw new Error(`Not a Signal message ID: ${messageId}`);
+    await this.request('send', {
+      ...this.target(jid),
+      message: text,
+      editTimestamp: target.timestamp,
+    });
+    logger.info({ jid, length: text.length }, 'Signal message edited');
+  }
+
+  async react(jid: string, messageId: string, emoji: string): Promise<void> {
+    const target = parseSignalMessageId(messageId);
+    if (!target) throw new Error(`Not a Signal message ID: ${messageId}`);
+    // Signal keeps one reaction per sender, so this replaces any earlier one
+    await this.request('sendReaction', {
+      ...this.target(jid),
+      emoji,
+      targetAuthor: target.author,
+      targetTimestamp: target.timestamp,
+    });
+  }
+
+  async sendFile(jid: string, file: OutboundFile): Promise<void> {
+    // A data URI, so the daemon needn't be able to read our filesystem
+    const data = fs.readFileSync(file.path).toString('base64');
+    await this.request('send', {
+      ...this.target(jid),
+      message: file.caption ?? '',
+      attachments: [
+        `data:${file.mime};filename=${file.filename};base64,${data}`,
+      ],
+    });
+    logger.info(
+      { jid, file: file.filename, size: file.size },
+      'Signal file sent',
+    );
+  }
+
+  async setTyping(jid: string, isTyping: boolean): Promise<void> {
+    try {
+      await this.request('sendTyping', {
+        ...this.target(jid),
+        ...(isTyping ? {} : { stop: true }),
+      });
+    } catch (err) {
+      logger.debug({ jid, err }, 'Failed to send Signal typing indicator');
+    }
+  }
+
+  async syncGroups(force: boolean): Promise<void> {
+    if (!force) {
+      const lastSync = getLastGroupSync(this.name);
+      if (
+        lastSync &&
+        Date.now() - new Date(lastSync).getTime() < GROUP_SYNC_INTERVAL_MS
+      ) {
+        return;
+      }
+    }
+
+    const groups = (await this.request('listGroups', {})) as SignalGroup[];
+    let count = 0;
+    for (const group of groups) {
+      if (group.isMember === false) continue;
+      if (group.name) this.groupNames.set(group.id, group.name);
+      this.opts.onChatMetadata(
+        signalGroupJid(group.id, this.config.instance),
+        new Date(0).toISOString(),
+        group.name,
+        this.name,
+        true,
+      );
+      count++;
+    }
+    setLastGroupSync(this.name);
+    logger.info({ count }, 'Signal groups synced');
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  ownsJid(jid: string): boolean {
+    return jid.startsWith(this.jidPrefix);
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopping = true;
+    this.connected = false;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    // The close event fires after this and is ignored, so fail in-flight
+    // requests here rather than leave them to time out
+    this.socket?.destroy();
+    this.socket = null;
+    this.rejectPending(new Error('Signal disconnected'));
+  }
+
+  private describeEndpoint(): string {
+    const { socketPath, tcp } = this.config;
+    return socketPath ?? `${tcp?.host}:${tcp?.port}`;
+  }
+
+  private target(jid: string): Record<string, unknown> {
+    const key = jid.slice(this.jidPrefix.length);
+    if (key.startsWith(GROUP_KEY)) {
+      return { groupId: key.slice(GROUP_KEY.length) };
+    }
+    return { recipient: [key] };
+  }
+
+  private request(
+    method: string,
+    params: Record<string, unknown>,
+  ): Promise<unknown> {
+    const socket = this.socket;
+    if (!socket || !this.connected) {
+      return Promise.reject(new Error('Signal not connected'));
+    }
+    const id = ++this.rpcSeq;
+    const body = {
+      jsonrpc: '2.0',
+      id,
+      method,
+      params: this.config.account
+        ? { account: this.config.account, ...params }
+        : params,
+    };
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`signal-cli ${method} timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { method, resolve, reject, timer });
+      socket.write(`${JSON.stringify(body)}\n`);
+    });
+  }
+
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const { socketPath, tcp } = this.config;
+      const socket = socketPath
+        ? net.connect(socketPath)
+        : net.connect({ host: tcp!.host, port: tcp!.port });
+      let opened = false;
+      this.socket = socket;
+      this.buffer = '';
+
+      socket.setEncoding('utf-8');
+      socket.on('connect', () => {
+        opened = true;
+        this.connected = true;
+        this.reconnectAttempts = 0;
+        resolve();
+      });
+      socket.on('data', (data: string) => this.handleData(data));
+      socket.on('error', (err) => {
+        if (!opened) reject(err);
+        else logger.warn({ err }, 'Signal socket error');
+      });
+      socket.on('close', () => {
+        if (socket !== this.socket) return;
+        this.connected = false;
+        this.socket = null;
+        this.rejectPending(new Error('signal-cli connection closed'));
+        if (opened && !this.stopping) this.scheduleReconnect();
+      });
+    });
+  }
+
+  private rejectPending(err: Error): void {
+    for (const [id, req] of this.pending) {
+      clearTimeout(req.timer);
+      req.reject(err);
+      this.pending.delete(id);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const base = this.config.reconnectBaseMs ?? 1000;
+    const max = this.config.reconnectMaxMs ?? 60000;
+    const delay = Math.min(base * 2 ** this.reconnectAttempts++, max);
+    logger.warn({ delayMs: delay }, 'Signal disconnected, reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.stopping) return;
+      this.open()
+        .then(() => logger.info('Signal reconnected'))
+        .catch((err) => {
+          logger.warn({ err }, 'Signal reconnect failed');
+          if (!this.stopping) this.scheduleReconnect();
+        });
+    }, delay);
+  }
+
+  private handleData(data: string): void {
+    this.buffer += data;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let msg: {
+        id?: number;
+        method?: string;
+        params?: { envelope?: SignalEnvelope };
+        result?: unknown;
+        error?: { code: number; message: string };
+      };
+      try {
+        msg = JSON.parse(line);
+      } catch {
+        logger.warn(
+          { line: line.slice(0, 200) },
+          'Invalid JSON from signal-cli',
+        );
+        continue;
+      }
+
+      if (msg.id !== undefined && this.pending.has(msg.id)) {
+        const req = this.pending.get(msg.id)!;
+        this.pending.delete(msg.id);
+        clearTimeout(req.timer);
+        if (msg.error) {
+          req.reject(
+            new Error(`signal-cli ${req.method} failed: ${msg.error.message}`),
+          );
+        } else {
+          req.resolve(msg.result);
+        }
+      } else if (msg.method === 'receive' && msg.params?.envelope) {
+        this.handleEnvelope(msg.params.envelope);
+      }
+    }
+  }
+
+  private handleEnvelope(envelope: SignalEnvelope): void {
+    const source =
+      envelope.sourceNumber || envelope.sourceUuid || envelope.source;
+    if (!source) return;
+
+    // Messages sent from the account's other devices (e.g. the user's phone)
+    const sent = envelope.syncMessage?.sentMessage;
+    const edit = envelope.editMessage;
+    const data = envelope.dataMessage ?? sent ?? edit?.dataMessage;
+    // Skip receipts, typing, etc.
+    if (!data?.message && !data?.remoteDelete && !data?.reaction) return;
+
+    let chatKey: string;
+    if (data.groupInfo?.groupId) {
+      chatKey = `${GROUP_KEY}${data.groupInfo.groupId}`;
+    } else if (sent) {
+      const dest =
+        sent.destinationNumber || sent.destinationUuid || sent.destination;
+      if (!dest) return;
+      chatKey = dest;
+    } else {
+      chatKey = source;
+    }
+    const jid = `${this.jidPrefix}${chatKey}`;
+    const isGroup = !!data.groupInfo;
+    const timestamp = new Date(
+      data.timestamp ?? envelope.timestamp ?? Date.now(),
+    ).toISOString();
+    const groupName =
+      data.groupInfo?.groupName ??
+      (data.groupInfo
+        ? this.groupNames.get(data.groupInfo.groupId)
+        : undefined);
+    const chatName = isGroup
+      ? groupName
+      : sent
+        ? undefined
+        : envelope.sourceName || undefined;
+
+    this.opts.onChatMetadata(jid, timestamp, chatName, this.name, isGroup);
+
+    if (!this.opts.registeredGroups()[jid]) return;
+
+    if (data.reaction) {
+      const { reaction } = data;
+      const author =
+        reaction.targetAuthorNumber ||
+        reaction.targetAuthorUuid ||
+        reaction.targetAuthor;
+      // Reactions from our own devices aren't feedback
+      if (sent || !author) return;
+      this.opts.onReaction?.(jid, {
+        message_id: signalMessageId(author, reaction.targetSentTimestamp),
+        sender: source,
+        sender_name: envelope.sourceName || source,
+        emoji: reaction.emoji,
+        timestamp,
+        ...(reaction.isRemove ? { removed: true } : {}),
+      });
+      return;
+    }
+    // Only the author can edit or delete, so the target's id is theirs
+    if (data.remoteDelete) {
+      this.opts.onMessageDeleted?.(
+        jid,
+        signalMessageId(source, data.remoteDelete.timestamp),
+        timestamp,
+      );
+      return;
+    }
+    if (!data.message) return;
+    if (edit) {
+      this.opts.onMessageEdited?.(
+        jid,
+        signalMessageId(source, edit.targetSentTimestamp),
+        source,
+        data.message,
+        timestamp,
+      );
+      return;
+    }
+
+    const quote = data.quote;
+    const quoteAuthor =
+      quote && (quote.authorNumber || quote.authorUuid || quote.author);
+    this.opts.onMessage(jid, {
+      id: signalMessageId(source, data.timestamp ?? envelope.timestamp),
+      chat_jid: jid,
+      sender: source,
+      sender_name: envelope.sourceName || source,
+      content: data.message,
+      timestamp,
+      is_from_me: !!sent,
+      // With a dedicated number, our own sends are the assistant's replies
+      is_bot_message: !!sent && ASSISTANT_HAS_OWN_NUMBER,
+      ...(quoteAuthor
+        ? { reply_to_id: signalMessageId(quoteAuthor, quote.id) }
+        : {}),
+    });
+  }
+}
+
+registerChannel('signal', (opts: ChannelOpts, instance?: string) => {
+  const env = readChannelEnv(
+    ['SIGNAL_CLI_SOCKET', 'SIGNAL_CLI_TCP', 'SIGNAL_ACCOUNT'],
+    instance,
+  );
+  const socketPath = env.SIGNAL_CLI_SOCKET;
+  const tcpAddress = env.SIGNAL_CLI_TCP;
+  const account = env.SIGNAL_ACCOUNT;
+
+  if (socketPath) {
+    return new SignalChannel(opts, { socketPath, account, instance });
+  }
+  if (tcpAddress) {
+    const colon = tcpAddress.lastIndexOf(':');
+    return new SignalChannel(opts, {
+      tcp: {
+        host: tcpAddress.slice(0, colon) || '127.0.0.1',
+        port: parseInt(tcpAddress.slice(colon + 1), 10),
+      },
+      account,
+      instance,
+    });
+  }
+  return null;
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { CommandDeps, parseCommand, runCommand } from './commands.js';
+import { _initTestDatabase, createTask } from './db.js';
+import { ConversationStatus } from './group-queue.js';
+import { RegisteredGroup } from './types.js';
+
+const MAIN: RegisteredGroup = {
+  name: 'Main',
+  folder: 'whatsapp_main',
+  trigger: '@Andy',
+  added_at: '2024-01-01T00:00:00.000Z',
+  isMain: true,
+};
+const FAMILY: RegisteredGroup = {
+  name: 'Family',
+  folder: 'whatsapp_family',
+  trigger: '@Andy',
+  added_at: '2024-01-01T00:00:00.000Z',
+};
+
+const IDLE: ConversationStatus = {
+  active: false,
+  idleWaiting: false,
+  runningTaskId: null,
+  pendingMessages: false,
+  pendingTasks: 0,
+  paused: false,
+};
+
+function makeDeps(status: Partial<ConversationStatus> = {}): CommandDeps {
+  return {
+    timezone: 'UTC',
+    channelName: (jid) => (jid.startsWith('signal:') ? 'signal' : 'whatsapp'),
+    channelStatus: () => [
+      {
+        name: 'whatsapp',
+        health: 'connected',
+        since: '2024-01-01T00:00:00.000Z',
+        attempts: 0,
+      },
+      {
+        name: 'signal',
+        health: 'reconnecting',
+        since: '2024-01-01T00:00:00.000Z',
+        attempts: 2,
+        lastError: 'refused',
+      },
+    ],
+    conversationStatus: () => ({ ...IDLE, ...status }),
+    stopConversation: vi.fn(() => !!status.active),
+    hasSession: () => true,
+    clearSession: vi.fn(),
+    updateGroup: vi.fn(),
+  };
+}
+
+function run(
+  text: string,
+  group: RegisteredGroup,
+  deps: CommandDeps,
+  chatJid = 'family@g.us',
+) {
+  const command = parseCommand(text)!;
+  return runCommand(command.name, { chatJid, group, args: command.args }, deps);
+}
+
+beforeEach(() => {
+  _initTestDatabase();
+});
+
+describe('parseCommand', () => {
+  it('recognises known commands with arguments', () => {
+    expect(parseCommand('/status')).toEqual({ name: 'status', args: '' });
+    expect(parseCommand('  /Model  opus ')).toEqual({
+      name: 'model',
+      args: 'opus',
+    });
+    expect(parseCommand('/stop@andy_bot')).toEqual({ name: 'stop', args: '' });
+  });
+
+  it('leaves everything else to the agent', () => {
+    expect(parseCommand('/unknown thing')).toBeUndefined();
+    expect(parseCommand('please /stop')).toBeUndefined();
+    expect(parseCommand('/statusx')).toBeUndefined();
+    expect(parseCommand('/constructor')).toBeUndefined();
+  });
+});
+
+describe('commands', () => {
+  it('/help lists every command', () => {
+    const reply = run('/help', FAMILY, makeDeps());
+    for (const name of ['help', 'status', 'stop', 'reset', 'tasks', 'model']) {
+      expect(reply).toContain(`/${name}`);
+    }
+  });
+
+  it('/status reports the agent, session, model and own channel', () => {
+    const reply = run(
+      '/status',
+      { ...FAMILY, model: 'opus' },
+      makeDeps({ active: true, pendingTasks: 1 }),
+    );
+    expect(reply).toContain('Agent: working');
+    expect(reply).toContain('Queued: 1 task(s)');
+    expect(reply).toContain('Session: resumed on the next run');
+    expect(reply).toContain('Model: opus');
+    expect(reply).toContain('Outbox: 0 pending, 0 failed');
+    expect(reply).toContain('• whatsapp: connected');
+    expect(reply).not.toContain('signal');
+  });
+
+  it('/status in the main group shows every channel', () => {
+    const reply = run('/status', MAIN, makeDeps(), 'main@g.us');
+    expect(reply).toContain('• whatsapp: connected');
+    expect(reply).toContain('• signal: reconnecting (refused)');
+  });
+
+  it('/stop winds down a running agent', () => {
+    const deps = makeDeps({ active: true });
+    expect(run('/stop', FAMILY, deps)).toBe('Stopping the agent.');
+    expect(deps.stopConversation).toHaveBeenCalledWith(
+      'family@g.us',
+      undefined,
+    );
+    expect(run('/stop', FAMILY, makeDeps())).toBe('The agent is not running.');
+  });
+
+  it('/reset clears the session and stops the container', () => {
+    const deps = makeDeps({ active: true });
+    run('/reset', FAMILY, deps);
+    expect(deps.clearSession).toHaveBeenCalledWith(FAMILY, undefined);
+    expect(deps.stopConversation).toHaveBeenCalled();
+  });
+
+  it("/tasks lists the group's tasks, or all of them in main", () => {
+    const task = {
+      schedule_type: 'cron' as const,
+      schedule_value: '0 9 * * *',
+      context_mode: 'isolated' as const,
+      next_run: '2024-06-01T09:00:00.000Z',
+      status: 'active' as const,
+      created_at: '2024-01-01T00:00:00.000Z',
+    };
+    createTask({
+      ...task,
+      id: 'task-family',
+      group_folder: 'whatsapp_family',
+      chat_jid: 'family@g.us',
+      prompt: 'Water the plants',
+    });
+    createTask({
+      ...task,
+      id: 'task-main',
+      group_folder: 'whatsapp_main',
+      chat_jid: 'main@g.us',
+      prompt: 'Daily briefing',
+    });
+
+    const family = run('/tasks', FAMILY, makeDeps());
+    expect(family).toContain('task-family');
+    expect(family).toContain('Water the plants');
+    expect(family).not.toContain('task-main');
+
+    const main = run('/tasks', MAIN, makeDeps(), 'main@g.us');
+    expect(main).toContain('task-family [whatsapp_family]');
+    expect(main).toContain('task-main [whatsapp_main]');
+  });
+
+  it('/model shows, sets and resets the model', () => {
+    const deps = makeDeps();
+    expect(run('/model', FAMILY, deps)).toBe('Model: default');
+
+    run('/model sonnet', FAMILY, deps);
+    expect(deps.updateGroup).toHaveBeenCalledWith('family@g.us', {
+      ...FAMILY,
+      model: 'sonnet',
+    });
+
+    run('/model default', { ...FAMILY, model: 'sonnet' }, deps);
+    expect(deps.updateGroup).toHaveBeenLastCalledWith('family@g.us', {
+      ...FAMILY,
+      model: undefined,
+    });
+
+    expect(run('/model rm -rf', FAMILY, deps)).toContain('Not a model name');
+    expect(deps.updateGroup).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Slash commands handled on the host, without starting a container:
+ * /help, /status, /stop, /reset, /tasks and /model. The router runs them
+ * before a message is stored, so they never reach the agent, and replies
+ * through the chat's channel.
+ */
+import { ChannelStatus } from './channel-supervisor.js';
+import { getAllTasks, getOutboxCounts, getTasksForGroup } from './db.js';
+import { ConversationStatus } from './group-queue.js';
+import { formatLocalTime } from './timezone.js';
+import { RegisteredGroup } from './types.js';
+
+// Model names or aliases, e.g. "sonnet" or "claude-opus-4-1"
+const MODEL_PATTERN = /^[\w.:-]{1,100}$/;
+
+export interface CommandContext {
+  chatJid: string;
+  threadId?: string;
+  group: RegisteredGroup;
+  args: string; // Text after the command name, trimmed
+}
+
+export interface CommandDeps {
+  timezone: string;
+  channelName: (jid: string) => string | undefined;
+  channelStatus: () => ChannelStatus[];
+  conversationStatus: (
+    chatJid: string,
+    threadId?: string,
+  ) => ConversationStatus;
+  // Cancel the conversation's run; false when none is running
+  stopConversation: (chatJid: string, threadId?: string) => boolean;
+  hasSession: (group: RegisteredGroup, threadId?: string) => boolean;
+  clearSession: (group: RegisteredGroup, threadId?: string) => void;
+  updateGroup: (jid: string, group: RegisteredGroup) => void;
+}
+
+interface Command {
+  usage: string;
+  description: string;
+  run: (ctx: CommandContext, deps: CommandDeps) => string;
+}
+
+const COMMANDS: Record<string, Command> = {
+  help: {
+    usage: '/help',
+    description: 'List these commands',
+    run: () =>
+      Object.values(COMMANDS)
+        .map((c) => `${c.usage} — ${c.description}`)
+        .join('\n'),
+  },
+
+  status: {
+    usage: '/status',
+    description: 'Show whether the agent is running and the channels are up',
+    run: ({ chatJid, threadId, group }, deps) => {
+      const s = deps.conversationStatus(chatJid, threadId);
+      const agent = s.runningTaskId
+        ? `running task ${s.runningTaskId}`
+        : s.active
+          ? s.idleWaiting
+            ? 'idle, waiting for messages'
+            : 'working'
+          : 'not running';
+      const queued = [
+        s.pendingMessages ? 'messages' : '',
+        s.pendingTasks ? `${s.pendingTasks} task(s)` : '',
+      ].filter(Boolean);
+      const outbox = getOutboxCounts();
+      // The main group sees every channel; others only their own
+      const own = deps.channelName(chatJid);
+      const channels = deps
+        .channelStatus()
+        .filter((c) => group.isMain || c.name === own)
+        .map(
+          (c) =>
+            `• ${c.name}: ${c.health}${c.lastError ? ` (${c.lastError})` : ''}`,
+        );
+      return [
+        `Agent: ${agent}${s.paused ? ' (paused while the channel is down)' : ''}`,
+        `Queued: ${queued.length ? queued.join(', ') : 'nothing'}`,
+        `Session: ${deps.hasSession(group, threadId) ? 'resumed on the next run' : 'new on the next run'}`,
+        `Model: ${group.model ?? 'default'}`,
+        `Outbox: ${outbox.pending} pending, ${outbox.failed} failed`,
+        ...(channels.length ? ['Channels:', ...channels] : []),
+      ].join('\n');
+    },
+  },
+
+  stop: {
+    usage: '/stop',
+    description: 'Stop the agent working in this conversation',
+    run: ({ chatJid, threadId }, deps) =>
+      deps.stopConversation(chatJid, threadId)
+        ? 'Stopping the agent.'
+        : 'The agent is not running.',
+  },
+
+  reset: {
+    usage: '/reset',
+    description: 'Start a fresh session; the agent forgets this conversation',
+    run: ({ chatJid, threadId, group }, deps) => {
+      deps.clearSession(group, threadId);
+      // A running container would carry on with the old session
+      deps.stopConversation(chatJid, threadId);
+      return 'Session cleared. The next message starts a new one.';
+    },
+  },
+
+  tasks: {
+    usage: '/tasks',
+    description: 'List scheduled tasks',
+    run: ({ group }, deps) => {
+      const tasks = group.isMain
+        ? getAllTasks()
+        : getTasksForGroup(group.folder);
+      if (tasks.length === 0) return 'No scheduled tasks.';
+      return tasks
+        .map((t) => {
+          const next = t.next_run
+            ? `next ${formatLocalTime(t.next_run, deps.timezone)}`
+            : 'no next run';
+          const where = group.isMain ? ` [${t.group_folder}]` : '';
+          const prompt =
+            t.prompt.length > 60 ? `${t.prompt.slice(0, 57)}...` : t.prompt;
+          return `• ${t.id}${where} (${t.status}, ${t.schedule_type} ${t.schedule_value}, ${next}): ${prompt}`;
+        })
+        .join('\n');
+    },
+  },
+
+  model: {
+    usage: '/model [name|default]',
+    description: "Show or change this group's Claude model",
+    run: ({ chatJid, group, args }, deps) => {
+      if (!args) return `Model: ${group.model ?? 'default'}`;
+      if (args === 'default') {
+        deps.updateGroup(chatJid, { ...group, model: undefined });
+        return 'Model reset to the default from the next run.';
+      }
+      if (!MODEL_PATTERN.test(args)) return `Not a model name: ${args}`;
+      deps.updateGroup(chatJid, { ...group, model: args });
+      return `Model set to ${args} from the next run.`;
+    },
+  },
+};
+
+/**
+ * Recognise a command: a known name after a leading slash, optionally
+ * addressed to a bot ("/status@andy_bot"). Anything else is a message.
+ */
+export function parseCommand(
+  text: string,
+): { name: string; args: string } | undefined {
+  const match = text.trim().match(/^\/([a-z]+)(?:@\S+)?(?:\s+([\s\S]*))?$/i);
+  if (!match) return undefined;
+  const name = match[1].toLowerCase();
+  if (!Object.hasOwn(COMMANDS, name)) return undefined;
+  return { name, args: (match[2] ?? '').trim() };
+}
+
+/** Run a parsed command and return the reply. */
+export function runCommand(
+  name: string,
+  ctx: CommandContext,
+  deps: CommandDeps,
+): string {
+  return COMMANDS[name].run(ctx, deps);
+}
@@ -6,15 +6,38 @@ import { readEnvFile } from './env.js';
 // Read config values from .env (falls back to process.env).
 // Secrets (API keys, tokens) are NOT read here — they are loaded only
 // by the credential proxy (credential-proxy.ts), never exposed to containers.
-const envConfig = readEnvFile(['ASSISTANT_NAME', 'ASSISTANT_HAS_OWN_NUMBER']);
+const envConfig = readEnvFile([
+  'ASSISTANT_NAME',
+  'ASSISTANT_HAS_OWN_NUMBER',
+  'CHANNEL_INSTANCES',
+]);
 
 export const ASSISTANT_NAME =
   process.env.ASSISTANT_NAME || envConfig.ASSISTANT_NAME || 'Andy';
 export const ASSISTANT_HAS_OWN_NUMBER =
   (process.env.ASSISTANT_HAS_OWN_NUMBER ||
     envConfig.ASSISTANT_HAS_OWN_NUMBER) === 'true';
-export const POLL_INTERVAL = 2000;
+// Named channel instances to start besides the default ones, e.g.
+// "telegram:work,telegram:personal". Each reads its own credentials.
+export const CHANNEL_INSTANCES = (
+  process.env.CHANNEL_INSTANCES ||
+  envConfig.CHANNEL_INSTANCES ||
+  ''
+)
+  .split(',')
+  .map((s) => s.trim())
+  .filter(Boolean);
+// New messages wake the message loop directly; this sweep is a safety net
+// for anything the wake-up missed
+export const MESSAGE_SWEEP_INTERVAL = 30000;
 export const SCHEDULER_POLL_INTERVAL = 60000;
+export const OUTBOX_POLL_INTERVAL = 5000;
+export const CHANNEL_HEALTH_INTERVAL = 10000;
+// How long a channel may be down before the main group is told
+export const CHANNEL_DOWN_ALERT_MS = parseInt(
+  process.env.CHANNEL_DOWN_ALERT_MS || '300000',
+  10,
+); // 5min default
 
 // Absolute paths needed for container mounts
 const PROJECT_ROOT = process.cwd();
@@ -51,12 +74,33 @@ export const CREDENTIAL_PROXY_PORT = parseInt(
   process.env.CREDENTIAL_PROXY_PORT || '3001',
   10,
 );
+export const MAX_ATTACHMENT_SIZE = parseInt(
+  process.env.MAX_ATTACHMENT_SIZE || '26214400',
+  10,
+); // 25MB default — applies to inbound media and files agents send
 export const IPC_POLL_INTERVAL = 1000;
+// How long a cancelled container gets to wind down before it is stopped
+export const CANCEL_GRACE_PERIOD = 10000;
+// After a trigger, wait this long for follow-up messages before answering,
+// so a request sent as several messages arrives as one. 0 answers at once.
+// Groups can set their own with debounceMs.
+export const MESSAGE_DEBOUNCE_MS = parseInt(
+  process.env.MESSAGE_DEBOUNCE_MS || '0',
+  10,
+);
+export const MESSAGE_DEBOUNCE_MAX_MS = parseInt(
+  process.env.MESSAGE_DEBOUNCE_MAX_MS || '10000',
+  10,
+); // 10s default — longest a trigger waits, however long the chatter lasts
 export const IDLE_TIMEOUT = parseInt(process.env.IDLE_TIMEOUT || '1800000', 10); // 30min default — how long to keep container alive after last result
 export const MAX_CONCURRENT_CONTAINERS = Math.max(
   1,
   parseInt(process.env.MAX_CONCURRENT_CONTAINERS || '5', 10) || 5,
 );
+// How threads within one group share containers: 'serial' runs one thread's
+// container at a time, 'parallel' lets each thread run its own
+export const THREAD_POLICY: 'serial' | 'parallel' =
+  process.env.THREAD_POLICY === 'parallel' ? 'parallel' : 'serial';
 
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
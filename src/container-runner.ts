@@ -16,7 +16,11 @@ import {
   IDLE_TIMEOUT,
   TIMEZONE,
 } from './config.js';
-import { resolveGroupFolderPath, resolveGroupIpcPath } from './group-folder.js';
+import {
+  resolveGroupFolderPath,
+  resolveGroupIpcPath,
+  resolveIpcInputPath,
+} from './group-folder.js';
 import { logger } from './logger.js';
 import {
   CONTAINER_HOST_GATEWAY,
@@ -27,7 +31,7 @@ import {
 } from './container-runtime.js';
 import { detectAuthMode } from './credential-proxy.js';
 import { validateAdditionalMounts } from './mount-security.js';
-import { RegisteredGroup } from './types.js';
+import { Feedback, Person, RegisteredGroup } from './types.js';
 
 // Sentinel markers for robust output parsing (must match agent-runner)
 const OUTPUT_START_MARKER = '---NANOCLAW_OUTPUT_START---';
@@ -38,9 +42,11 @@ export interface ContainerInput {
   sessionId?: string;
   groupFolder: string;
   chatJid: string;
+  threadId?: string;
   isMain: boolean;
   isScheduledTask?: boolean;
   assistantName?: string;
+  model?: string; // Claude model to run; the SDK's default when unset
 }
 
 export interface ContainerOutput {
@@ -59,6 +65,7 @@ interface VolumeMount {
 function buildVolumeMounts(
   group: RegisteredGroup,
   isMain: boolean,
+  threadId?: string,
 ): VolumeMount[] {
   const mounts: VolumeMount[] = [];
   const projectRoot = process.cwd();
@@ -175,6 +182,18 @@ function buildVolumeMounts(
     readonly: false,
   });
 
+  // A thread's container reads follow-ups from the thread's own input
+  // directory, so parallel threads don't take each other's messages
+  if (threadId) {
+    const threadInputDir = resolveIpcInputPath(group.folder, threadId);
+    fs.mkdirSync(threadInputDir, { recursive: true });
+    mounts.push({
+      hostPath: threadInputDir,
+      containerPath: '/workspace/ipc/input',
+      readonly: false,
+    });
+  }
+
   // Copy agent-runner source into a per-group writable location so agents
   // can customize it (add tools, change behavior) without affecting other
   // groups. Recompiled on container startup via entrypoint.sh.
@@ -275,7 +294,7 @@ export async function runContainerAgent(
   const groupDir = resolveGroupFolderPath(group.folder);
   fs.mkdirSync(groupDir, { recursive: true });
 
-  const mounts = buildVolumeMounts(group, input.isMain);
+  const mounts = buildVolumeMounts(group, input.isMain, input.threadId);
   const safeName = group.folder.replace(/[^a-zA-Z0-9-]/g, '-');
   const containerName = `nanoclaw-${safeName}-${Date.now()}`;
   const containerArgs = buildContainerArgs(mounts, containerName);
@@ -705,3 +724,34 @@ export function writeGroupsSnapshot(
     ),
   );
 }
+
+/**
+ * Write the group's feedback (reactions to the assistant's messages) for
+ * the get_feedback tool to read.
+ */
+export function writeFeedbackSnapshot(
+  groupFolder: string,
+  feedback: Feedback[],
+): void {
+  const groupIpcDir = resolveGroupIpcPath(groupFolder);
+  fs.mkdirSync(groupIpcDir, { recursive: true });
+
+  const feedbackFile = path.join(groupIpcDir, 'feedback.json');
+  fs.writeFileSync(feedbackFile, JSON.stringify(feedback, null, 2));
+}
+
+/**
+ * Write the linked identities for the list_people tool. Only the main
+ * group manages them, so other groups get an empty list.
+ */
+export function writePeopleSnapshot(
+  groupFolder: string,
+  isMain: boolean,
+  people: Person[],
+): void {
+  const groupIpcDir = resolveGroupIpcPath(groupFolder);
+  fs.mkdirSync(groupIpcDir, { recursive: true });
+
+  const peopleFile = path.join(groupIpcDir, 'people.json');
+  fs.writeFileSync(peopleFile, JSON.stringify(isMain ? people : [], null, 2));
+}
@@ -3,16 +3,40 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import {
   _initTestDatabase,
   createTask,
+  deleteSession,
   deleteTask,
   getAllChats,
+  getAllPeople,
   getAllRegisteredGroups,
+  getAllSessions,
+  getAllThreadSessions,
+  getAttachments,
+  getFeedback,
+  getLastGroupSync,
+  getMessageEdits,
   getMessagesSince,
   getNewMessages,
+  getPersonBySender,
+  getRegisteredGroup,
+  getSession,
   getTaskById,
+  getThreadIdsSince,
+  getThreadMessagesSince,
+  linkIdentity,
+  markMessageDeleted,
+  recordMessageEdit,
+  removeReactionById,
+  setLastGroupSync,
   setRegisteredGroup,
+  setSession,
+  storeAttachment,
   storeChatMetadata,
   storeMessage,
+  storeMessageDirect,
+  storeReaction,
+  unlinkIdentity,
   updateTask,
+  upsertPerson,
 } from './db.js';
 
 beforeEach(() => {
@@ -140,6 +164,457 @@ describe('storeMessage', () => {
   });
 });
 
+// --- reply/thread references ---
+
+describe('reply and thread ids', () => {
+  it('round-trips reply_to_id and thread_id', () => {
+    storeChatMetadata('group@g.us', '2024-01-01T00:00:00.000Z');
+    storeMessage({
+      id: 'msg-2',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: '@Andy and this one?',
+      timestamp: '2024-01-01T00:00:02.000Z',
+      reply_to_id: 'msg-1',
+      thread_id: 'root',
+    });
+    store({
+      id: 'msg-3',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: 'plain',
+      timestamp: '2024-01-01T00:00:03.000Z',
+    });
+
+    const {
+      messages: [reply, plain],
+    } = getNewMessages(['group@g.us'], '', 'Andy');
+    expect(reply).toMatchObject({ reply_to_id: 'msg-1', thread_id: 'root' });
+    expect(plain.reply_to_id).toBeUndefined();
+    expect(plain.thread_id).toBeUndefined();
+  });
+});
+
+// --- thread-scoped history ---
+
+describe('thread history', () => {
+  beforeEach(() => {
+    storeChatMetadata('group@g.us', '2024-01-01T00:00:00.000Z');
+    const base = {
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+    };
+    storeMessage({
+      ...base,
+      id: 'root',
+      content: 'kickoff',
+      timestamp: '2024-01-01T00:00:01.000Z',
+    });
+    storeMessage({
+      ...base,
+      id: 'side',
+      content: 'unrelated',
+      timestamp: '2024-01-01T00:00:02.000Z',
+    });
+    storeMessage({
+      ...base,
+      id: 't1',
+      content: 'in thread',
+      timestamp: '2024-01-01T00:00:03.000Z',
+      thread_id: 'root',
+    });
+    storeMessage({
+      ...base,
+      id: 'o1',
+      content: 'other thread',
+      timestamp: '2024-01-01T00:00:04.000Z',
+      thread_id: 'side',
+    });
+  });
+
+  it('leaves thread messages out of the chat history', () => {
+    const ids = getMessagesSince('group@g.us', '', 'Andy').map((m) => m.id);
+    expect(ids).toEqual(['root', 'side']);
+  });
+
+  it('returns a thread with the message that started it', () => {
+    const ids = getThreadMessagesSince('group@g.us', 'root', '', 'Andy').map(
+      (m) => m.id,
+    );
+    expect(ids).toEqual(['root', 't1']);
+    expect(
+      getThreadMessagesSince(
+        'group@g.us',
+        'root',
+        '2024-01-01T00:00:01.000Z',
+        'Andy',
+      ).map((m) => m.id),
+    ).toEqual(['t1']);
+  });
+
+  it('lists threads with newer messages', () => {
+    expect(getThreadIdsSince('group@g.us', '').sort()).toEqual([
+      'root',
+      'side',
+    ]);
+    expect(getThreadIdsSince('group@g.us', '2024-01-01T00:00:03.000Z')).toEqual(
+      ['side'],
+    );
+  });
+});
+
+// --- edits and deletions ---
+
+describe('message edits and deletions', () => {
+  beforeEach(() => {
+    storeChatMetadata('group@g.us', '2024-01-01T00:00:00.000Z');
+    store({
+      id: 'msg-1',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: '@Andy meet at 2',
+      timestamp: '2024-01-01T00:00:01.000Z',
+    });
+  });
+
+  it('returns the edited text and keeps the earlier versions', () => {
+    expect(
+      recordMessageEdit(
+        'msg-1',
+        'group@g.us',
+        '123@s.whatsapp.net',
+        '@Andy meet at 3',
+        '2024-01-01T00:01:00.000Z',
+      ),
+    ).toBe(true);
+    recordMessageEdit(
+      'msg-1',
+      'group@g.us',
+      '123@s.whatsapp.net',
+      '@Andy meet at 4',
+      '2024-01-01T00:02:00.000Z',
+    );
+
+    const [msg] = getMessagesSince('group@g.us', '', 'Andy');
+    expect(msg.content).toBe('@Andy meet at 4');
+    expect(msg.edited_at).toBe('2024-01-01T00:02:00.000Z');
+    expect(getMessageEdits('msg-1', 'group@g.us')).toEqual([
+      { content: '@Andy meet at 2', edited_at: '2024-01-01T00:01:00.000Z' },
+      { content: '@Andy meet at 3', edited_at: '2024-01-01T00:02:00.000Z' },
+    ]);
+  });
+
+  it('ignores edits to messages it never stored', () => {
+    expect(
+      recordMessageEdit(
+        'nope',
+        'group@g.us',
+        '123@s.whatsapp.net',
+        'x',
+        '2024-01-01T00:01:00.000Z',
+      ),
+    ).toBe(false);
+  });
+
+  it('ignores edits from anyone but the sender', () => {
+    expect(
+      recordMessageEdit(
+        'msg-1',
+        'group@g.us',
+        '456@s.whatsapp.net',
+        '@Andy wire the money',
+        '2024-01-01T00:01:00.000Z',
+      ),
+    ).toBe(false);
+    const [msg] = getMessagesSince('group@g.us', '', 'Andy');
+    expect(msg.content).toBe('@Andy meet at 2');
+    expect(msg.edited_at).toBeFalsy();
+    expect(getMessageEdits('msg-1', 'group@g.us')).toEqual([]);
+  });
+
+  it('keeps an edit when the original is redelivered', () => {
+    recordMessageEdit(
+      'msg-1',
+      'group@g.us',
+      '123@s.whatsapp.net',
+      '@Andy meet at 3',
+      '2024-01-01T00:01:00.000Z',
+    );
+    store({
+      id: 'msg-1',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: '@Andy meet at 2',
+      timestamp: '2024-01-01T00:00:01.000Z',
+    });
+    const [msg] = getMessagesSince('group@g.us', '', 'Andy');
+    expect(msg.content).toBe('@Andy meet at 3');
+  });
+
+  it('leaves deleted messages out, even after redelivery', () => {
+    expect(
+      markMessageDeleted('msg-1', 'group@g.us', '2024-01-01T00:01:00.000Z'),
+    ).toBe(true);
+    expect(getMessagesSince('group@g.us', '', 'Andy')).toHaveLength(0);
+    expect(getNewMessages(['group@g.us'], '', 'Andy').messages).toHaveLength(0);
+
+    store({
+      id: 'msg-1',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: '@Andy meet at 2',
+      timestamp: '2024-01-01T00:00:01.000Z',
+    });
+    expect(getMessagesSince('group@g.us', '', 'Andy')).toHaveLength(0);
+  });
+});
+
+// --- reactions ---
+
+describe('reactions', () => {
+  const thumbsUp = {
+    message_id: 'bot-1',
+    sender: '123@s.whatsapp.net',
+    sender_name: 'Alice',
+    emoji: '👍',
+    timestamp: '2024-01-01T00:01:00.000Z',
+  };
+
+  beforeEach(() => {
+    storeChatMetadata('group@g.us', '2024-01-01T00:00:00.000Z');
+    store({
+      id: 'msg-1',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: '@Andy what should I cook?',
+      timestamp: '2024-01-01T00:00:01.000Z',
+    });
+    storeMessageDirect({
+      id: 'bot-1',
+      chat_jid: 'group@g.us',
+      sender: 'Andy',
+      sender_name: 'Andy',
+      content: 'Try a risotto',
+      timestamp: '2024-01-01T00:00:02.000Z',
+      is_from_me: true,
+      is_bot_message: true,
+    });
+  });
+
+  it('reads reactions to assistant messages as feedback', () => {
+    storeReaction('group@g.us', thumbsUp);
+    storeReaction('group@g.us', {
+      ...thumbsUp,
+      message_id: 'msg-1',
+      sender: '456@s.whatsapp.net',
+      sender_name: 'Bob',
+    });
+
+    expect(getFeedback('group@g.us')).toEqual([
+      {
+        message_id: 'bot-1',
+        content: 'Try a risotto',
+        emoji: '👍',
+        sender_name: 'Alice',
+        timestamp: '2024-01-01T00:01:00.000Z',
+      },
+    ]);
+  });
+
+  it('drops reactions the sender takes back', () => {
+    storeReaction('group@g.us', thumbsUp);
+    storeReaction('group@g.us', {
+      ...thumbsUp,
+      emoji: '❤️',
+      reaction_id: '$heart',
+    });
+    storeReaction('group@g.us', { ...thumbsUp, removed: true });
+    expect(getFeedback('group@g.us').map((f) => f.emoji)).toEqual(['❤️']);
+
+    expect(removeReactionById('group@g.us', '$heart')).toBe(true);
+    expect(removeReactionById('group@g.us', '$heart')).toBe(false);
+    expect(getFeedback('group@g.us')).toEqual([]);
+  });
+});
+
+// --- identities ---
+
+describe('identities', () => {
+  it('resolves every linked sender ID to the same person', () => {
+    upsertPerson('alice', { display_name: 'Alice', roles: ['admin'] });
+    linkIdentity('signal', '+15551112222', 'alice');
+    linkIdentity('matrix', '@alice:example.org', 'alice');
+
+    const expected = {
+      id: 'alice',
+      display_name: 'Alice',
+      roles: ['admin'],
+      identities: [
+        { channel: 'matrix', sender: '@alice:example.org' },
+        { channel: 'signal', sender: '+15551112222' },
+      ],
+    };
+    expect(getPersonBySender('signal', '+15551112222')).toEqual(expected);
+    expect(getPersonBySender('matrix', '@alice:example.org')).toEqual(expected);
+    expect(getPersonBySender('signal', '+15559999999')).toBeUndefined();
+  });
+
+  it('keeps the same sender ID on another channel apart', () => {
+    upsertPerson('alice', { display_name: 'Alice' });
+    linkIdentity('signal', '+15551112222', 'alice');
+    expect(getPersonBySender('whatsapp', '+15551112222')).toBeUndefined();
+    expect(unlinkIdentity('whatsapp', '+15551112222')).toBe(false);
+  });
+
+  it('updates only the fields given and needs a name for a new person', () => {
+    expect(() => upsertPerson('bob', {})).toThrow(/display name/);
+    upsertPerson('bob', { display_name: 'Bob', roles: ['family'] });
+    upsertPerson('bob', { display_name: 'Robert' });
+    expect(getAllPeople()).toMatchObject([
+      { id: 'bob', display_name: 'Robert', roles: ['family'] },
+    ]);
+  });
+
+  it('moves a relinked sender and drops a person with no identities left', () => {
+    upsertPerson('alice', { display_name: 'Alice' });
+    upsertPerson('bob', { display_name: 'Bob' });
+    linkIdentity('matrix', '@shared:example.org', 'alice');
+    linkIdentity('matrix', '@shared:example.org', 'bob');
+    expect(getPersonBySender('matrix', '@shared:example.org')?.id).toBe('bob');
+
+    expect(unlinkIdentity('matrix', '@shared:example.org')).toBe(true);
+    expect(unlinkIdentity('matrix', '@shared:example.org')).toBe(false);
+    expect(getAllPeople().map((p) => p.id)).toEqual(['alice']);
+  });
+});
+
+// --- group sync ---
+
+describe('last group sync', () => {
+  it('keeps a timestamp per channel', () => {
+    setLastGroupSync('signal');
+    expect(getLastGroupSync('signal')).not.toBeNull();
+    expect(getLastGroupSync('signal:work')).toBeNull();
+    expect(getLastGroupSync('matrix')).toBeNull();
+    expect(getLastGroupSync()).toBeNull();
+  });
+});
+
+// --- sessions ---
+
+describe('sessions', () => {
+  it('keeps thread sessions apart from the group session', () => {
+    setSession('team', 'sess-main');
+    setSession('team', 'sess-a', 'thread-a');
+    setSession('team', 'sess-b', 'thread-b');
+
+    expect(getSession('team')).toBe('sess-main');
+    expect(getSession('team', 'thread-a')).toBe('sess-a');
+    expect(getSession('team', 'thread-c')).toBeUndefined();
+    expect(getAllSessions()).toEqual({ team: 'sess-main' });
+    expect(getAllThreadSessions()).toEqual({
+      team: { 'thread-a': 'sess-a', 'thread-b': 'sess-b' },
+    });
+  });
+
+  it('deletes one session without touching the others', () => {
+    setSession('team', 'sess-main');
+    setSession('team', 'sess-a', 'thread-a');
+
+    deleteSession('team', 'thread-a');
+    expect(getSession('team', 'thread-a')).toBeUndefined();
+    expect(getSession('team')).toBe('sess-main');
+
+    deleteSession('team');
+    expect(getSession('team')).toBeUndefined();
+  });
+});
+
+// --- attachments ---
+
+describe('attachments', () => {
+  const photo = {
+    path: 'attachments/msg-1/1-photo.jpg',
+    mime: 'image/jpeg',
+    filename: 'photo.jpg',
+    size: 1024,
+  };
+
+  beforeEach(() => {
+    storeChatMetadata('group@g.us', '2024-01-01T00:00:00.000Z');
+  });
+
+  it('returns attachments with the messages they belong to', () => {
+    store({
+      id: 'msg-1',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: 'look',
+      timestamp: '2024-01-01T00:00:01.000Z',
+    });
+    storeAttachment('msg-1', 'group@g.us', photo);
+
+    const since = getMessagesSince('group@g.us', '', 'Andy');
+    expect(since[0].attachments).toEqual([photo]);
+    const { messages } = getNewMessages(['group@g.us'], '', 'Andy');
+    expect(messages[0].attachments).toEqual([photo]);
+  });
+
+  it('includes media-only messages that have no text', () => {
+    store({
+      id: 'msg-1',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: '',
+      timestamp: '2024-01-01T00:00:01.000Z',
+    });
+    storeAttachment('msg-1', 'group@g.us', photo);
+
+    const messages = getMessagesSince('group@g.us', '', 'Andy');
+    expect(messages).toHaveLength(1);
+    expect(messages[0].content).toBe('');
+  });
+
+  it('replaces a redelivered attachment instead of duplicating it', () => {
+    store({
+      id: 'msg-1',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: 'look',
+      timestamp: '2024-01-01T00:00:01.000Z',
+    });
+    storeAttachment('msg-1', 'group@g.us', photo);
+    storeAttachment('msg-1', 'group@g.us', { ...photo, size: 2048 });
+
+    expect(getAttachments('msg-1', 'group@g.us')).toEqual([
+      { ...photo, size: 2048 },
+    ]);
+  });
+
+  it('leaves messages without attachments untouched', () => {
+    store({
+      id: 'msg-2',
+      chat_jid: 'group@g.us',
+      sender: '123@s.whatsapp.net',
+      sender_name: 'Alice',
+      content: 'text only',
+      timestamp: '2024-01-01T00:00:01.000Z',
+    });
+    const messages = getMessagesSince('group@g.us', '', 'Andy');
+    expect(messages[0].attachments).toBeUndefined();
+  });
+});
+
 // --- getMessagesSince ---
 
 describe('getMessagesSince', () => {
@@ -409,7 +884,7 @@ describe('message query LIMIT', () => {
     }
   });
 
-  it('getNewMessages caps to limit and returns most recent in chronological order', () => {
+  it('getNewMessages caps to limit and returns the oldest in chronological order', () => {
     const { messages, newTimestamp } = getNewMessages(
       ['group@g.us'],
       '2024-01-01T00:00:00.000Z',
@@ -417,12 +892,62 @@ describe('message query LIMIT', () => {
       3,
     );
     expect(messages).toHaveLength(3);
-    expect(messages[0].content).toBe('message 8');
-    expect(messages[2].content).toBe('message 10');
+    expect(messages[0].content).toBe('message 1');
+    expect(messages[2].content).toBe('message 3');
     // Chronological order preserved
     expect(messages[1].timestamp > messages[0].timestamp).toBe(true);
     // newTimestamp reflects latest returned row
-    expect(newTimestamp).toBe('2024-01-01T00:00:10.000Z');
+    expect(newTimestamp).toBe('2024-01-01T00:00:03.000Z');
+  });
+
+  it('getNewMessages reads a burst page by page without losing any', () => {
+    // Three more sharing the last timestamp, straddling a page boundary
+    for (let i = 11; i <= 13; i++) {
+      store({
+        id: `lim-${i}`,
+        chat_jid: 'group@g.us',
+        sender: 'user@s.whatsapp.net',
+        sender_name: 'User',
+        content: `message ${i}`,
+        timestamp: '2024-01-01T00:00:10.000Z',
+      });
+    }
+
+    const seen: string[] = [];
+    let cursor = '2024-01-01T00:00:00.000Z';
+    for (;;) {
+      const page = getNewMessages(['group@g.us'], cursor, 'Andy', 5);
+      if (page.messages.length === 0) break;
+      seen.push(...page.messages.map((m) => m.id));
+      cursor = page.newTimestamp;
+    }
+    expect(seen.sort()).toEqual(
+      Array.from({ length: 13 }, (_, i) => `lim-${i + 1}`).sort(),
+    );
+  });
+
+  it('getNewMessages returns a same-timestamp run larger than the page in full', () => {
+    for (let i = 11; i <= 18; i++) {
+      store({
+        id: `lim-${i}`,
+        chat_jid: 'group@g.us',
+        sender: 'user@s.whatsapp.net',
+        sender_name: 'User',
+        content: `message ${i}`,
+        timestamp: '2024-01-01T00:00:30.000Z',
+      });
+    }
+
+    const { messages, newTimestamp } = getNewMessages(
+      ['group@g.us'],
+      '2024-01-01T00:00:10.000Z',
+      'Andy',
+      5,
+    );
+    expect(messages.map((m) => m.id).sort()).toEqual(
+      Array.from({ length: 8 }, (_, i) => `lim-${i + 11}`).sort(),
+    );
+    expect(newTimestamp).toBe('2024-01-01T00:00:30.000Z');
   });
 
   it('getMessagesSince caps to limit and returns most recent in chronological order', () => {
@@ -482,3 +1007,64 @@ describe('registered group isMain', () => {
     expect(group.isMain).toBeUndefined();
   });
 });
+
+// --- RegisteredGroup triggerMode round-trip ---
+
+describe('registered group triggerMode', () => {
+  it('persists triggerMode through set/get round-trip', () => {
+    setRegisteredGroup('group@g.us', {
+      name: 'Dev Team',
+      folder: 'whatsapp_dev-team',
+      trigger: '@Andy, @Bot',
+      added_at: '2024-01-01T00:00:00.000Z',
+      triggerMode: 'mention',
+    });
+
+    const group = getAllRegisteredGroups()['group@g.us'];
+    expect(group.trigger).toBe('@Andy, @Bot');
+    expect(group.triggerMode).toBe('mention');
+  });
+
+  it('omits triggerMode when not set', () => {
+    setRegisteredGroup('group@g.us', {
+      name: 'Dev Team',
+      folder: 'whatsapp_dev-team',
+      trigger: '@Andy',
+      added_at: '2024-01-01T00:00:00.000Z',
+    });
+
+    expect(getAllRegisteredGroups()['group@g.us'].triggerMode).toBeUndefined();
+  });
+});
+
+// --- RegisteredGroup debounceMs round-trip ---
+
+describe('registered group debounceMs', () => {
+  it('persists debounceMs, including 0, and omits it when not set', () => {
+    setRegisteredGroup('slow@g.us', {
+      name: 'Slow Typers',
+      folder: 'whatsapp_slow',
+      trigger: '@Andy',
+      added_at: '2024-01-01T00:00:00.000Z',
+      debounceMs: 3000,
+    });
+    setRegisteredGroup('fast@g.us', {
+      name: 'Fast',
+      folder: 'whatsapp_fast',
+      trigger: '@Andy',
+      added_at: '2024-01-01T00:00:00.000Z',
+      debounceMs: 0,
+    });
+    setRegisteredGroup('plain@g.us', {
+      name: 'Plain',
+      folder: 'whatsapp_plain',
+      trigger: '@Andy',
+      added_at: '2024-01-01T00:00:00.000Z',
+    });
+
+    const groups = getAllRegisteredGroups();
+    expect(groups['slow@g.us'].debounceMs).toBe(3000);
+    expect(getRegisteredGroup('fast@g.us')!.debounceMs).toBe(0);
+    expect(groups['plain@g.us'].debounceMs).toBeUndefined();
+  });
+});
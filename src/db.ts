@@ -6,10 +6,17 @@ import { ASSISTANT_NAME, DATA_DIR, STORE_DIR } from './config.js';
 import { isValidGroupFolder } from './group-folder.js';
 import { logger } from './logger.js';
 import {
+  Feedback,
+  MessageAttachment,
   NewMessage,
+  OutboxItem,
+  Person,
+  PersonIdentity,
+  Reaction,
   RegisteredGroup,
   ScheduledTask,
   TaskRunLog,
+  TriggerMode,
 } from './types.js';
 
 let db: Database.Database;
@@ -37,6 +44,58 @@ function createSchema(database: Database.Database): void {
     );
     CREATE INDEX IF NOT EXISTS idx_timestamp ON messages(timestamp);
 
+    CREATE TABLE IF NOT EXISTS attachments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT NOT NULL,
+      chat_jid TEXT NOT NULL,
+      path TEXT NOT NULL,
+      mime TEXT NOT NULL,
+      filename TEXT,
+      size INTEGER NOT NULL,
+      UNIQUE (message_id, chat_jid, path),
+      FOREIGN KEY (message_id, chat_jid) REFERENCES messages(id, chat_jid)
+    );
+
+    CREATE TABLE IF NOT EXISTS message_edits (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT NOT NULL,
+      chat_jid TEXT NOT NULL,
+      content TEXT NOT NULL,
+      edited_at TEXT NOT NULL,
+      FOREIGN KEY (message_id, chat_jid) REFERENCES messages(id, chat_jid)
+    );
+    CREATE INDEX IF NOT EXISTS idx_message_edits ON message_edits(message_id, chat_jid);
+
+    CREATE TABLE IF NOT EXISTS reactions (
+      message_id TEXT NOT NULL,
+      chat_jid TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      sender_name TEXT,
+      emoji TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      reaction_id TEXT,
+      PRIMARY KEY (message_id, chat_jid, sender, emoji)
+    );
+    CREATE INDEX IF NOT EXISTS idx_reactions_chat ON reactions(chat_jid, timestamp);
+
+    CREATE TABLE IF NOT EXISTS outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_jid TEXT NOT NULL,
+      text TEXT NOT NULL,
+      reply_to TEXT,
+      thread_id TEXT,
+      dedupe_key TEXT UNIQUE,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT NOT NULL,
+      last_error TEXT,
+      message_id TEXT,
+      chunks_sent INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      sent_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_outbox_status ON outbox(status, chat_jid);
+
     CREATE TABLE IF NOT EXISTS scheduled_tasks (
       id TEXT PRIMARY KEY,
       group_folder TEXT NOT NULL,
@@ -73,6 +132,12 @@ function createSchema(database: Database.Database): void {
       group_folder TEXT PRIMARY KEY,
       session_id TEXT NOT NULL
     );
+    CREATE TABLE IF NOT EXISTS thread_sessions (
+      group_folder TEXT NOT NULL,
+      thread_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      PRIMARY KEY (group_folder, thread_id)
+    );
     CREATE TABLE IF NOT EXISTS registered_groups (
       jid TEXT PRIMARY KEY,
       name TEXT NOT NULL,
@@ -82,6 +147,20 @@ function createSchema(database: Database.Database): void {
       container_config TEXT,
       requires_trigger INTEGER DEFAULT 1
     );
+    CREATE TABLE IF NOT EXISTS people (
+      id TEXT PRIMARY KEY,
+      display_name TEXT NOT NULL,
+      roles TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS identities (
+      channel TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      person_id TEXT NOT NULL,
+      linked_at TEXT NOT NULL,
+      PRIMARY KEY (channel, sender),
+      FOREIGN KEY (person_id) REFERENCES people(id)
+    );
   `);
 
   // Add context_mode column if it doesn't exist (migration for existing DBs)
@@ -106,6 +185,34 @@ function createSchema(database: Database.Database): void {
     /* column already exists */
   }
 
+  // Add reply_to_id column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(`ALTER TABLE messages ADD COLUMN reply_to_id TEXT`);
+  } catch {
+    /* column already exists */
+  }
+
+  // Add thread_id column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(`ALTER TABLE messages ADD COLUMN thread_id TEXT`);
+  } catch {
+    /* column already exists */
+  }
+
+  // Add edited_at column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(`ALTER TABLE messages ADD COLUMN edited_at TEXT`);
+  } catch {
+    /* column already exists */
+  }
+
+  // Add deleted_at column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(`ALTER TABLE messages ADD COLUMN deleted_at TEXT`);
+  } catch {
+    /* column already exists */
+  }
+
   // Add is_main column if it doesn't exist (migration for existing DBs)
   try {
     database.exec(
@@ -119,6 +226,38 @@ function createSchema(database: Database.Database): void {
     /* column already exists */
   }
 
+  // Add trigger_mode column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(`ALTER TABLE registered_groups ADD COLUMN trigger_mode TEXT`);
+  } catch {
+    /* column already exists */
+  }
+
+  // Add debounce_ms column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(
+      `ALTER TABLE registered_groups ADD COLUMN debounce_ms INTEGER`,
+    );
+  } catch {
+    /* column already exists */
+  }
+
+  // Add model column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(`ALTER TABLE registered_groups ADD COLUMN model TEXT`);
+  } catch {
+    /* column already exists */
+  }
+
+  // Add chunks_sent column if it doesn't exist (migration for existing DBs)
+  try {
+    database.exec(
+      `ALTER TABLE outbox ADD COLUMN chunks_sent INTEGER NOT NULL DEFAULT 0`,
+    );
+  } catch {
+    /* column already exists */
+  }
+
   // Add channel and is_group columns if they don't exist (migration for existing DBs)
   try {
     database.exec(`ALTER TABLE chats ADD COLUMN channel TEXT`);
@@ -139,6 +278,37 @@ function createSchema(database: Database.Database): void {
   } catch {
     /* columns already exist */
   }
+
+  // Key identities by channel as well as sender (migration for existing DBs).
+  // Each link takes the channel of a chat the sender wrote in; links with no
+  // such chat keep an empty channel, which matches nothing.
+  const identityColumns = database
+    .prepare(`PRAGMA table_info(identities)`)
+    .all() as Array<{ name: string }>;
+  if (!identityColumns.some((c) => c.name === 'channel')) {
+    database.exec(`
+      ALTER TABLE identities RENAME TO identities_old;
+      DROP INDEX IF EXISTS idx_identities_person;
+      CREATE TABLE identities (
+        channel TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        person_id TEXT NOT NULL,
+        linked_at TEXT NOT NULL,
+        PRIMARY KEY (channel, sender),
+        FOREIGN KEY (person_id) REFERENCES people(id)
+      );
+      INSERT OR IGNORE INTO identities (channel, sender, person_id, linked_at)
+        SELECT COALESCE((
+          SELECT c.channel FROM messages m JOIN chats c ON c.jid = m.chat_jid
+          WHERE m.sender = o.sender AND c.channel IS NOT NULL LIMIT 1
+        ), ''), o.sender, o.person_id, o.linked_at
+        FROM identities_old o;
+      DROP TABLE identities_old;
+    `);
+  }
+  database.exec(
+    `CREATE INDEX IF NOT EXISTS idx_identities_person ON identities(person_id)`,
+  );
 }
 
 export function initDatabase(): void {
@@ -236,9 +406,11 @@ export function getAllChats(): ChatInfo[] {
 }
 
 /**
- * Get timestamp of last group metadata sync.
+ * Get timestamp of last group metadata sync. Channels that pass their name
+ * keep their own timestamp, so one channel's sync doesn't hold back another's.
  */
-export function getLastGroupSync(): string | null {
+export function getLastGroupSync(channel?: string): string | null {
+  if (channel) return getRouterState(`last_group_sync:${channel}`) ?? null;
   // Store sync time in a special chat entry
   const row = db
     .prepare(`SELECT last_message_time FROM chats WHERE jid = '__group_sync__'`)
@@ -249,8 +421,12 @@ export function getLastGroupSync(): string | null {
 /**
  * Record that group metadata was synced.
  */
-export function setLastGroupSync(): void {
+export function setLastGroupSync(channel?: string): void {
   const now = new Date().toISOString();
+  if (channel) {
+    setRouterState(`last_group_sync:${channel}`, now);
+    return;
+  }
   db.prepare(
     `INSERT OR REPLACE INTO chats (jid, name, last_message_time) VALUES ('__group_sync__', '__group_sync__', ?)`,
   ).run(now);
@@ -260,10 +436,24 @@ export function setLastGroupSync(): void {
  * Store a message with full content.
  * Only call this for registered groups where message history is needed.
  */
+// A redelivered message updates the stored row, but never reverts an edit
+// or brings back a deleted message
+const UPSERT_MESSAGE_SQL = `
+  INSERT INTO messages (id, chat_jid, sender, sender_name, content, timestamp, is_from_me, is_bot_message, reply_to_id, thread_id)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT (id, chat_jid) DO UPDATE SET
+    sender = excluded.sender,
+    sender_name = excluded.sender_name,
+    content = CASE WHEN edited_at IS NULL THEN excluded.content ELSE content END,
+    timestamp = excluded.timestamp,
+    is_from_me = excluded.is_from_me,
+    is_bot_message = excluded.is_bot_message,
+    reply_to_id = excluded.reply_to_id,
+    thread_id = excluded.thread_id
+`;
+
 export function storeMessage(msg: NewMessage): void {
-  db.prepare(
-    `INSERT OR REPLACE INTO messages (id, chat_jid, sender, sender_name, content, timestamp, is_from_me, is_bot_message) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-  ).run(
+  db.prepare(UPSERT_MESSAGE_SQL).run(
     msg.id,
     msg.chat_jid,
     msg.sender,
@@ -272,6 +462,8 @@ export function storeMessage(msg: NewMessage): void {
     msg.timestamp,
     msg.is_from_me ? 1 : 0,
     msg.is_bot_message ? 1 : 0,
+    msg.reply_to_id ?? null,
+    msg.thread_id ?? null,
   );
 }
 
@@ -287,10 +479,10 @@ export function storeMessageDirect(msg: {
   timestamp: string;
   is_from_me: boolean;
   is_bot_message?: boolean;
+  reply_to_id?: string;
+  thread_id?: string;
 }): void {
-  db.prepare(
-    `INSERT OR REPLACE INTO messages (id, chat_jid, sender, sender_name, content, timestamp, is_from_me, is_bot_message) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-  ).run(
+  db.prepare(UPSERT_MESSAGE_SQL).run(
     msg.id,
     msg.chat_jid,
     msg.sender,
@@ -299,6 +491,8 @@ export function storeMessageDirect(msg: {
     msg.timestamp,
     msg.is_from_me ? 1 : 0,
     msg.is_bot_message ? 1 : 0,
+    msg.reply_to_id ?? null,
+    msg.thread_id ?? null,
   );
 }
 
@@ -313,22 +507,46 @@ export function getNewMessages(
   const placeholders = jids.map(() => '?').join(',');
   // Filter bot messages using both the is_bot_message flag AND the content
   // prefix as a backstop for messages written before the migration ran.
-  // Subquery takes the N most recent, outer query re-sorts chronologically.
-  const sql = `
-    SELECT * FROM (
-      SELECT id, chat_jid, sender, sender_name, content, timestamp, is_from_me
-      FROM messages
-      WHERE timestamp > ? AND chat_jid IN (${placeholders})
-        AND is_bot_message = 0 AND content NOT LIKE ?
-        AND content != '' AND content IS NOT NULL
-      ORDER BY timestamp DESC
-      LIMIT ?
-    ) ORDER BY timestamp
+  const select = (where: string) => `
+    SELECT id, chat_jid, sender, sender_name, content, timestamp, is_from_me,
+      reply_to_id, thread_id, edited_at
+    FROM messages
+    WHERE ${where} AND chat_jid IN (${placeholders})
+      AND is_bot_message = 0 AND content NOT LIKE ?
+      AND deleted_at IS NULL
+      AND (content != '' OR EXISTS (
+        SELECT 1 FROM attachments a
+        WHERE a.message_id = messages.id AND a.chat_jid = messages.chat_jid
+      ))
+    ORDER BY timestamp
   `;
 
-  const rows = db
-    .prepare(sql)
-    .all(lastTimestamp, ...jids, `${botPrefix}:%`, limit) as NewMessage[];
+  // Takes the N oldest past the cursor, so a burst is read page by page
+  // instead of skipping everything but its tail.
+  let rows = db
+    .prepare(`${select('timestamp > ?')} LIMIT ?`)
+    .all(lastTimestamp, ...jids, `${botPrefix}:%`, limit + 1) as NewMessage[];
+
+  // One row past the page shows whether the page cut a run of messages
+  // sharing a timestamp. Leave that run for the next page, whose cursor
+  // would otherwise skip the rest of it. A run that fills the whole page
+  // cannot wait, so it is returned in full.
+  if (rows.length > limit) {
+    const last = rows[limit - 1].timestamp;
+    const cut =
+      rows[limit].timestamp === last
+        ? rows.findIndex((r) => r.timestamp === last)
+        : limit;
+    if (cut > 0) {
+      rows.length = cut;
+    } else {
+      rows = db
+        .prepare(select('timestamp = ?'))
+        .all(last, ...jids, `${botPrefix}:%`) as NewMessage[];
+    }
+  }
+
+  hydrateMessages(rows);
 
   let newTimestamp = lastTimestamp;
   for (const row of rows) {
@@ -338,29 +556,265 @@ export function getNewMessages(
   return { messages: rows, newTimestamp };
 }
 
+// Threads are separate conversations: a chat's own history leaves out
+// messages posted in threads, and a thread's history is its messages plus
+// the message that started it.
+
 export function getMessagesSince(
   chatJid: string,
   sinceTimestamp: string,
   botPrefix: string,
   limit: number = 200,
+): NewMessage[] {
+  return selectMessagesSince(
+    'thread_id IS NULL',
+    [],
+    chatJid,
+    sinceTimestamp,
+    botPrefix,
+    limit,
+  );
+}
+
+export function getThreadMessagesSince(
+  chatJid: string,
+  threadId: string,
+  sinceTimestamp: string,
+  botPrefix: string,
+  limit: number = 200,
+): NewMessage[] {
+  return selectMessagesSince(
+    '(thread_id = ? OR id = ?)',
+    [threadId, threadId],
+    chatJid,
+    sinceTimestamp,
+    botPrefix,
+    limit,
+  );
+}
+
+function selectMessagesSince(
+  scope: string,
+  scopeParams: string[],
+  chatJid: string,
+  sinceTimestamp: string,
+  botPrefix: string,
+  limit: number,
 ): NewMessage[] {
   // Filter bot messages using both the is_bot_message flag AND the content
   // prefix as a backstop for messages written before the migration ran.
   // Subquery takes the N most recent, outer query re-sorts chronologically.
   const sql = `
     SELECT * FROM (
-      SELECT id, chat_jid, sender, sender_name, content, timestamp, is_from_me
+      SELECT id, chat_jid, sender, sender_name, content, timestamp, is_from_me,
+        reply_to_id, thread_id, edited_at
       FROM messages
-      WHERE chat_jid = ? AND timestamp > ?
+      WHERE chat_jid = ? AND timestamp > ? AND ${scope}
         AND is_bot_message = 0 AND content NOT LIKE ?
-        AND content != '' AND content IS NOT NULL
+        AND deleted_at IS NULL
+        AND (content != '' OR EXISTS (
+          SELECT 1 FROM attachments a
+          WHERE a.message_id = messages.id AND a.chat_jid = messages.chat_jid
+        ))
       ORDER BY timestamp DESC
       LIMIT ?
     ) ORDER BY timestamp
   `;
-  return db
+  const rows = db
     .prepare(sql)
-    .all(chatJid, sinceTimestamp, `${botPrefix}:%`, limit) as NewMessage[];
+    .all(
+      chatJid,
+      sinceTimestamp,
+      ...scopeParams,
+      `${botPrefix}:%`,
+      limit,
+    ) as NewMessage[];
+  return hydrateMessages(rows);
+}
+
+/** Threads of a chat with messages newer than the given timestamp. */
+export function getThreadIdsSince(
+  chatJid: string,
+  sinceTimestamp: string,
+): string[] {
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT thread_id FROM messages
+       WHERE chat_jid = ? AND timestamp > ? AND thread_id IS NOT NULL
+         AND is_bot_message = 0 AND deleted_at IS NULL`,
+    )
+    .all(chatJid, sinceTimestamp) as Array<{ thread_id: string }>;
+  return rows.map((r) => r.thread_id);
+}
+
+/**
+ * Apply an edit reported by a channel. The text it replaces is kept in
+ * message_edits. Returns false when the message was never stored (e.g. it
+ * predates registration) or when the editor is not its sender.
+ */
+export function recordMessageEdit(
+  messageId: string,
+  chatJid: string,
+  sender: string,
+  content: string,
+  editedAt: string,
+): boolean {
+  return db.transaction(() => {
+    const row = db
+      .prepare(
+        'SELECT content FROM messages WHERE id = ? AND chat_jid = ? AND sender = ?',
+      )
+      .get(messageId, chatJid, sender) as { content: string } | undefined;
+    if (!row) return false;
+    if (row.content === content) return true;
+    db.prepare(
+      `INSERT INTO message_edits (message_id, chat_jid, content, edited_at) VALUES (?, ?, ?, ?)`,
+    ).run(messageId, chatJid, row.content, editedAt);
+    db.prepare(
+      `UPDATE messages SET content = ?, edited_at = ? WHERE id = ? AND chat_jid = ? AND sender = ?`,
+    ).run(content, editedAt, messageId, chatJid, sender);
+    return true;
+  })();
+}
+
+/** Earlier versions of an edited message, oldest first. */
+export function getMessageEdits(
+  messageId: string,
+  chatJid: string,
+): Array<{ content: string; edited_at: string }> {
+  return db
+    .prepare(
+      `SELECT content, edited_at FROM message_edits WHERE message_id = ? AND chat_jid = ? ORDER BY id`,
+    )
+    .all(messageId, chatJid) as Array<{ content: string; edited_at: string }>;
+}
+
+/**
+ * Mark a message deleted. The row stays (replies may still point at it)
+ * but it is left out of every prompt from now on.
+ */
+export function markMessageDeleted(
+  messageId: string,
+  chatJid: string,
+  deletedAt: string,
+): boolean {
+  const result = db
+    .prepare(
+      `UPDATE messages SET deleted_at = ? WHERE id = ? AND chat_jid = ? AND deleted_at IS NULL`,
+    )
+    .run(deletedAt, messageId, chatJid);
+  return result.changes > 0;
+}
+
+/**
+ * Record a reaction, or remove it when the sender took it back. The message
+ * reacted to need not be stored.
+ */
+export function storeReaction(chatJid: string, reaction: Reaction): void {
+  if (reaction.removed) {
+    db.prepare(
+      `DELETE FROM reactions WHERE message_id = ? AND chat_jid = ? AND sender = ? AND emoji = ?`,
+    ).run(reaction.message_id, chatJid, reaction.sender, reaction.emoji);
+    return;
+  }
+  db.prepare(
+    `INSERT OR REPLACE INTO reactions (message_id, chat_jid, sender, sender_name, emoji, timestamp, reaction_id) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    reaction.message_id,
+    chatJid,
+    reaction.sender,
+    reaction.sender_name,
+    reaction.emoji,
+    reaction.timestamp,
+    reaction.reaction_id ?? null,
+  );
+}
+
+/**
+ * Remove a reaction by its own ID, for platforms that take reactions back
+ * by deleting them (Matrix redactions).
+ */
+export function removeReactionById(
+  chatJid: string,
+  reactionId: string,
+): boolean {
+  const result = db
+    .prepare(`DELETE FROM reactions WHERE chat_jid = ? AND reaction_id = ?`)
+    .run(chatJid, reactionId);
+  return result.changes > 0;
+}
+
+/**
+ * Reactions to the assistant's own messages in a chat, newest first, with
+ * the text they reacted to.
+ */
+export function getFeedback(chatJid: string, limit: number = 50): Feedback[] {
+  return db
+    .prepare(
+      `SELECT r.message_id, m.content, r.emoji, r.sender_name, r.timestamp
+       FROM reactions r
+       JOIN messages m ON m.id = r.message_id AND m.chat_jid = r.chat_jid
+       WHERE r.chat_jid = ? AND m.is_bot_message = 1 AND m.deleted_at IS NULL
+       ORDER BY r.timestamp DESC
+       LIMIT ?`,
+    )
+    .all(chatJid, limit) as Feedback[];
+}
+
+/**
+ * Record a file received with a message. Storing the same path for the
+ * same message again (a redelivery) replaces the earlier row.
+ */
+export function storeAttachment(
+  messageId: string,
+  chatJid: string,
+  attachment: MessageAttachment,
+): void {
+  db.prepare(
+    `INSERT OR REPLACE INTO attachments (message_id, chat_jid, path, mime, filename, size) VALUES (?, ?, ?, ?, ?, ?)`,
+  ).run(
+    messageId,
+    chatJid,
+    attachment.path,
+    attachment.mime,
+    attachment.filename ?? null,
+    attachment.size,
+  );
+}
+
+export function getAttachments(
+  messageId: string,
+  chatJid: string,
+): MessageAttachment[] {
+  const rows = db
+    .prepare(
+      `SELECT path, mime, filename, size FROM attachments
+       WHERE message_id = ? AND chat_jid = ? ORDER BY id`,
+    )
+    .all(messageId, chatJid) as {
+    path: string;
+    mime: string;
+    filename: string | null;
+    size: number;
+  }[];
+  return rows.map((row) => ({
+    path: row.path,
+    mime: row.mime,
+    ...(row.filename ? { filename: row.filename } : {}),
+    size: row.size,
+  }));
+}
+
+/** Fill in attachments and drop NULL optional columns from message rows. */
+function hydrateMessages(messages: NewMessage[]): NewMessage[] {
+  for (const msg of messages) {
+    if (msg.reply_to_id === null) delete msg.reply_to_id;
+    if (msg.thread_id === null) delete msg.thread_id;
+    if (msg.edited_at === null) delete msg.edited_at;
+    const attachments = getAttachments(msg.id, msg.chat_jid);
+    if (attachments.length) msg.attachments = attachments;
+  }
+  return messages;
 }
 
 export function createTask(
@@ -496,6 +950,252 @@ export function logTaskRun(log: TaskRunLog): void {
   );
 }
 
+// --- Outbox accessors ---
+
+/**
+ * Add a message to the outbox. With a dedupe_key that is already there
+ * (e.g. an IPC file processed again after a restart) nothing is added and
+ * the existing entry is returned with duplicate set.
+ */
+export function enqueueOutbound(
+  entry: {
+    chat_jid: string;
+    text: string;
+    reply_to?: string;
+    thread_id?: string;
+    dedupe_key?: string;
+  },
+  now: string = new Date().toISOString(),
+): { item: OutboxItem; duplicate: boolean } {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO outbox (chat_jid, text, reply_to, thread_id, dedupe_key, next_attempt_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      entry.chat_jid,
+      entry.text,
+      entry.reply_to ?? null,
+      entry.thread_id ?? null,
+      entry.dedupe_key ?? null,
+      now,
+      now,
+    );
+  if (result.changes === 0) {
+    const existing = db
+      .prepare('SELECT * FROM outbox WHERE dedupe_key = ?')
+      .get(entry.dedupe_key) as OutboxItem;
+    return { item: existing, duplicate: true };
+  }
+  return {
+    item: getOutboxItem(Number(result.lastInsertRowid))!,
+    duplicate: false,
+  };
+}
+
+export function getOutboxItem(id: number): OutboxItem | undefined {
+  return db.prepare('SELECT * FROM outbox WHERE id = ?').get(id) as
+    | OutboxItem
+    | undefined;
+}
+
+/** Every pending entry, oldest first (the order they must be sent in). */
+export function getPendingOutbound(): OutboxItem[] {
+  return db
+    .prepare(`SELECT * FROM outbox WHERE status = 'pending' ORDER BY id`)
+    .all() as OutboxItem[];
+}
+
+/** Whether an older entry for the chat is still waiting to be sent. */
+export function hasEarlierPendingOutbound(
+  chatJid: string,
+  id: number,
+): boolean {
+  return (
+    db
+      .prepare(
+        `SELECT 1 FROM outbox WHERE chat_jid = ? AND status = 'pending' AND id < ? LIMIT 1`,
+      )
+      .get(chatJid, id) !== undefined
+  );
+}
+
+export function markOutboundSent(
+  id: number,
+  messageId: string | undefined,
+  sentAt: string = new Date().toISOString(),
+): void {
+  db.prepare(
+    `UPDATE outbox SET status = 'sent', attempts = attempts + 1, message_id = ?, sent_at = ?, last_error = NULL WHERE id = ?`,
+  ).run(messageId ?? null, sentAt, id);
+}
+
+/**
+ * Record how many chunks of a split message are out, so a retry starts
+ * with the next one.
+ */
+export function markOutboundChunksSent(id: number, chunksSent: number): void {
+  db.prepare('UPDATE outbox SET chunks_sent = ? WHERE id = ?').run(
+    chunksSent,
+    id,
+  );
+}
+
+/**
+ * Record a failed attempt: retry at nextAttemptAt, or give up when it is
+ * null. countAttempt is false when the channel was not connected, which
+ * does not use up an attempt.
+ */
+export function markOutboundFailure(
+  id: number,
+  error: string,
+  nextAttemptAt: string | null,
+  countAttempt = true,
+): void {
+  db.prepare(
+    `UPDATE outbox
+     SET attempts = attempts + ?, last_error = ?,
+         status = CASE WHEN ? IS NULL THEN 'failed' ELSE status END,
+         next_attempt_at = COALESCE(?, next_attempt_at)
+     WHERE id = ?`,
+  ).run(countAttempt ? 1 : 0, error, nextAttemptAt, nextAttemptAt, id);
+}
+
+/** Number of outbox entries in each status. */
+export function getOutboxCounts(): Record<OutboxItem['status'], number> {
+  const counts = { pending: 0, sent: 0, failed: 0 };
+  const rows = db
+    .prepare('SELECT status, COUNT(*) AS n FROM outbox GROUP BY status')
+    .all() as { status: OutboxItem['status']; n: number }[];
+  for (const row of rows) counts[row.status] = row.n;
+  return counts;
+}
+
+/** Delete sent and failed entries created before the given time. */
+export function pruneOutbox(before: string): number {
+  return db
+    .prepare(`DELETE FROM outbox WHERE status != 'pending' AND created_at < ?`)
+    .run(before).changes;
+}
+
+// --- Identity accessors ---
+
+interface PersonRow {
+  id: string;
+  display_name: string;
+  roles: string;
+}
+
+function toPerson(row: PersonRow): Person {
+  const identities = db
+    .prepare(
+      'SELECT channel, sender FROM identities WHERE person_id = ? ORDER BY channel, sender',
+    )
+    .all(row.id) as PersonIdentity[];
+  return {
+    id: row.id,
+    display_name: row.display_name,
+    roles: JSON.parse(row.roles),
+    identities,
+  };
+}
+
+/**
+ * Create a person, or update the fields given for an existing one. A new
+ * person needs a display name.
+ */
+export function upsertPerson(
+  id: string,
+  updates: { display_name?: string; roles?: string[] },
+): Person {
+  const existing = getPerson(id);
+  if (!existing) {
+    if (!updates.display_name) {
+      throw new Error(`New person "${id}" needs a display name`);
+    }
+    db.prepare(
+      'INSERT INTO people (id, display_name, roles, created_at) VALUES (?, ?, ?, ?)',
+    ).run(
+      id,
+      updates.display_name,
+      JSON.stringify(updates.roles ?? []),
+      new Date().toISOString(),
+    );
+  } else {
+    db.prepare(
+      'UPDATE people SET display_name = ?, roles = ? WHERE id = ?',
+    ).run(
+      updates.display_name ?? existing.display_name,
+      JSON.stringify(updates.roles ?? existing.roles),
+      id,
+    );
+  }
+  return getPerson(id)!;
+}
+
+export function getPerson(id: string): Person | undefined {
+  const row = db.prepare('SELECT * FROM people WHERE id = ?').get(id) as
+    | PersonRow
+    | undefined;
+  return row ? toPerson(row) : undefined;
+}
+
+export function getPersonBySender(
+  channel: string,
+  sender: string,
+): Person | undefined {
+  const row = db
+    .prepare(
+      `SELECT p.* FROM identities i JOIN people p ON p.id = i.person_id
+       WHERE i.channel = ? AND i.sender = ?`,
+    )
+    .get(channel, sender) as PersonRow | undefined;
+  return row ? toPerson(row) : undefined;
+}
+
+export function getAllPeople(): Person[] {
+  const rows = db
+    .prepare('SELECT * FROM people ORDER BY id')
+    .all() as PersonRow[];
+  return rows.map(toPerson);
+}
+
+/**
+ * Link a channel's sender ID to a person, moving it from any other person.
+ * The caller checks that the channel vouches for the sender.
+ */
+export function linkIdentity(
+  channel: string,
+  sender: string,
+  personId: string,
+): void {
+  db.prepare(
+    'INSERT OR REPLACE INTO identities (channel, sender, person_id, linked_at) VALUES (?, ?, ?, ?)',
+  ).run(channel, sender, personId, new Date().toISOString());
+}
+
+/**
+ * Unlink a channel's sender ID. A person left with no identities is
+ * deleted. Returns false when the sender was not linked.
+ */
+export function unlinkIdentity(channel: string, sender: string): boolean {
+  const row = db
+    .prepare(
+      'SELECT person_id FROM identities WHERE channel = ? AND sender = ?',
+    )
+    .get(channel, sender) as { person_id: string } | undefined;
+  if (!row) return false;
+  db.prepare('DELETE FROM identities WHERE channel = ? AND sender = ?').run(
+    channel,
+    sender,
+  );
+  db.prepare(
+    `DELETE FROM people WHERE id = ?
+     AND NOT EXISTS (SELECT 1 FROM identities WHERE person_id = ?)`,
+  ).run(row.person_id, row.person_id);
+  return true;
+}
+
 // --- Router state accessors ---
 
 export function getRouterState(key: string): string | undefined {
@@ -513,19 +1213,53 @@ export function setRouterState(key: string, value: string): void {
 
 // --- Session accessors ---
 
-export function getSession(groupFolder: string): string | undefined {
-  const row = db
-    .prepare('SELECT session_id FROM sessions WHERE group_folder = ?')
-    .get(groupFolder) as { session_id: string } | undefined;
+// A group's threads each have their own session; without a thread id
+// these read and write the group's main session.
+
+export function getSession(
+  groupFolder: string,
+  threadId?: string,
+): string | undefined {
+  const row = (
+    threadId
+      ? db
+          .prepare(
+            'SELECT session_id FROM thread_sessions WHERE group_folder = ? AND thread_id = ?',
+          )
+          .get(groupFolder, threadId)
+      : db
+          .prepare('SELECT session_id FROM sessions WHERE group_folder = ?')
+          .get(groupFolder)
+  ) as { session_id: string } | undefined;
   return row?.session_id;
 }
 
-export function setSession(groupFolder: string, sessionId: string): void {
+export function setSession(
+  groupFolder: string,
+  sessionId: string,
+  threadId?: string,
+): void {
+  if (threadId) {
+    db.prepare(
+      'INSERT OR REPLACE INTO thread_sessions (group_folder, thread_id, session_id) VALUES (?, ?, ?)',
+    ).run(groupFolder, threadId, sessionId);
+    return;
+  }
   db.prepare(
     'INSERT OR REPLACE INTO sessions (group_folder, session_id) VALUES (?, ?)',
   ).run(groupFolder, sessionId);
 }
 
+export function deleteSession(groupFolder: string, threadId?: string): void {
+  if (threadId) {
+    db.prepare(
+      'DELETE FROM thread_sessions WHERE group_folder = ? AND thread_id = ?',
+    ).run(groupFolder, threadId);
+    return;
+  }
+  db.prepare('DELETE FROM sessions WHERE group_folder = ?').run(groupFolder);
+}
+
 export function getAllSessions(): Record<string, string> {
   const rows = db
     .prepare('SELECT group_folder, session_id FROM sessions')
@@ -537,8 +1271,28 @@ export function getAllSessions(): Record<string, string> {
   return result;
 }
 
+/** Thread sessions by group folder, then thread id. */
+export function getAllThreadSessions(): Record<string, Record<string, string>> {
+  const rows = db
+    .prepare('SELECT group_folder, thread_id, session_id FROM thread_sessions')
+    .all() as Array<{
+    group_folder: string;
+    thread_id: string;
+    session_id: string;
+  }>;
+  const result: Record<string, Record<string, string>> = {};
+  for (const row of rows) {
+    (result[row.group_folder] ??= {})[row.thread_id] = row.session_id;
+  }
+  return result;
+}
+
 // --- Registered group accessors ---
 
+function parseTriggerMode(value: string | null): TriggerMode | undefined {
+  return value === 'start' || value === 'mention' ? value : undefined;
+}
+
 export function getRegisteredGroup(
   jid: string,
 ): (RegisteredGroup & { jid: string }) | undefined {
@@ -554,6 +1308,9 @@ export function getRegisteredGroup(
         container_config: string | null;
         requires_trigger: number | null;
         is_main: number | null;
+        trigger_mode: string | null;
+        debounce_ms: number | null;
+        model: string | null;
       }
     | undefined;
   if (!row) return undefined;
@@ -576,6 +1333,9 @@ export function getRegisteredGroup(
     requiresTrigger:
       row.requires_trigger === null ? undefined : row.requires_trigger === 1,
     isMain: row.is_main === 1 ? true : undefined,
+    triggerMode: parseTriggerMode(row.trigger_mode),
+    debounceMs: row.debounce_ms ?? undefined,
+    model: row.model ?? undefined,
   };
 }
 
@@ -584,8 +1344,8 @@ export function setRegisteredGroup(jid: string, group: RegisteredGroup): void {
     throw new Error(`Invalid group folder "${group.folder}" for JID ${jid}`);
   }
   db.prepare(
-    `INSERT OR REPLACE INTO registered_groups (jid, name, folder, trigger_pattern, added_at, container_config, requires_trigger, is_main)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT OR REPLACE INTO registered_groups (jid, name, folder, trigger_pattern, added_at, container_config, requires_trigger, is_main, trigger_mode, debounce_ms, model)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
   ).run(
     jid,
     group.name,
@@ -595,6 +1355,9 @@ export function setRegisteredGroup(jid: string, group: RegisteredGroup): void {
     group.containerConfig ? JSON.stringify(group.containerConfig) : null,
     group.requiresTrigger === undefined ? 1 : group.requiresTrigger ? 1 : 0,
     group.isMain ? 1 : 0,
+    group.triggerMode ?? null,
+    group.debounceMs ?? null,
+    group.model ?? null,
   );
 }
 
@@ -608,6 +1371,9 @@ export function getAllRegisteredGroups(): Record<string, RegisteredGroup> {
     container_config: string | null;
     requires_trigger: number | null;
     is_main: number | null;
+    trigger_mode: string | null;
+    debounce_ms: number | null;
+    model: string | null;
   }>;
   const result: Record<string, RegisteredGroup> = {};
   for (const row of rows) {
@@ -629,6 +1395,9 @@ export function getAllRegisteredGroups(): Record<string, RegisteredGroup> {
       requiresTrigger:
         row.requires_trigger === null ? undefined : row.requires_trigger === 1,
       isMain: row.is_main === 1 ? true : undefined,
+      triggerMode: parseTriggerMode(row.trigger_mode),
+      debounceMs: row.debounce_ms ?? undefined,
+      model: row.model ?? undefined,
     };
   }
   return result;
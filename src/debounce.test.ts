@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { Debouncer } from './debounce.js';
+
+describe('Debouncer', () => {
+  let debouncer: Debouncer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    debouncer = new Debouncer(10000);
+  });
+
+  afterEach(() => {
+    debouncer.clear();
+    vi.useRealTimers();
+  });
+
+  it('fires once the key has been quiet', () => {
+    const fire = vi.fn();
+    debouncer.schedule('chat', 2000, fire);
+
+    vi.advanceTimersByTime(1999);
+    expect(fire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(fire).toHaveBeenCalledTimes(1);
+
+    // Fired keys are done with: nothing left to extend or fire again
+    expect(debouncer.extend('chat', 2000)).toBe(false);
+    vi.advanceTimersByTime(10000);
+    expect(fire).toHaveBeenCalledTimes(1);
+  });
+
+  it('restarts the quiet period on each new message', () => {
+    const fire = vi.fn();
+    debouncer.schedule('chat', 2000, fire);
+    vi.advanceTimersByTime(1500);
+    expect(debouncer.extend('chat', 2000)).toBe(true);
+    vi.advanceTimersByTime(1500);
+    expect(fire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(500);
+    expect(fire).toHaveBeenCalledTimes(1);
+  });
+
+  it('never waits past the maximum delay', () => {
+    const fire = vi.fn();
+    debouncer.schedule('chat', 3000, fire);
+    for (let i = 0; i < 4; i++) {
+      vi.advanceTimersByTime(2500);
+      debouncer.extend('chat', 3000);
+    }
+    // 10s after the first message, despite the chatter
+    expect(fire).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps keys apart and ignores extending a key that is not waiting', () => {
+    const a = vi.fn();
+    const b = vi.fn();
+    debouncer.schedule('a', 1000, a);
+    debouncer.schedule('b', 3000, b);
+    expect(debouncer.extend('c', 1000)).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(a).toHaveBeenCalledTimes(1);
+    expect(b).not.toHaveBeenCalled();
+
+    debouncer.clear();
+    vi.advanceTimersByTime(5000);
+    expect(b).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Holds back a conversation after a trigger until its sender goes quiet,
+ * so a request typed as several messages reaches the agent as one batch.
+ * Each new message restarts the quiet period, but the wait never runs past
+ * maxMs from the first one.
+ */
+export class Debouncer {
+  private pending = new Map<
+    string,
+    {
+      timer: ReturnType<typeof setTimeout>;
+      deadline: number;
+      fire: () => void;
+    }
+  >();
+
+  constructor(private readonly maxMs: number) {}
+
+  /**
+   * Run fire once key has been quiet for quietMs. Calling again for a key
+   * that is already waiting restarts its quiet period and replaces fire.
+   */
+  schedule(key: string, quietMs: number, fire: () => void): void {
+    const now = Date.now();
+    const existing = this.pending.get(key);
+    if (existing) clearTimeout(existing.timer);
+    const deadline = existing?.deadline ?? now + this.maxMs;
+    const delay = Math.max(0, Math.min(quietMs, deadline - now));
+    const timer = setTimeout(() => {
+      this.pending.delete(key);
+      fire();
+    }, delay);
+    this.pending.set(key, { timer, deadline, fire });
+  }
+
+  /** Restart the quiet period of a waiting key. Returns false if none. */
+  extend(key: string, quietMs: number): boolean {
+    const existing = this.pending.get(key);
+    if (!existing) return false;
+    this.schedule(key, quietMs, existing.fire);
+    return true;
+  }
+
+  /** Drop every waiting key without firing. */
+  clear(): void {
+    for (const { timer } of this.pending.values()) clearTimeout(timer);
+    this.pending.clear();
+  }
+}
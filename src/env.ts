@@ -40,3 +40,24 @@ export function readEnvFile(keys: string[]): Record<string, string> {
 
   return result;
 }
+
+/**
+ * Read a channel's settings. The default instance uses the plain keys; a
+ * named instance uses them with its name appended, so `matrix:work` reads
+ * MATRIX_HOMESERVER_WORK. Values in process.env win over .env. The result
+ * is keyed by the plain names either way.
+ */
+export function readChannelEnv(
+  keys: string[],
+  instance?: string,
+): Record<string, string | undefined> {
+  const suffix = instance
+    ? `_${instance.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`
+    : '';
+  const env = readEnvFile(keys.map((key) => key + suffix));
+  const result: Record<string, string | undefined> = {};
+  for (const key of keys) {
+    result[key] = process.env[key + suffix] || env[key + suffix];
+  }
+  return result;
+}
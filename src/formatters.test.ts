@@ -0,0 +1,276 @@
+import { describe, it, expect } from 'vitest';
+
+import { renderMarkup } from './formatters.js';
+import { formatOutbound } from './router.js';
+
+// Representative agent output exercising every block and inline construct
+const SAMPLE = [
+  '# Weekly report',
+  '',
+  'Revenue is **up 12%** vs. _last week_ (see [dashboard](https://example.com/d?a=1&b=2)).',
+  'Costs were ~~flat~~ down; run `make report` to refresh.',
+  '',
+  '- Ship the *beta* to 3 teams',
+  '  - Collect feedback',
+  '- Fix snake_case_names bug',
+  '',
+  '1. Draft',
+  '2. Review',
+  '',
+  '> Numbers are preliminary.',
+  '',
+  '| Team | Score |',
+  '|------|------:|',
+  '| Core | **98** |',
+  '| Web  | 87 |',
+  '',
+  '```ts',
+  'const total = a < b ? a : b;',
+  '```',
+  '',
+  '---',
+  'Done!',
+].join('\n');
+
+// --- Golden output per markup ---
+
+describe('renderMarkup golden output', () => {
+  it('passes Markdown through unchanged', () => {
+    expect(renderMarkup(SAMPLE, 'markdown')).toBe(SAMPLE);
+  });
+
+  it('renders plain text', () => {
+    expect(renderMarkup(SAMPLE, 'plain')).toBe(
+      [
+        'Weekly report',
+        '',
+        'Revenue is up 12% vs. last week (see dashboard (https://example.com/d?a=1&b=2)).',
+        'Costs were flat down; run make report to refresh.',
+        '',
+        '- Ship the beta to 3 teams',
+        '  - Collect feedback',
+        '- Fix snake_case_names bug',
+        '',
+        '1. Draft',
+        '2. Review',
+        '',
+        '> Numbers are preliminary.',
+        '',
+        'Team | Score',
+        '-----|------',
+        'Core | 98',
+        'Web  | 87',
+        '',
+        'const total = a < b ? a : b;',
+        '',
+        '---',
+        '',
+        'Done!',
+      ].join('\n'),
+    );
+  });
+
+  it('renders WhatsApp formatting', () => {
+    expect(renderMarkup(SAMPLE, 'whatsapp')).toBe(
+      [
+        '*Weekly report*',
+        '',
+        'Revenue is *up 12%* vs. _last week_ (see dashboard (https://example.com/d?a=1&b=2)).',
+        'Costs were ~flat~ down; run `make report` to refresh.',
+        '',
+        '- Ship the _beta_ to 3 teams',
+        '  - Collect feedback',
+        '- Fix snake_case_names bug',
+        '',
+        '1. Draft',
+        '2. Review',
+        '',
+        '> Numbers are preliminary.',
+        '',
+        '```',
+        'Team | Score',
+        '-----|------',
+        'Core | 98',
+        'Web  | 87',
+        '```',
+        '',
+        '```',
+        'const total = a < b ? a : b;',
+        '```',
+        '',
+        '---',
+        '',
+        'Done!',
+      ].join('\n'),
+    );
+  });
+
+  it('renders Slack mrkdwn', () => {
+    expect(renderMarkup(SAMPLE, 'slack')).toBe(
+      [
+        '*Weekly report*',
+        '',
+        'Revenue is *up 12%* vs. _last week_ (see <https://example.com/d?a=1&b=2|dashboard>).',
+        'Costs were ~flat~ down; run `make report` to refresh.',
+        '',
+        '• Ship the _beta_ to 3 teams',
+        '  • Collect feedback',
+        '• Fix snake_case_names bug',
+        '',
+        '1. Draft',
+        '2. Review',
+        '',
+        '> Numbers are preliminary.',
+        '',
+        '```',
+        'Team | Score',
+        '-----|------',
+        'Core | 98',
+        'Web  | 87',
+        '```',
+        '',
+        '```',
+        'const total = a &lt; b ? a : b;',
+        '```',
+        '',
+        '———',
+        '',
+        'Done!',
+      ].join('\n'),
+    );
+  });
+
+  it('renders Telegram MarkdownV2', () => {
+    expect(renderMarkup(SAMPLE, 'telegram')).toBe(
+      [
+        '*Weekly report*',
+        '',
+        'Revenue is *up 12%* vs\\. _last week_ \\(see [dashboard](https://example.com/d?a=1&b=2)\\)\\.',
+        'Costs were ~flat~ down; run `make report` to refresh\\.',
+        '',
+        '• Ship the _beta_ to 3 teams',
+        '  • Collect feedback',
+        '• Fix snake\\_case\\_names bug',
+        '',
+        '1\\. Draft',
+        '2\\. Review',
+        '',
+        '>Numbers are preliminary\\.',
+        '',
+        '```',
+        'Team | Score',
+        '-----|------',
+        'Core | 98',
+        'Web  | 87',
+        '```',
+        '',
+        '```ts',
+        'const total = a < b ? a : b;',
+        '```',
+        '',
+        '———',
+        '',
+        'Done\\!',
+      ].join('\n'),
+    );
+  });
+
+  it('renders HTML', () => {
+    expect(renderMarkup(SAMPLE, 'html')).toBe(
+      [
+        '<h1>Weekly report</h1>',
+        '<p>Revenue is <strong>up 12%</strong> vs. <em>last week</em> (see <a href="https://example.com/d?a=1&amp;b=2">dashboard</a>).<br>',
+        'Costs were <del>flat</del> down; run <code>make report</code> to refresh.</p>',
+        '<ul><li>Ship the <em>beta</em> to 3 teams<ul><li>Collect feedback</li></ul></li><li>Fix snake_case_names bug</li></ul>',
+        '<ol><li>Draft</li><li>Review</li></ol>',
+        '<blockquote>Numbers are preliminary.</blockquote>',
+        '<table><thead><tr><th>Team</th><th>Score</th></tr></thead>',
+        '<tbody><tr><td>Core</td><td><strong>98</strong></td></tr><tr><td>Web</td><td>87</td></tr></tbody></table>',
+        '<pre><code class="language-ts">const total = a &lt; b ? a : b;\n</code></pre>',
+        '<hr><p>Done!</p>',
+      ].join(''),
+    );
+  });
+});
+
+// --- Edge cases ---
+
+describe('renderMarkup', () => {
+  it('leaves a single HTML paragraph unwrapped', () => {
+    expect(renderMarkup('Hi **there**', 'html')).toBe(
+      'Hi <strong>there</strong>',
+    );
+  });
+
+  it('escapes HTML in text, code and link targets', () => {
+    expect(renderMarkup('<b> & `<i>`', 'html')).toBe(
+      '&lt;b&gt; &amp; <code>&lt;i&gt;</code>',
+    );
+    expect(renderMarkup('[x](https://e.com/?q="a")', 'html')).toBe(
+      '<a href="https://e.com/?q=&quot;a&quot;">x</a>',
+    );
+  });
+
+  it('renders autolinks', () => {
+    expect(renderMarkup('see <https://example.com>', 'html')).toBe(
+      'see <a href="https://example.com">https://example.com</a>',
+    );
+    expect(renderMarkup('see <https://example.com>', 'slack')).toBe(
+      'see <https://example.com>',
+    );
+  });
+
+  it('does not treat intraword underscores as emphasis', () => {
+    expect(renderMarkup('use my_var_name here', 'whatsapp')).toBe(
+      'use my_var_name here',
+    );
+  });
+
+  it('keeps unmatched markers literal', () => {
+    expect(renderMarkup('2 * 3 = 6', 'whatsapp')).toBe('2 * 3 = 6');
+    expect(renderMarkup('a **b', 'plain')).toBe('a **b');
+  });
+
+  it('honours backslash escapes', () => {
+    expect(renderMarkup('\\*not bold\\*', 'plain')).toBe('*not bold*');
+  });
+
+  it('escapes only backtick and backslash inside Telegram code', () => {
+    expect(renderMarkup('run `a.b(c)` now!', 'telegram')).toBe(
+      'run `a.b(c)` now\\!',
+    );
+    expect(renderMarkup('```\nx = [1] \\ 2\n```', 'telegram')).toBe(
+      '```\nx = [1] \\\\ 2\n```',
+    );
+  });
+
+  it('escapes closing parentheses in Telegram link targets', () => {
+    expect(renderMarkup('[wiki](https://e.com/a_(b))', 'telegram')).toBe(
+      '[wiki](https://e.com/a_(b\\))',
+    );
+  });
+
+  it('escapes Slack control characters', () => {
+    expect(renderMarkup('a < b & c > d', 'slack')).toBe(
+      'a &lt; b &amp; c &gt; d',
+    );
+  });
+
+  it('numbers ordered HTML lists from their first item', () => {
+    expect(renderMarkup('3. three\n4. four', 'html')).toBe(
+      '<ol start="3"><li>three</li><li>four</li></ol>',
+    );
+  });
+});
+
+describe('formatOutbound with markup', () => {
+  it('strips internal tags before rendering', () => {
+    expect(
+      formatOutbound('<internal>plan</internal>**Done**', 'whatsapp'),
+    ).toBe('*Done*');
+  });
+
+  it('defaults to Markdown passthrough', () => {
+    expect(formatOutbound('**Done**')).toBe('**Done**');
+  });
+});
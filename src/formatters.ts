@@ -0,0 +1,583 @@
+/**
+ * Outbound formatter pipeline.
+ *
+ * Agents write CommonMark. Each channel declares the markup it renders
+ * (`capabilities.markup`), and renderMarkup() converts agent text into it:
+ * the text is parsed once into blocks and inline spans, then a per-markup
+ * renderer turns that tree into a string. 'markdown' passes text through
+ * unchanged for channels that render Markdown themselves.
+ *
+ * Renderers can be replaced or added with registerRenderer().
+ */
+import { ChannelMarkup } from './types.js';
+
+// --- Syntax tree ---
+
+type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Inline[] };
+
+interface ListItem {
+  depth: number;
+  ordered: boolean;
+  // Original number for ordered items
+  number: number;
+  content: Inline[];
+}
+
+type Block =
+  | { type: 'paragraph'; lines: Inline[][] }
+  | { type: 'heading'; level: number; content: Inline[] }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'list'; items: ListItem[] }
+  | { type: 'quote'; lines: Inline[][] }
+  | { type: 'table'; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+// --- Renderer interface ---
+
+export interface TableCell {
+  // Cell text with markup removed (for aligned monospace tables)
+  plain: string;
+  // Cell rendered in the target markup
+  rendered: string;
+}
+
+export interface RenderedListItem {
+  depth: number;
+  ordered: boolean;
+  number: number;
+  content: string;
+}
+
+export interface MarkupRenderer {
+  text(text: string): string;
+  bold(content: string): string;
+  italic(content: string): string;
+  strike(content: string): string;
+  code(text: string): string;
+  link(label: string, href: string): string;
+  paragraph(lines: string[]): string;
+  heading(content: string, level: number): string;
+  codeBlock(code: string, lang: string): string;
+  list(items: RenderedListItem[]): string;
+  quote(lines: string[]): string;
+  table(header: TableCell[], rows: TableCell[][]): string;
+  rule(): string;
+  // Join rendered blocks into the final message
+  document(blocks: { type: Block['type']; text: string }[]): string;
+}
+
+// --- Parsing ---
+
+const FENCE_RE = /^\s*(```|~~~)\s*([\w+#.-]*)/;
+const HEADING_RE = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_RE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_RE = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE_RE = /^\s*>\s?(.*)$/;
+const TABLE_DIVIDER_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((c) => c.trim().replace(/\\\|/g, '|'));
+}
+
+function parseBlocks(text: string): Block[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let paragraph: Inline[][] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', lines: paragraph });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      flush();
+      const marker = fence[1];
+      const code: string[] = [];
+      for (i++; i < lines.length && lines[i].trim() !== marker; i++) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', lang: fence[2], code: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      flush();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        content: parseInline(heading[2]),
+      });
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    if (
+      line.includes('|') &&
+      i + 1 < lines.length &&
+      lines[i + 1].includes('|') &&
+      TABLE_DIVIDER_RE.test(lines[i + 1])
+    ) {
+      flush();
+      const header = splitTableRow(line).map(parseInline);
+      const rows: Inline[][][] = [];
+      for (i += 2; i < lines.length && lines[i].includes('|'); i++) {
+        rows.push(splitTableRow(lines[i]).map(parseInline));
+      }
+      i--;
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    if (LIST_RE.test(line)) {
+      flush();
+      const items: ListItem[] = [];
+      for (; i < lines.length; i++) {
+        const m = lines[i].match(LIST_RE);
+        if (m) {
+          const ordered = /\d/.test(m[2]);
+          items.push({
+            depth: Math.floor(m[1].replace(/\t/g, '  ').length / 2),
+            ordered,
+            number: ordered ? parseInt(m[2], 10) : 0,
+            content: parseInline(m[3]),
+          });
+        } else if (/^\s+\S/.test(lines[i]) && items.length) {
+          // Continuation of the previous item
+          const last = items[items.length - 1];
+          last.content.push(
+            { type: 'text', text: ' ' },
+            ...parseInline(lines[i].trim()),
+          );
+        } else {
+          break;
+        }
+      }
+      i--;
+      blocks.push({ type: 'list', items });
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      flush();
+      const quoted: Inline[][] = [];
+      for (; i < lines.length; i++) {
+        const m = lines[i].match(QUOTE_RE);
+        if (!m) break;
+        quoted.push(parseInline(m[1]));
+      }
+      i--;
+      blocks.push({ type: 'quote', lines: quoted });
+      continue;
+    }
+
+    paragraph.push(parseInline(line));
+  }
+  flush();
+  return blocks;
+}
+
+// Targets may contain one level of balanced parentheses (Wikipedia URLs)
+const LINK_RE =
+  /^\[([^\]]+)\]\(\s*<?((?:[^()\s>]|\([^()\s]*\))+)>?(?:\s+"[^"]*")?\s*\)/;
+const AUTOLINK_RE = /^<((?:https?|mailto):[^>\s]+)>/;
+
+/** Find a closing delimiter that ends a non-empty, non-space-padded span. */
+function findClose(s: string, delim: string, from: number): number {
+  for (let j = s.indexOf(delim, from); j !== -1; j = s.indexOf(delim, j + 1)) {
+    if (j === from || /\s/.test(s[j - 1])) continue;
+    // A single-char delimiter must not be part of a doubled one
+    if (delim.length === 1 && (s[j + 1] === delim || s[j - 1] === delim)) {
+      continue;
+    }
+    // Intraword underscores (snake_case) never close emphasis
+    if (delim[0] === '_' && /\w/.test(s[j + delim.length] ?? '')) continue;
+    return j;
+  }
+  return -1;
+}
+
+function parseInline(s: string): Inline[] {
+  const out: Inline[] = [];
+  let text = '';
+  const pushText = () => {
+    if (text) out.push({ type: 'text', text });
+    text = '';
+  };
+
+  for (let i = 0; i < s.length; ) {
+    const ch = s[i];
+    const rest = s.slice(i);
+
+    if (ch === '\\' && i + 1 < s.length && /[!-/:-@[-`{-~]/.test(s[i + 1])) {
+      text += s[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = rest.match(/^`+/)![0];
+      const end = s.indexOf(run, i + run.length);
+      if (end !== -1) {
+        pushText();
+        let code = s.slice(i + run.length, end);
+        if (/^ .* $/.test(code)) code = code.slice(1, -1);
+        out.push({ type: 'code', text: code });
+        i = end + run.length;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const m = rest.match(LINK_RE);
+      if (m) {
+        pushText();
+        out.push({ type: 'link', href: m[2], children: parseInline(m[1]) });
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const m = rest.match(AUTOLINK_RE);
+      if (m) {
+        pushText();
+        out.push({
+          type: 'link',
+          href: m[1],
+          children: [{ type: 'text', text: m[1].replace(/^mailto:/, '') }],
+        });
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    const spans: [string, 'bold' | 'italic' | 'strike'][] = [
+      ['**', 'bold'],
+      ['__', 'bold'],
+      ['~~', 'strike'],
+      ['*', 'italic'],
+      ['_', 'italic'],
+    ];
+    const span = spans.find(([delim]) => rest.startsWith(delim));
+    if (span) {
+      const [delim, type] = span;
+      const opensWord = !/\s/.test(s[i + delim.length] ?? ' ');
+      const intraword = delim[0] === '_' && /\w/.test(s[i - 1] ?? '');
+      const end =
+        opensWord && !intraword ? findClose(s, delim, i + delim.length) : -1;
+      if (end !== -1) {
+        pushText();
+        out.push({
+          type,
+          children: parseInline(s.slice(i + delim.length, end)),
+        });
+        i = end + delim.length;
+        continue;
+      }
+      // Not emphasis: keep the whole delimiter run as text
+      text += delim;
+      i += delim.length;
+      continue;
+    }
+
+    text += ch;
+    i++;
+  }
+  pushText();
+  return out;
+}
+
+// --- Rendering ---
+
+function plainInline(nodes: Inline[]): string {
+  return nodes
+    .map((n) => ('children' in n ? plainInline(n.children) : n.text))
+    .join('');
+}
+
+function renderInline(nodes: Inline[], r: MarkupRenderer): string {
+  return nodes
+    .map((n) => {
+      switch (n.type) {
+        case 'text':
+          return r.text(n.text);
+        case 'code':
+          return r.code(n.text);
+        case 'link':
+          return r.link(renderInline(n.children, r), n.href);
+        default:
+          return r[n.type](renderInline(n.children, r));
+      }
+    })
+    .join('');
+}
+
+function renderBlock(block: Block, r: MarkupRenderer): string {
+  switch (block.type) {
+    case 'paragraph':
+      return r.paragraph(block.lines.map((l) => renderInline(l, r)));
+    case 'heading':
+      return r.heading(renderInline(block.content, r), block.level);
+    case 'code':
+      return r.codeBlock(block.code, block.lang);
+    case 'list':
+      return r.list(
+        block.items.map((item) => ({
+          depth: item.depth,
+          ordered: item.ordered,
+          number: item.number,
+          content: renderInline(item.content, r),
+        })),
+      );
+    case 'quote':
+      return r.quote(block.lines.map((l) => renderInline(l, r)));
+    case 'table': {
+      const cell = (c: Inline[]) => ({
+        plain: plainInline(c),
+        rendered: renderInline(c, r),
+      });
+      return r.table(
+        block.header.map(cell),
+        block.rows.map((row) => row.map(cell)),
+      );
+    }
+    case 'rule':
+      return r.rule();
+  }
+}
+
+/** Lay out a table as space-aligned columns for monospace display. */
+export function alignTable(header: TableCell[], rows: TableCell[][]): string {
+  const all = [header, ...rows].map((row) => row.map((c) => c.plain));
+  const widths = header.map((_, col) =>
+    Math.max(...all.map((row) => (row[col] ?? '').length)),
+  );
+  const line = (row: string[]) =>
+    widths
+      .map((w, col) => (row[col] ?? '').padEnd(w))
+      .join(' | ')
+      .trimEnd();
+  return [
+    line(all[0]),
+    widths.map((w) => '-'.repeat(w)).join('-|-'),
+    ...all.slice(1).map(line),
+  ].join('\n');
+}
+
+function textList(
+  items: RenderedListItem[],
+  bullet: string,
+  number: (n: number) => string = (n) => `${n}.`,
+): string {
+  return items
+    .map(
+      (item) =>
+        `${'  '.repeat(item.depth)}${item.ordered ? number(item.number) : bullet} ${item.content}`,
+    )
+    .join('\n');
+}
+
+function joinBlocks(blocks: { text: string }[]): string {
+  return blocks.map((b) => b.text).join('\n\n');
+}
+
+function linkWithUrl(label: string, href: string, plainLabel: string): string {
+  const bare = href.replace(/^mailto:/, '');
+  return plainLabel === bare || plainLabel === href
+    ? label
+    : `${label} (${href})`;
+}
+
+const plainRenderer: MarkupRenderer = {
+  text: (t) => t,
+  bold: (c) => c,
+  italic: (c) => c,
+  strike: (c) => c,
+  code: (t) => t,
+  link: (label, href) => linkWithUrl(label, href, label),
+  paragraph: (lines) => lines.join('\n'),
+  heading: (c) => c,
+  codeBlock: (code) => code,
+  list: (items) => textList(items, '-'),
+  quote: (lines) => lines.map((l) => `> ${l}`).join('\n'),
+  table: (header, rows) => alignTable(header, rows),
+  rule: () => '---',
+  document: joinBlocks,
+};
+
+const whatsappRenderer: MarkupRenderer = {
+  ...plainRenderer,
+  bold: (c) => `*${c}*`,
+  italic: (c) => `_${c}_`,
+  strike: (c) => `~${c}~`,
+  code: (t) => `\`${t}\``,
+  heading: (c) => `*${c}*`,
+  codeBlock: (code) => `\`\`\`\n${code}\n\`\`\``,
+  table: (header, rows) => `\`\`\`\n${alignTable(header, rows)}\n\`\`\``,
+};
+
+function escapeSlack(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+const slackRenderer: MarkupRenderer = {
+  ...plainRenderer,
+  text: escapeSlack,
+  bold: (c) => `*${c}*`,
+  italic: (c) => `_${c}_`,
+  strike: (c) => `~${c}~`,
+  code: (t) => `\`${escapeSlack(t)}\``,
+  link: (label, href) => (label === href ? `<${href}>` : `<${href}|${label}>`),
+  heading: (c) => `*${c}*`,
+  codeBlock: (code) => `\`\`\`\n${escapeSlack(code)}\n\`\`\``,
+  list: (items) => textList(items, '•'),
+  // The quote marker itself must stay a raw '>'
+  quote: (lines) => lines.map((l) => `> ${l}`).join('\n'),
+  table: (header, rows) =>
+    `\`\`\`\n${escapeSlack(alignTable(header, rows))}\n\`\`\``,
+  rule: () => '———',
+};
+
+// Telegram MarkdownV2: these must be backslash-escaped everywhere outside
+// code; inside code and pre only ` and \ need escaping.
+function escapeTelegram(text: string): string {
+  return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+}
+
+function escapeTelegramCode(text: string): string {
+  return text.replace(/[`\\]/g, '\\$&');
+}
+
+const telegramRenderer: MarkupRenderer = {
+  ...plainRenderer,
+  text: escapeTelegram,
+  bold: (c) => `*${c}*`,
+  italic: (c) => `_${c}_`,
+  strike: (c) => `~${c}~`,
+  code: (t) => `\`${escapeTelegramCode(t)}\``,
+  link: (label, href) => `[${label}](${href.replace(/[)\\]/g, '\\$&')})`,
+  heading: (c) => `*${c}*`,
+  codeBlock: (code, lang) =>
+    `\`\`\`${lang}\n${escapeTelegramCode(code)}\n\`\`\``,
+  list: (items) => textList(items, '•', (n) => `${n}\\.`),
+  quote: (lines) => lines.map((l) => `>${l}`).join('\n'),
+  table: (header, rows) =>
+    `\`\`\`\n${escapeTelegramCode(alignTable(header, rows))}\n\`\`\``,
+  rule: () => '———',
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function htmlList(items: RenderedListItem[]): string {
+  let out = '';
+  const open: string[] = [];
+  for (const item of items) {
+    const tag = item.ordered ? 'ol' : 'ul';
+    if (open.length < item.depth + 1) {
+      while (open.length < item.depth + 1) {
+        out +=
+          item.ordered && item.number !== 1
+            ? `<ol start="${item.number}">`
+            : `<${tag}>`;
+        open.push(tag);
+      }
+    } else {
+      out += '</li>';
+      while (open.length > item.depth + 1) out += `</${open.pop()}></li>`;
+    }
+    out += `<li>${item.content}`;
+  }
+  out += '</li>';
+  while (open.length) {
+    out += `</${open.pop()}>`;
+    if (open.length) out += '</li>';
+  }
+  return out;
+}
+
+const htmlRenderer: MarkupRenderer = {
+  text: escapeHtml,
+  bold: (c) => `<strong>${c}</strong>`,
+  italic: (c) => `<em>${c}</em>`,
+  strike: (c) => `<del>${c}</del>`,
+  code: (t) => `<code>${escapeHtml(t)}</code>`,
+  link: (label, href) => `<a href="${escapeHtml(href)}">${label}</a>`,
+  paragraph: (lines) => lines.join('<br>'),
+  heading: (c, level) => `<h${level}>${c}</h${level}>`,
+  codeBlock: (code, lang) =>
+    `<pre><code${lang ? ` class="language-${escapeHtml(lang)}"` : ''}>${escapeHtml(code)}\n</code></pre>`,
+  list: htmlList,
+  quote: (lines) => `<blockquote>${lines.join('<br>')}</blockquote>`,
+  table: (header, rows) =>
+    `<table><thead><tr>${header.map((c) => `<th>${c.rendered}</th>`).join('')}</tr></thead>` +
+    `<tbody>${rows.map((row) => `<tr>${row.map((c) => `<td>${c.rendered}</td>`).join('')}</tr>`).join('')}</tbody></table>`,
+  rule: () => '<hr>',
+  // A lone paragraph stays bare (as chat clients send it); otherwise
+  // paragraphs get <p> so they are visually separated.
+  document: (blocks) =>
+    blocks.length === 1
+      ? blocks[0].text
+      : blocks
+          .map((b) => (b.type === 'paragraph' ? `<p>${b.text}</p>` : b.text))
+          .join(''),
+};
+
+const renderers = new Map<ChannelMarkup, MarkupRenderer>([
+  ['plain', plainRenderer],
+  ['whatsapp', whatsappRenderer],
+  ['slack', slackRenderer],
+  ['telegram', telegramRenderer],
+  ['html', htmlRenderer],
+]);
+
+/** Register (or replace) the renderer used for a markup. */
+export function registerRenderer(
+  markup: ChannelMarkup,
+  renderer: MarkupRenderer,
+): void {
+  renderers.set(markup, renderer);
+}
+
+/** Convert agent Markdown into the given markup. */
+export function renderMarkup(text: string, markup: ChannelMarkup): string {
+  const renderer = renderers.get(markup);
+  if (!renderer) return text; // 'markdown' and unknown markups pass through
+  const blocks = parseBlocks(text);
+  return renderer.document(
+    blocks.map((block) => ({
+      type: block.type,
+      text: renderBlock(block, renderer),
+    })),
+  );
+}
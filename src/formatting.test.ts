@@ -5,6 +5,7 @@ import {
   escapeXml,
   formatMessages,
   formatOutbound,
+  splitMessage,
   stripInternalTags,
 } from './router.js';
 import { NewMessage } from './types.js';
@@ -105,6 +106,69 @@ describe('formatMessages', () => {
     );
   });
 
+  it('includes message ids and reply/thread references', () => {
+    const result = formatMessages(
+      [
+        makeMsg({ id: 'm1' }),
+        makeMsg({ id: 'm2', reply_to_id: 'm1', thread_id: 'root"1' }),
+      ],
+      TZ,
+    );
+    expect(result).toMatch(/<message sender="Alice" time="[^"]+" id="m1">/);
+    expect(result).toMatch(
+      /<message sender="Alice" time="[^"]+" id="m2" reply_to="m1" thread="root&quot;1">/,
+    );
+  });
+
+  it('marks edited messages', () => {
+    const result = formatMessages(
+      [
+        makeMsg({
+          content: 'meet at 3',
+          edited_at: '2024-01-01T00:05:00.000Z',
+        }),
+      ],
+      TZ,
+    );
+    expect(result).toMatch(/ edited="[^"]+">meet at 3<\/message>/);
+    expect(formatMessages([makeMsg()], TZ)).not.toContain('edited=');
+  });
+
+  it('references attachments by their container path', () => {
+    const result = formatMessages(
+      [
+        makeMsg({
+          content: 'what is this?',
+          attachments: [
+            {
+              path: 'attachments/msg-1/1-photo.jpg',
+              mime: 'image/jpeg',
+              size: 1024,
+            },
+          ],
+        }),
+        makeMsg({
+          id: '2',
+          content: '',
+          attachments: [
+            {
+              path: 'attachments/2/1-attachment.ogg',
+              mime: 'audio/ogg',
+              size: 2048,
+            },
+          ],
+        }),
+      ],
+      TZ,
+    );
+    expect(result).toContain(
+      '>what is this?\n<attachment path="/workspace/group/attachments/msg-1/1-photo.jpg" mime="image/jpeg" /></message>',
+    );
+    expect(result).toContain(
+      '"><attachment path="/workspace/group/attachments/2/1-attachment.ogg" mime="audio/ogg" /></message>',
+    );
+  });
+
   it('handles empty array', () => {
     const result = formatMessages([], TZ);
     expect(result).toContain('<context timezone="UTC" />');
@@ -121,6 +185,27 @@ describe('formatMessages', () => {
     expect(result).toContain('PM');
     expect(result).toContain('<context timezone="America/New_York" />');
   });
+
+  it('shows linked senders under their person', () => {
+    const alice = {
+      id: 'alice',
+      display_name: 'Alice Smith',
+      roles: [],
+      identities: [{ channel: 'signal', sender: '+15551112222' }],
+    };
+    const result = formatMessages(
+      [
+        makeMsg({ id: '1', sender: '+15551112222', sender_name: 'A' }),
+        makeMsg({ id: '2', sender: 'other', sender_name: 'Bob' }),
+      ],
+      TZ,
+      (_chatJid, sender) => (sender === '+15551112222' ? alice : undefined),
+    );
+    expect(result).toContain('<message sender="Alice Smith"');
+    expect(result).toContain('person="alice" id="1"');
+    expect(result).toContain('<message sender="Bob"');
+    expect(result).not.toContain('person="alice" id="2"');
+  });
 });
 
 // --- TRIGGER_PATTERN ---
@@ -203,6 +288,61 @@ describe('formatOutbound', () => {
   });
 });
 
+// --- splitMessage ---
+
+describe('splitMessage', () => {
+  it('returns short text unchanged', () => {
+    expect(splitMessage('hello', 100)).toEqual(['hello']);
+    expect(splitMessage('x'.repeat(5000))).toEqual(['x'.repeat(5000)]);
+  });
+
+  it('splits at paragraph boundaries', () => {
+    const text = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)].join('\n\n');
+    expect(splitMessage(text, 90)).toEqual([
+      `${'a'.repeat(40)}\n\n${'b'.repeat(40)}`,
+      'c'.repeat(40),
+    ]);
+  });
+
+  it('keeps a code fence whole, including blank lines inside it', () => {
+    const fence = '```js\nconst a = 1;\n\nconst b = 2;\n```';
+    const text = `${'intro '.repeat(10).trim()}\n\n${fence}`;
+    expect(splitMessage(text, 60)).toEqual(['intro '.repeat(10).trim(), fence]);
+  });
+
+  it('re-balances fence markers when a code block must be split', () => {
+    const lines = Array.from({ length: 12 }, (_, i) => `line ${i}`);
+    const text = `\`\`\`py\n${lines.join('\n')}\n\`\`\``;
+    const chunks = splitMessage(text, 50);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(50);
+      expect(chunk.startsWith('```py\n')).toBe(true);
+      expect(chunk.endsWith('\n```')).toBe(true);
+    }
+    const body = chunks.flatMap((c) => c.split('\n').slice(1, -1));
+    expect(body).toEqual(lines);
+  });
+
+  it('splits oversized paragraphs at lines, then at words', () => {
+    const text = `${'word '.repeat(30).trim()}\nshort`;
+    const chunks = splitMessage(text, 40);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(40);
+    expect(chunks.join(' ').replace(/\n/g, ' ')).toBe(
+      `${'word '.repeat(30).trim()} short`,
+    );
+  });
+
+  it('hard-splits text without whitespace', () => {
+    expect(splitMessage('x'.repeat(25), 10)).toEqual([
+      'x'.repeat(10),
+      'x'.repeat(10),
+      'x'.repeat(5),
+    ]);
+  });
+});
+
 // --- Trigger gating with requiresTrigger flag ---
 
 describe('trigger gating (requiresTrigger interaction)', () => {
@@ -6,6 +6,7 @@ import {
   isValidGroupFolder,
   resolveGroupFolderPath,
   resolveGroupIpcPath,
+  resolveIpcInputPath,
 } from './group-folder.js';
 
 describe('group folder validation', () => {
@@ -36,6 +37,21 @@ describe('group folder validation', () => {
     ).toBe(true);
   });
 
+  it('gives each thread its own input directory', () => {
+    const groupInput = resolveIpcInputPath('family-chat');
+    const threadInput = resolveIpcInputPath('family-chat', '$root:example.org');
+    expect(groupInput).toBe(
+      path.join(resolveGroupIpcPath('family-chat'), 'input'),
+    );
+    expect(path.dirname(path.dirname(path.dirname(threadInput)))).toBe(
+      resolveGroupIpcPath('family-chat'),
+    );
+    expect(path.basename(path.dirname(threadInput))).toMatch(/^[0-9a-f]{16}$/);
+    expect(resolveIpcInputPath('family-chat', '$other:example.org')).not.toBe(
+      threadInput,
+    );
+  });
+
   it('throws for unsafe folder names', () => {
     expect(() => resolveGroupFolderPath('../../etc')).toThrow();
     expect(() => resolveGroupIpcPath('/tmp')).toThrow();
@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import path from 'path';
 
 import { DATA_DIR, GROUPS_DIR } from './config.js';
@@ -42,3 +43,19 @@ export function resolveGroupIpcPath(folder: string): string {
   ensureWithinBase(ipcBaseDir, ipcPath);
   return ipcPath;
 }
+
+/**
+ * Directory a container polls for follow-up messages and the _close
+ * sentinel. Threads get their own so parallel containers of one group
+ * don't consume each other's input. Thread ids are platform-supplied, so
+ * the directory name is a hash rather than the id itself.
+ */
+export function resolveIpcInputPath(folder: string, threadId?: string): string {
+  const ipcPath = resolveGroupIpcPath(folder);
+  if (!threadId) return path.join(ipcPath, 'input');
+  const threadDir = createHash('sha256')
+    .update(threadId)
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(ipcPath, 'threads', threadDir, 'input');
+}
@@ -1,3 +1,4 @@
+import path from 'path';
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 
 import { GroupQueue } from './group-queue.js';
@@ -6,8 +7,17 @@ import { GroupQueue } from './group-queue.js';
 vi.mock('./config.js', () => ({
   DATA_DIR: '/tmp/nanoclaw-test-data',
   MAX_CONCURRENT_CONTAINERS: 2,
+  THREAD_POLICY: 'serial',
+  CANCEL_GRACE_PERIOD: 10000,
 }));
 
+// Mock exec used to stop cancelled containers
+vi.mock('child_process', async () => {
+  const actual =
+    await vi.importActual<typeof import('child_process')>('child_process');
+  return { ...actual, exec: vi.fn() };
+});
+
 // Mock fs operations used by sendMessage/closeStdin
 vi.mock('fs', async () => {
   const actual = await vi.importActual<typeof import('fs')>('fs');
@@ -481,4 +491,274 @@ describe('GroupQueue', () => {
     resolveProcess!();
     await vi.advanceTimersByTimeAsync(10);
   });
+
+  // --- Threads ---
+
+  it('serial policy runs one thread of a group at a time', async () => {
+    const completions: Array<() => void> = [];
+    const calls: Array<[string, string | undefined]> = [];
+
+    queue.setProcessMessagesFn(async (groupJid, threadId) => {
+      calls.push([groupJid, threadId]);
+      await new Promise<void>((resolve) => completions.push(resolve));
+      return true;
+    });
+
+    queue.enqueueMessageCheck('room@mx', 'thread-a');
+    queue.enqueueMessageCheck('room@mx', 'thread-b');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(calls).toEqual([['room@mx', 'thread-a']]);
+
+    // Finishing thread-a hands the group's slot to thread-b
+    completions[0]();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(calls).toEqual([
+      ['room@mx', 'thread-a'],
+      ['room@mx', 'thread-b'],
+    ]);
+
+    completions[1]();
+    await vi.advanceTimersByTimeAsync(10);
+  });
+
+  it('serial policy preempts an idle thread when another is waiting', async () => {
+    const fs = await import('fs');
+    queue.setProcessMessagesFn(
+      async () => new Promise<boolean>(() => {}), // never completes
+    );
+
+    queue.enqueueMessageCheck('room@mx', 'thread-a');
+    await vi.advanceTimersByTimeAsync(10);
+    queue.registerProcess(
+      'room@mx',
+      {} as any,
+      'container-1',
+      'room',
+      'thread-a',
+    );
+    queue.notifyIdle('room@mx', 'thread-a');
+
+    const writeFileSync = vi.mocked(fs.default.writeFileSync);
+    writeFileSync.mockClear();
+    queue.enqueueMessageCheck('room@mx', 'thread-b');
+
+    const closeWrites = writeFileSync.mock.calls.filter(
+      (call) => typeof call[0] === 'string' && call[0].endsWith('_close'),
+    );
+    expect(closeWrites).toHaveLength(1);
+    expect(closeWrites[0][0]).toContain(`${path.sep}threads${path.sep}`);
+  });
+
+  it('parallel policy runs threads of a group side by side', async () => {
+    queue = new GroupQueue('parallel');
+    const completions: Array<() => void> = [];
+    let active = 0;
+    let maxActive = 0;
+
+    queue.setProcessMessagesFn(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise<void>((resolve) => completions.push(resolve));
+      active--;
+      return true;
+    });
+
+    queue.enqueueMessageCheck('room@mx', 'thread-a');
+    queue.enqueueMessageCheck('room@mx', 'thread-b');
+    // Third conversation waits for the global limit (2), not the group
+    queue.enqueueMessageCheck('room@mx');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(maxActive).toBe(2);
+
+    completions[0]();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(completions).toHaveLength(3);
+
+    completions[1]();
+    completions[2]();
+    await vi.advanceTimersByTimeAsync(10);
+  });
+
+  it('routes follow-up messages to the thread container input', async () => {
+    const fs = await import('fs');
+    queue = new GroupQueue('parallel');
+    queue.setProcessMessagesFn(async () => new Promise<boolean>(() => {}));
+
+    queue.enqueueMessageCheck('room@mx', 'thread-a');
+    await vi.advanceTimersByTimeAsync(10);
+    queue.registerProcess(
+      'room@mx',
+      {} as any,
+      'container-1',
+      'room',
+      'thread-a',
+    );
+
+    // The group's root conversation has no container
+    expect(queue.sendMessage('room@mx', 'hello')).toBe(false);
+
+    const writeFileSync = vi.mocked(fs.default.writeFileSync);
+    writeFileSync.mockClear();
+    expect(queue.sendMessage('room@mx', 'hello', 'thread-a')).toBe(true);
+    expect(String(writeFileSync.mock.calls[0][0])).toContain(
+      `${path.sep}threads${path.sep}`,
+    );
+  });
+
+  // --- Paused groups ---
+
+  it('holds work for a paused group until it resumes', async () => {
+    const processMessages = vi.fn(async () => true);
+    const taskFn = vi.fn(async () => {});
+    queue.setProcessMessagesFn(processMessages);
+
+    queue.pauseGroup('group1@g.us');
+    queue.enqueueMessageCheck('group1@g.us');
+    queue.enqueueTask('group1@g.us', 'task-1', taskFn);
+    queue.enqueueMessageCheck('group2@g.us');
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(queue.isPaused('group1@g.us')).toBe(true);
+    expect(processMessages).toHaveBeenCalledTimes(1);
+    expect(processMessages).toHaveBeenCalledWith('group2@g.us', undefined);
+    expect(taskFn).not.toHaveBeenCalled();
+
+    queue.resumeGroup('group1@g.us');
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(taskFn).toHaveBeenCalledTimes(1);
+    expect(processMessages).toHaveBeenCalledWith('group1@g.us', undefined);
+  });
+
+  it('does not drain into a paused group when a slot frees up', async () => {
+    const completions: Array<() => void> = [];
+    const processMessages = vi.fn(async () => {
+      await new Promise<void>((resolve) => completions.push(resolve));
+      return true;
+    });
+    queue.setProcessMessagesFn(processMessages);
+
+    queue.enqueueMessageCheck('group1@g.us');
+    queue.enqueueMessageCheck('group2@g.us');
+    queue.enqueueMessageCheck('group3@g.us'); // Waits for a slot
+    await vi.advanceTimersByTimeAsync(10);
+    queue.pauseGroup('group3@g.us');
+
+    completions[0]();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(processMessages).toHaveBeenCalledTimes(2);
+
+    queue.resumeGroup('group3@g.us');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(processMessages).toHaveBeenCalledTimes(3);
+    expect(processMessages).toHaveBeenLastCalledWith('group3@g.us', undefined);
+
+    completions[1]();
+    completions[2]();
+    await vi.advanceTimersByTimeAsync(10);
+  });
+
+  // --- Cancelling ---
+
+  it('cancels a run: closes it, stops it after the grace period, no retry', async () => {
+    const fs = await import('fs');
+    const { exec } = await import('child_process');
+    vi.mocked(fs.default.writeFileSync).mockClear();
+    vi.mocked(exec).mockClear();
+    let resolveProcess: (ok: boolean) => void;
+    const processMessages = vi.fn(
+      () => new Promise<boolean>((resolve) => (resolveProcess = resolve)),
+    );
+    queue.setProcessMessagesFn(processMessages);
+
+    expect(queue.cancel('group1@g.us')).toBe(false);
+
+    queue.enqueueMessageCheck('group1@g.us');
+    await vi.advanceTimersByTimeAsync(10);
+    queue.registerProcess(
+      'group1@g.us',
+      { kill: vi.fn() } as any,
+      'container-1',
+      'test-group',
+    );
+
+    expect(queue.cancel('group1@g.us')).toBe(true);
+    expect(queue.isCancelled('group1@g.us')).toBe(true);
+    const closeWrites = vi
+      .mocked(fs.default.writeFileSync)
+      .mock.calls.filter(
+        (call) => typeof call[0] === 'string' && call[0].endsWith('_close'),
+      );
+    expect(closeWrites).toHaveLength(1);
+
+    // Ignores _close: stopped once the grace period is up
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(exec).toHaveBeenCalledWith(
+      expect.stringContaining('stop container-1'),
+      expect.anything(),
+      expect.any(Function),
+    );
+
+    // Failing because it was stopped doesn't bring a retry
+    resolveProcess!(false);
+    await vi.advanceTimersByTimeAsync(10);
+    expect(queue.isCancelled('group1@g.us')).toBe(false);
+    await vi.advanceTimersByTimeAsync(200000);
+    expect(processMessages).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a cancelled container alone when it winds down in time', async () => {
+    const { exec } = await import('child_process');
+    vi.mocked(exec).mockClear();
+    let resolveProcess: (ok: boolean) => void;
+    queue.setProcessMessagesFn(
+      () => new Promise<boolean>((resolve) => (resolveProcess = resolve)),
+    );
+
+    queue.enqueueMessageCheck('group1@g.us');
+    await vi.advanceTimersByTimeAsync(10);
+    // Cancelled before its container registered
+    expect(queue.cancel('group1@g.us')).toBe(true);
+    queue.registerProcess(
+      'group1@g.us',
+      { kill: vi.fn() } as any,
+      'container-1',
+      'test-group',
+    );
+
+    resolveProcess!(true);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(exec).not.toHaveBeenCalled();
+  });
+
+  it('leaves messages that arrive after a cancel for a new run', async () => {
+    const completions: Array<(ok: boolean) => void> = [];
+    const processMessages = vi.fn(
+      () => new Promise<boolean>((resolve) => completions.push(resolve)),
+    );
+    queue.setProcessMessagesFn(processMessages);
+
+    queue.enqueueMessageCheck('group1@g.us');
+    await vi.advanceTimersByTimeAsync(10);
+    queue.registerProcess(
+      'group1@g.us',
+      { kill: vi.fn() } as any,
+      'container-1',
+      'test-group',
+    );
+    queue.cancel('group1@g.us');
+
+    // Not piped into the container that is shutting down...
+    expect(queue.sendMessage('group1@g.us', 'one more thing')).toBe(false);
+    queue.enqueueMessageCheck('group1@g.us');
+
+    // ...but picked up by a fresh run once it has gone
+    completions[0](true);
+    await vi.advanceTimersByTimeAsync(10);
+    expect(processMessages).toHaveBeenCalledTimes(2);
+    expect(queue.isCancelled('group1@g.us')).toBe(false);
+
+    completions[1](true);
+    await vi.advanceTimersByTimeAsync(10);
+  });
 });
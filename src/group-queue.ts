@@ -1,10 +1,27 @@
-import { ChildProcess } from 'child_process';
+import { ChildProcess, exec } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 
-import { DATA_DIR, MAX_CONCURRENT_CONTAINERS } from './config.js';
+import {
+  CANCEL_GRACE_PERIOD,
+  MAX_CONCURRENT_CONTAINERS,
+  THREAD_POLICY,
+} from './config.js';
+import { stopContainer } from './container-runtime.js';
+import { resolveIpcInputPath } from './group-folder.js';
 import { logger } from './logger.js';
 
+export type ThreadPolicy = 'serial' | 'parallel';
+
+/**
+ * Key for one conversation: a chat, or a thread within it. Queue slots,
+ * agent cursors and sessions are tracked per conversation. An unthreaded
+ * chat's key is its JID, so existing state carries over unchanged.
+ */
+export function conversationKey(chatJid: string, threadId?: string): string {
+  return threadId ? `${chatJid}#${threadId}` : chatJid;
+}
+
 interface QueuedTask {
   id: string;
   groupJid: string;
@@ -15,6 +32,8 @@ const MAX_RETRIES = 5;
 const BASE_RETRY_MS = 5000;
 
 interface GroupState {
+  groupJid: string;
+  threadId?: string;
   active: boolean;
   idleWaiting: boolean;
   isTaskContainer: boolean;
@@ -25,20 +44,42 @@ interface GroupState {
   containerName: string | null;
   groupFolder: string | null;
   retryCount: number;
+  cancelled: boolean; // Asked to stop; its input is not retried
+}
+
+export interface ConversationStatus {
+  active: boolean; // A container is running
+  idleWaiting: boolean; // ...and has finished its work, waiting for input
+  runningTaskId: string | null; // Set when the container runs a task
+  pendingMessages: boolean;
+  pendingTasks: number;
+  paused: boolean; // The group's channel is down
 }
 
 export class GroupQueue {
+  // Keyed by conversationKey(): one entry per chat and per thread
   private groups = new Map<string, GroupState>();
   private activeCount = 0;
   private waitingGroups: string[] = [];
-  private processMessagesFn: ((groupJid: string) => Promise<boolean>) | null =
-    null;
+  private processMessagesFn:
+    | ((groupJid: string, threadId?: string) => Promise<boolean>)
+    | null = null;
   private shuttingDown = false;
+  private threadPolicy: ThreadPolicy;
+  // Groups whose channel is down: work stays pending until they resume
+  private pausedGroups = new Set<string>();
 
-  private getGroup(groupJid: string): GroupState {
-    let state = this.groups.get(groupJid);
+  constructor(threadPolicy: ThreadPolicy = THREAD_POLICY) {
+    this.threadPolicy = threadPolicy;
+  }
+
+  private getGroup(groupJid: string, threadId?: string): GroupState {
+    const key = conversationKey(groupJid, threadId);
+    let state = this.groups.get(key);
     if (!state) {
       state = {
+        groupJid,
+        threadId,
         active: false,
         idleWaiting: false,
         isTaskContainer: false,
@@ -49,41 +90,129 @@ export class GroupQueue {
         containerName: null,
         groupFolder: null,
         retryCount: 0,
+        cancelled: false,
       };
-      this.groups.set(groupJid, state);
+      this.groups.set(key, state);
     }
     return state;
   }
 
-  setProcessMessagesFn(fn: (groupJid: string) => Promise<boolean>): void {
+  /** Other conversations of the same group (its root chat and threads). */
+  private siblings(state: GroupState): GroupState[] {
+    return [...this.groups.values()].filter(
+      (s) => s !== state && s.groupJid === state.groupJid,
+    );
+  }
+
+  /**
+   * Under the serial policy a group runs one conversation at a time. When
+   * another of its conversations holds the slot, mark this one pending and
+   * wind the active container down if it is only idling.
+   */
+  private waitForSibling(state: GroupState): boolean {
+    if (this.threadPolicy !== 'serial') return false;
+    const active = this.siblings(state).find((s) => s.active);
+    if (!active) return false;
+    if (active.idleWaiting) {
+      this.closeStdin(active.groupJid, active.threadId);
+    }
+    return true;
+  }
+
+  /**
+   * Hold back new containers for a group, e.g. while its channel is down.
+   * Work that arrives meanwhile stays pending; running containers carry on.
+   */
+  pauseGroup(groupJid: string): void {
+    if (this.pausedGroups.has(groupJid)) return;
+    this.pausedGroups.add(groupJid);
+    logger.info({ groupJid }, 'Group paused');
+  }
+
+  /** Let a paused group run again, starting what queued up meanwhile. */
+  resumeGroup(groupJid: string): void {
+    if (!this.pausedGroups.delete(groupJid)) return;
+    logger.info({ groupJid }, 'Group resumed');
+    if (this.shuttingDown) return;
+    for (const [key, state] of this.groups) {
+      if (state.groupJid !== groupJid || state.active) continue;
+      if (!state.pendingMessages && state.pendingTasks.length === 0) continue;
+      if (this.waitForSibling(state)) continue;
+      if (this.activeCount >= MAX_CONCURRENT_CONTAINERS) {
+        if (!this.waitingGroups.includes(key)) this.waitingGroups.push(key);
+        continue;
+      }
+      this.startPending(state, 'waiting');
+    }
+  }
+
+  isPaused(groupJid: string): boolean {
+    return this.pausedGroups.has(groupJid);
+  }
+
+  /** What a conversation's container is doing and what is queued for it. */
+  getStatus(groupJid: string, threadId?: string): ConversationStatus {
+    const state = this.groups.get(conversationKey(groupJid, threadId));
+    return {
+      active: state?.active ?? false,
+      idleWaiting: state?.idleWaiting ?? false,
+      runningTaskId: state?.runningTaskId ?? null,
+      pendingMessages: state?.pendingMessages ?? false,
+      pendingTasks: state?.pendingTasks.length ?? 0,
+      paused: this.pausedGroups.has(groupJid),
+    };
+  }
+
+  setProcessMessagesFn(
+    fn: (groupJid: string, threadId?: string) => Promise<boolean>,
+  ): void {
     this.processMessagesFn = fn;
   }
 
-  enqueueMessageCheck(groupJid: string): void {
+  enqueueMessageCheck(groupJid: string, threadId?: string): void {
     if (this.shuttingDown) return;
 
-    const state = this.getGroup(groupJid);
+    const state = this.getGroup(groupJid, threadId);
+    const key = conversationKey(groupJid, threadId);
 
     if (state.active) {
       state.pendingMessages = true;
-      logger.debug({ groupJid }, 'Container active, message queued');
+      logger.debug({ groupJid, threadId }, 'Container active, message queued');
+      return;
+    }
+
+    if (this.pausedGroups.has(groupJid)) {
+      state.pendingMessages = true;
+      logger.debug({ groupJid, threadId }, 'Group paused, message queued');
+      return;
+    }
+
+    if (this.waitForSibling(state)) {
+      state.pendingMessages = true;
+      logger.debug(
+        { groupJid, threadId },
+        'Another conversation in group active, message queued',
+      );
       return;
     }
 
     if (this.activeCount >= MAX_CONCURRENT_CONTAINERS) {
       state.pendingMessages = true;
-      if (!this.waitingGroups.includes(groupJid)) {
-        this.waitingGroups.push(groupJid);
+      if (!this.waitingGroups.includes(key)) {
+        this.waitingGroups.push(key);
       }
       logger.debug(
-        { groupJid, activeCount: this.activeCount },
+        { groupJid, threadId, activeCount: this.activeCount },
         'At concurrency limit, message queued',
       );
       return;
     }
 
-    this.runForGroup(groupJid, 'messages').catch((err) =>
-      logger.error({ groupJid, err }, 'Unhandled error in runForGroup'),
+    this.runForGroup(state, 'messages').catch((err) =>
+      logger.error(
+        { groupJid, threadId, err },
+        'Unhandled error in runForGroup',
+      ),
     );
   }
 
@@ -111,6 +240,21 @@ export class GroupQueue {
       return;
     }
 
+    if (this.pausedGroups.has(groupJid)) {
+      state.pendingTasks.push({ id: taskId, groupJid, fn });
+      logger.debug({ groupJid, taskId }, 'Group paused, task queued');
+      return;
+    }
+
+    if (this.waitForSibling(state)) {
+      state.pendingTasks.push({ id: taskId, groupJid, fn });
+      logger.debug(
+        { groupJid, taskId },
+        'Another conversation in group active, task queued',
+      );
+      return;
+    }
+
     if (this.activeCount >= MAX_CONCURRENT_CONTAINERS) {
       state.pendingTasks.push({ id: taskId, groupJid, fn });
       if (!this.waitingGroups.includes(groupJid)) {
@@ -124,7 +268,7 @@ export class GroupQueue {
     }
 
     // Run immediately
-    this.runTask(groupJid, { id: taskId, groupJid, fn }).catch((err) =>
+    this.runTask(state, { id: taskId, groupJid, fn }).catch((err) =>
       logger.error({ groupJid, taskId, err }, 'Unhandled error in runTask'),
     );
   }
@@ -134,22 +278,74 @@ export class GroupQueue {
     proc: ChildProcess,
     containerName: string,
     groupFolder?: string,
+    threadId?: string,
   ): void {
-    const state = this.getGroup(groupJid);
+    const state = this.getGroup(groupJid, threadId);
     state.process = proc;
     state.containerName = containerName;
     if (groupFolder) state.groupFolder = groupFolder;
+    // Cancelled while the container was starting
+    if (state.cancelled) this.enforceCancel(state);
+  }
+
+  /**
+   * Stop the conversation's running container: ask it to wind down, and
+   * stop it outright if it is still running after CANCEL_GRACE_PERIOD.
+   * Its input counts as handled, so it is not retried. Returns false when
+   * nothing is running.
+   */
+  cancel(groupJid: string, threadId?: string): boolean {
+    const state = this.getGroup(groupJid, threadId);
+    if (!state.active) return false;
+    if (state.cancelled) return true;
+    state.cancelled = true;
+    logger.info({ groupJid, threadId }, 'Cancelling run');
+    if (state.process) this.enforceCancel(state);
+    return true;
+  }
+
+  /** Whether the conversation's current run was cancelled. */
+  isCancelled(groupJid: string, threadId?: string): boolean {
+    return this.getGroup(groupJid, threadId).cancelled;
+  }
+
+  private enforceCancel(state: GroupState): void {
+    const { groupJid, threadId, process: proc, containerName } = state;
+    this.closeStdin(groupJid, threadId);
+    setTimeout(() => {
+      // Exited in time: runForGroup/runTask cleared or replaced the process
+      if (!containerName || state.process !== proc) return;
+      logger.warn(
+        { groupJid, threadId, containerName },
+        'Container still running after cancel, stopping it',
+      );
+      exec(stopContainer(containerName), { timeout: 15000 }, (err) => {
+        if (err) {
+          logger.warn(
+            { groupJid, containerName, err },
+            'Stopping cancelled container failed, force killing',
+          );
+          proc?.kill('SIGKILL');
+        }
+      });
+    }, CANCEL_GRACE_PERIOD);
   }
 
   /**
    * Mark the container as idle-waiting (finished work, waiting for IPC input).
-   * If tasks are pending, preempt the idle container immediately.
+   * If tasks are pending, or (serial policy) another conversation in the
+   * group is waiting, preempt the idle container immediately.
    */
-  notifyIdle(groupJid: string): void {
-    const state = this.getGroup(groupJid);
+  notifyIdle(groupJid: string, threadId?: string): void {
+    const state = this.getGroup(groupJid, threadId);
     state.idleWaiting = true;
-    if (state.pendingTasks.length > 0) {
-      this.closeStdin(groupJid);
+    const siblingWaiting =
+      this.threadPolicy === 'serial' &&
+      this.siblings(state).some(
+        (s) => s.pendingMessages || s.pendingTasks.length > 0,
+      );
+    if (state.pendingTasks.length > 0 || siblingWaiting) {
+      this.closeStdin(groupJid, threadId);
     }
   }
 
@@ -157,13 +353,20 @@ export class GroupQueue {
    * Send a follow-up message to the active container via IPC file.
    * Returns true if the message was written, false if no active container.
    */
-  sendMessage(groupJid: string, text: string): boolean {
-    const state = this.getGroup(groupJid);
-    if (!state.active || !state.groupFolder || state.isTaskContainer)
+  sendMessage(groupJid: string, text: string, threadId?: string): boolean {
+    const state = this.getGroup(groupJid, threadId);
+    // A cancelled container is shutting down and its output is dropped:
+    // leave the message for the next run
+    if (
+      !state.active ||
+      !state.groupFolder ||
+      state.isTaskContainer ||
+      state.cancelled
+    )
       return false;
     state.idleWaiting = false; // Agent is about to receive work, no longer idle
 
-    const inputDir = path.join(DATA_DIR, 'ipc', state.groupFolder, 'input');
+    const inputDir = resolveIpcInputPath(state.groupFolder, threadId);
     try {
       fs.mkdirSync(inputDir, { recursive: true });
       const filename = `${Date.now()}-${Math.random().toString(36).slice(2, 6)}.json`;
@@ -180,11 +383,11 @@ export class GroupQueue {
   /**
    * Signal the active container to wind down by writing a close sentinel.
    */
-  closeStdin(groupJid: string): void {
-    const state = this.getGroup(groupJid);
+  closeStdin(groupJid: string, threadId?: string): void {
+    const state = this.getGroup(groupJid, threadId);
     if (!state.active || !state.groupFolder) return;
 
-    const inputDir = path.join(DATA_DIR, 'ipc', state.groupFolder, 'input');
+    const inputDir = resolveIpcInputPath(state.groupFolder, threadId);
     try {
       fs.mkdirSync(inputDir, { recursive: true });
       fs.writeFileSync(path.join(inputDir, '_close'), '');
@@ -194,10 +397,10 @@ export class GroupQueue {
   }
 
   private async runForGroup(
-    groupJid: string,
+    state: GroupState,
     reason: 'messages' | 'drain',
   ): Promise<void> {
-    const state = this.getGroup(groupJid);
+    const { groupJid, threadId } = state;
     state.active = true;
     state.idleWaiting = false;
     state.isTaskContainer = false;
@@ -205,34 +408,38 @@ export class GroupQueue {
     this.activeCount++;
 
     logger.debug(
-      { groupJid, reason, activeCount: this.activeCount },
+      { groupJid, threadId, reason, activeCount: this.activeCount },
       'Starting container for group',
     );
 
     try {
       if (this.processMessagesFn) {
-        const success = await this.processMessagesFn(groupJid);
-        if (success) {
+        const success = await this.processMessagesFn(groupJid, threadId);
+        if (success || state.cancelled) {
           state.retryCount = 0;
         } else {
-          this.scheduleRetry(groupJid, state);
+          this.scheduleRetry(state);
         }
       }
     } catch (err) {
-      logger.error({ groupJid, err }, 'Error processing messages for group');
-      this.scheduleRetry(groupJid, state);
+      logger.error(
+        { groupJid, threadId, err },
+        'Error processing messages for group',
+      );
+      if (!state.cancelled) this.scheduleRetry(state);
     } finally {
       state.active = false;
+      state.cancelled = false;
       state.process = null;
       state.containerName = null;
       state.groupFolder = null;
       this.activeCount--;
-      this.drainGroup(groupJid);
+      this.drainGroup(state);
     }
   }
 
-  private async runTask(groupJid: string, task: QueuedTask): Promise<void> {
-    const state = this.getGroup(groupJid);
+  private async runTask(state: GroupState, task: QueuedTask): Promise<void> {
+    const { groupJid } = state;
     state.active = true;
     state.idleWaiting = false;
     state.isTaskContainer = true;
@@ -250,21 +457,23 @@ export class GroupQueue {
       logger.error({ groupJid, taskId: task.id, err }, 'Error running task');
     } finally {
       state.active = false;
+      state.cancelled = false;
       state.isTaskContainer = false;
       state.runningTaskId = null;
       state.process = null;
       state.containerName = null;
       state.groupFolder = null;
       this.activeCount--;
-      this.drainGroup(groupJid);
+      this.drainGroup(state);
     }
   }
 
-  private scheduleRetry(groupJid: string, state: GroupState): void {
+  private scheduleRetry(state: GroupState): void {
+    const { groupJid, threadId } = state;
     state.retryCount++;
     if (state.retryCount > MAX_RETRIES) {
       logger.error(
-        { groupJid, retryCount: state.retryCount },
+        { groupJid, threadId, retryCount: state.retryCount },
         'Max retries exceeded, dropping messages (will retry on next incoming message)',
       );
       state.retryCount = 0;
@@ -273,46 +482,67 @@ export class GroupQueue {
 
     const delayMs = BASE_RETRY_MS * Math.pow(2, state.retryCount - 1);
     logger.info(
-      { groupJid, retryCount: state.retryCount, delayMs },
+      { groupJid, threadId, retryCount: state.retryCount, delayMs },
       'Scheduling retry with backoff',
     );
     setTimeout(() => {
       if (!this.shuttingDown) {
-        this.enqueueMessageCheck(groupJid);
+        this.enqueueMessageCheck(groupJid, threadId);
       }
     }, delayMs);
   }
 
-  private drainGroup(groupJid: string): void {
+  private drainGroup(state: GroupState): void {
     if (this.shuttingDown) return;
 
-    const state = this.getGroup(groupJid);
+    // A paused group keeps its pending work until resumeGroup()
+    if (this.pausedGroups.has(state.groupJid)) {
+      this.drainWaiting();
+      return;
+    }
+
+    // Tasks first (they won't be re-discovered from SQLite like messages),
+    // then pending messages
+    if (state.pendingTasks.length > 0 || state.pendingMessages) {
+      this.startPending(state, 'drain');
+      return;
+    }
+
+    // Serial policy: hand the slot to a conversation of this group that
+    // was held back while this one ran
+    if (this.threadPolicy === 'serial') {
+      const next = this.siblings(state).find(
+        (s) => !s.active && (s.pendingMessages || s.pendingTasks.length > 0),
+      );
+      if (next) {
+        this.startPending(next, 'drain');
+        return;
+      }
+    }
+
+    // Nothing pending for this group; check if other groups are waiting for a slot
+    this.drainWaiting();
+  }
 
-    // Tasks first (they won't be re-discovered from SQLite like messages)
+  private startPending(state: GroupState, source: 'drain' | 'waiting'): void {
+    const { groupJid, threadId } = state;
+    // Prioritize tasks over messages
     if (state.pendingTasks.length > 0) {
       const task = state.pendingTasks.shift()!;
-      this.runTask(groupJid, task).catch((err) =>
+      this.runTask(state, task).catch((err) =>
         logger.error(
           { groupJid, taskId: task.id, err },
-          'Unhandled error in runTask (drain)',
+          `Unhandled error in runTask (${source})`,
         ),
       );
-      return;
-    }
-
-    // Then pending messages
-    if (state.pendingMessages) {
-      this.runForGroup(groupJid, 'drain').catch((err) =>
+    } else if (state.pendingMessages) {
+      this.runForGroup(state, 'drain').catch((err) =>
         logger.error(
-          { groupJid, err },
-          'Unhandled error in runForGroup (drain)',
+          { groupJid, threadId, err },
+          `Unhandled error in runForGroup (${source})`,
         ),
       );
-      return;
     }
-
-    // Nothing pending for this group; check if other groups are waiting for a slot
-    this.drainWaiting();
   }
 
   private drainWaiting(): void {
@@ -320,27 +550,19 @@ export class GroupQueue {
       this.waitingGroups.length > 0 &&
       this.activeCount < MAX_CONCURRENT_CONTAINERS
     ) {
-      const nextJid = this.waitingGroups.shift()!;
-      const state = this.getGroup(nextJid);
-
-      // Prioritize tasks over messages
-      if (state.pendingTasks.length > 0) {
-        const task = state.pendingTasks.shift()!;
-        this.runTask(nextJid, task).catch((err) =>
-          logger.error(
-            { groupJid: nextJid, taskId: task.id, err },
-            'Unhandled error in runTask (waiting)',
-          ),
-        );
-      } else if (state.pendingMessages) {
-        this.runForGroup(nextJid, 'drain').catch((err) =>
-          logger.error(
-            { groupJid: nextJid, err },
-            'Unhandled error in runForGroup (waiting)',
-          ),
-        );
+      const state = this.groups.get(this.waitingGroups.shift()!);
+      // Skip conversations that have nothing pending or are held back by
+      // another conversation of their group (it hands over when done) or a
+      // pause (resumeGroup starts them)
+      if (
+        !state ||
+        state.active ||
+        this.pausedGroups.has(state.groupJid) ||
+        this.waitForSibling(state)
+      ) {
+        continue;
       }
-      // If neither pending, skip this group
+      this.startPending(state, 'waiting');
     }
   }
 
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('./container-runner.js', () => ({
+  runContainerAgent: vi.fn(),
+  writeFeedbackSnapshot: vi.fn(),
+  writeGroupsSnapshot: vi.fn(),
+  writePeopleSnapshot: vi.fn(),
+  writeTasksSnapshot: vi.fn(),
+}));
+
+import { runContainerAgent } from './container-runner.js';
+import { _initTestDatabase, getSession, setSession } from './db.js';
+import { _commandDeps, _runAgent } from './index.js';
+import { RegisteredGroup } from './types.js';
+
+const GROUP: RegisteredGroup = {
+  name: 'Team',
+  folder: 'team',
+  trigger: '@Andy',
+  added_at: '2024-01-01T00:00:00.000Z',
+};
+
+beforeEach(() => {
+  _initTestDatabase();
+  vi.mocked(runContainerAgent).mockReset();
+});
+
+describe('runAgent sessions', () => {
+  it('saves the session the container reports', async () => {
+    vi.mocked(runContainerAgent).mockResolvedValue({
+      status: 'success',
+      result: null,
+      newSessionId: 'session-2',
+    });
+
+    await _runAgent(GROUP, 'hi', 'team@g.us', undefined);
+
+    expect(getSession('team')).toBe('session-2');
+  });
+
+  it('does not restore a session cleared during the run', async () => {
+    setSession('team', 'session-1');
+    vi.mocked(runContainerAgent).mockImplementation(
+      async (_group, _input, _onProcess, onOutput) => {
+        // /reset arrives while the container is still answering
+        _commandDeps.clearSession(GROUP);
+        await onOutput?.({
+          status: 'success',
+          result: 'partial',
+          newSessionId: 'session-2',
+        });
+        return { status: 'success', result: null, newSessionId: 'session-2' };
+      },
+    );
+
+    await _runAgent(GROUP, 'hi', 'team@g.us', undefined, async () => {});
+
+    expect(getSession('team')).toBeUndefined();
+    expect(_commandDeps.hasSession(GROUP)).toBe(false);
+  });
+
+  it('keeps saving other threads after a reset', async () => {
+    vi.mocked(runContainerAgent).mockImplementation(async () => {
+      _commandDeps.clearSession(GROUP);
+      return { status: 'success', result: null, newSessionId: 'session-3' };
+    });
+
+    await _runAgent(GROUP, 'hi', 'team@g.us', 'thread-1');
+
+    expect(getSession('team', 'thread-1')).toBe('session-3');
+  });
+});
@@ -3,22 +3,33 @@ import path from 'path';
 
 import {
   ASSISTANT_NAME,
+  CHANNEL_INSTANCES,
   CREDENTIAL_PROXY_PORT,
   IDLE_TIMEOUT,
-  POLL_INTERVAL,
+  MESSAGE_DEBOUNCE_MAX_MS,
+  MESSAGE_DEBOUNCE_MS,
+  MESSAGE_SWEEP_INTERVAL,
   TIMEZONE,
-  TRIGGER_PATTERN,
 } from './config.js';
+import { saveAttachments } from './attachments.js';
 import { startCredentialProxy } from './credential-proxy.js';
+import { CommandDeps, parseCommand, runCommand } from './commands.js';
+import { Debouncer } from './debounce.js';
 import './channels/index.js';
+import { ChannelSupervisor } from './channel-supervisor.js';
 import {
+  channelInstanceName,
   getChannelFactory,
   getRegisteredChannelNames,
+  isFallbackChannel,
+  parseChannelInstance,
 } from './channels/registry.js';
 import {
   ContainerOutput,
   runContainerAgent,
+  writeFeedbackSnapshot,
   writeGroupsSnapshot,
+  writePeopleSnapshot,
   writeTasksSnapshot,
 } from './container-runner.js';
 import {
@@ -27,25 +38,46 @@ import {
   PROXY_BIND_HOST,
 } from './container-runtime.js';
 import {
+  deleteSession,
   getAllChats,
+  getAllPeople,
   getAllRegisteredGroups,
   getAllSessions,
   getAllTasks,
+  getAllThreadSessions,
+  getFeedback,
   getMessagesSince,
   getNewMessages,
+  getPersonBySender,
   getRegisteredGroup,
   getRouterState,
+  getThreadIdsSince,
+  getThreadMessagesSince,
   initDatabase,
+  markMessageDeleted,
+  recordMessageEdit,
+  removeReactionById,
   setRegisteredGroup,
   setRouterState,
   setSession,
   storeChatMetadata,
   storeMessage,
+  storeMessageDirect,
+  storeReaction,
 } from './db.js';
-import { GroupQueue } from './group-queue.js';
+import { conversationKey, GroupQueue } from './group-queue.js';
 import { resolveGroupFolderPath } from './group-folder.js';
 import { startIpcWatcher } from './ipc.js';
-import { findChannel, formatMessages, formatOutbound } from './router.js';
+import { deliver, startOutboxWorker } from './outbox.js';
+import { answerPrompt, askUser, matchTextAnswer } from './prompts.js';
+import { ReplyStream } from './reply-stream.js';
+import {
+  findChannel,
+  formatMessages,
+  formatOutbound,
+  getCapabilities,
+  sendOutboundFile,
+} from './router.js';
 import {
   isSenderAllowed,
   isTriggerAllowed,
@@ -53,7 +85,16 @@ import {
   shouldDropMessage,
 } from './sender-allowlist.js';
 import { startSchedulerLoop } from './task-scheduler.js';
-import { Channel, NewMessage, RegisteredGroup } from './types.js';
+import { matchesTrigger } from './trigger.js';
+import {
+  Channel,
+  InboundAttachment,
+  NewMessage,
+  Person,
+  Reaction,
+  RegisteredGroup,
+  SendOptions,
+} from './types.js';
 import { logger } from './logger.js';
 
 // Re-export for backwards compatibility during refactor
@@ -61,12 +102,39 @@ export { escapeXml, formatMessages } from './router.js';
 
 let lastTimestamp = '';
 let sessions: Record<string, string> = {};
+let threadSessions: Record<string, Record<string, string>> = {};
+// Bumped by clearSession, so a run that started before a /reset does not
+// write its session back afterwards
+const sessionResets: Record<string, number> = {};
 let registeredGroups: Record<string, RegisteredGroup> = {};
 let lastAgentTimestamp: Record<string, string> = {};
 let messageLoopRunning = false;
+// Set while the message loop sleeps; calling it wakes the loop early
+let messageLoopWake: (() => void) | null = null;
+// Set when a message arrives, so a pass that missed it runs again
+let messageLoopWoken = false;
 
 const channels: Channel[] = [];
 const queue = new GroupQueue();
+// Triggers waiting for their sender to finish typing
+const debouncer = new Debouncer(MESSAGE_DEBOUNCE_MAX_MS);
+let channelSupervisor: ChannelSupervisor | undefined;
+// Replies being streamed, by conversation key, so send_message progress
+// updates can join them
+const replyStreams = new Map<string, ReplyStream>();
+
+// Reactions on the message a run answers: while it works, then its outcome
+const WORKING_REACTION = '👀';
+const DONE_REACTION = '✅';
+const FAILED_REACTION = '❌';
+// Reacting with this to the message a run answers cancels the run; the
+// host also marks cancelled runs with it
+const STOP_REACTION = '🛑';
+// The message each running conversation answers, by conversation key
+const runMessages = new Map<
+  string,
+  { chatJid: string; threadId?: string; messageId: string }
+>();
 
 function loadState(): void {
   lastTimestamp = getRouterState('last_timestamp') || '';
@@ -78,6 +146,7 @@ function loadState(): void {
     lastAgentTimestamp = {};
   }
   sessions = getAllSessions();
+  threadSessions = getAllThreadSessions();
   registeredGroups = getAllRegisteredGroups();
   logger.info(
     { groupCount: Object.keys(registeredGroups).length },
@@ -140,10 +209,196 @@ export function _setRegisteredGroups(
 }
 
 /**
- * Process all pending messages for a group.
- * Called by the GroupQueue when it's this group's turn.
+ * Messages after a cursor in one conversation: the chat itself, or one of
+ * its threads.
+ */
+function getConversationMessages(
+  chatJid: string,
+  threadId: string | undefined,
+  sinceTimestamp: string,
+): NewMessage[] {
+  return threadId
+    ? getThreadMessagesSince(chatJid, threadId, sinceTimestamp, ASSISTANT_NAME)
+    : getMessagesSince(chatJid, sinceTimestamp, ASSISTANT_NAME);
+}
+
+/**
+ * Store a message the assistant sent, so reactions to it can be read as
+ * feedback. Called again with the full text after each edit.
+ */
+function recordSentMessage(
+  chatJid: string,
+  messageId: string,
+  text: string,
+  threadId?: string,
+): void {
+  storeMessageDirect({
+    id: messageId,
+    chat_jid: chatJid,
+    sender: ASSISTANT_NAME,
+    sender_name: ASSISTANT_NAME,
+    content: text,
+    timestamp: new Date().toISOString(),
+    is_from_me: true,
+    is_bot_message: true,
+    thread_id: threadId,
+  });
+}
+
+/** React to a message where the channel supports it; failures only log. */
+async function acknowledge(
+  channel: Channel,
+  chatJid: string,
+  messageId: string,
+  emoji: string,
+): Promise<void> {
+  if (!channel.react || !getCapabilities(channel).reactions) return;
+  try {
+    await channel.react(chatJid, messageId, emoji);
+  } catch (err) {
+    logger.debug({ chatJid, messageId, err }, 'Failed to react to message');
+  }
+}
+
+/**
+ * The person behind a sender in a chat. Only IDs the chat's channel
+ * vouches for count, so a forged sender cannot borrow someone's rights.
+ */
+function findPerson(chatJid: string, sender: string): Person | undefined {
+  const channel = findChannel(channels, chatJid);
+  if (!channel || channel.isVerifiedSender?.(sender) === false) return;
+  return getPersonBySender(channel.name, sender);
+}
+
+/**
+ * Hand the answer to an open ask_user prompt to the waiting agent. Only
+ * senders the allowlist lets trigger the agent may answer.
+ */
+function answerFromChat(
+  chatJid: string,
+  promptId: string,
+  choice: number,
+  sender: string,
+  senderName: string,
+): boolean {
+  const person = findPerson(chatJid, sender);
+  if (!isSenderAllowed(chatJid, sender, loadSenderAllowlist(), person)) {
+    logger.debug({ chatJid, sender, promptId }, 'Prompt answer not allowed');
+    return false;
+  }
+  return answerPrompt(
+    chatJid,
+    promptId,
+    choice,
+    person?.display_name ?? senderName,
+  );
+}
+
+const commandDeps: CommandDeps = {
+  timezone: TIMEZONE,
+  channelName: (jid) => findChannel(channels, jid)?.name,
+  channelStatus: () => channelSupervisor?.status() ?? [],
+  conversationStatus: (chatJid, threadId) => queue.getStatus(chatJid, threadId),
+  stopConversation: (chatJid, threadId) => queue.cancel(chatJid, threadId),
+  hasSession: (group, threadId) =>
+    !!(threadId
+      ? threadSessions[group.folder]?.[threadId]
+      : sessions[group.folder]),
+  clearSession: (group, threadId) => {
+    const key = conversationKey(group.folder, threadId);
+    sessionResets[key] = (sessionResets[key] ?? 0) + 1;
+    if (threadId) delete threadSessions[group.folder]?.[threadId];
+    else delete sessions[group.folder];
+    deleteSession(group.folder, threadId);
+  },
+  updateGroup: (jid, group) => {
+    registeredGroups[jid] = group;
+    setRegisteredGroup(jid, group);
+  },
+};
+
+/**
+ * Run a slash command from a registered chat and reply to it. Only senders
+ * the allowlist lets trigger the agent may use them; returns false for
+ * anyone else, whose message is then stored like any other.
+ */
+function handleCommand(
+  chatJid: string,
+  msg: NewMessage,
+  command: { name: string; args: string },
+): boolean {
+  if (
+    !msg.is_from_me &&
+    !isTriggerAllowed(
+      chatJid,
+      msg.sender,
+      loadSenderAllowlist(),
+      findPerson(chatJid, msg.sender),
+    )
+  ) {
+    logger.debug({ chatJid, sender: msg.sender }, 'Command not allowed');
+    return false;
+  }
+  const threadId = msg.thread_id || undefined;
+  let reply: string;
+  try {
+    reply = runCommand(
+      command.name,
+      {
+        chatJid,
+        threadId,
+        group: registeredGroups[chatJid],
+        args: command.args,
+      },
+      commandDeps,
+    );
+  } catch (err) {
+    logger.error({ chatJid, command: command.name, err }, 'Command failed');
+    reply = `/${command.name} failed.`;
+  }
+  logger.info({ chatJid, command: command.name }, 'Command handled');
+  deliver(
+    findChannel(channels, chatJid),
+    chatJid,
+    reply,
+    threadId ? { threadId } : undefined,
+  ).catch((err) =>
+    logger.error({ chatJid, err }, 'Failed to send command reply'),
+  );
+  return true;
+}
+
+/**
+ * Cancel the run answering the message someone reacted to with
+ * STOP_REACTION, if they may trigger the agent.
  */
-async function processGroupMessages(chatJid: string): Promise<boolean> {
+function stopFromReaction(chatJid: string, reaction: Reaction): void {
+  const run = [...runMessages.values()].find(
+    (r) => r.chatJid === chatJid && r.messageId === reaction.message_id,
+  );
+  if (!run) return;
+  if (
+    !isTriggerAllowed(
+      chatJid,
+      reaction.sender,
+      loadSenderAllowlist(),
+      findPerson(chatJid, reaction.sender),
+    )
+  ) {
+    logger.debug({ chatJid, sender: reaction.sender }, 'Stop not allowed');
+    return;
+  }
+  queue.cancel(chatJid, run.threadId);
+}
+
+/**
+ * Process all pending messages for a group, or for one of its threads.
+ * Called by the GroupQueue when it's this conversation's turn.
+ */
+async function processGroupMessages(
+  chatJid: string,
+  threadId?: string,
+): Promise<boolean> {
   const group = registeredGroups[chatJid];
   if (!group) return true;
 
@@ -154,12 +409,13 @@ async function processGroupMessages(chatJid: string): Promise<boolean> {
   }
 
   const isMainGroup = group.isMain === true;
+  const cursorKey = conversationKey(chatJid, threadId);
 
-  const sinceTimestamp = lastAgentTimestamp[chatJid] || '';
-  const missedMessages = getMessagesSince(
+  const sinceTimestamp = lastAgentTimestamp[cursorKey] || '';
+  const missedMessages = getConversationMessages(
     chatJid,
+    threadId,
     sinceTimestamp,
-    ASSISTANT_NAME,
   );
 
   if (missedMessages.length === 0) return true;
@@ -169,23 +425,48 @@ async function processGroupMessages(chatJid: string): Promise<boolean> {
     const allowlistCfg = loadSenderAllowlist();
     const hasTrigger = missedMessages.some(
       (m) =>
-        TRIGGER_PATTERN.test(m.content.trim()) &&
-        (m.is_from_me || isTriggerAllowed(chatJid, m.sender, allowlistCfg)),
+        matchesTrigger(group, m.content) &&
+        (m.is_from_me ||
+          isTriggerAllowed(
+            chatJid,
+            m.sender,
+            allowlistCfg,
+            findPerson(chatJid, m.sender),
+          )),
     );
     if (!hasTrigger) return true;
   }
 
-  const prompt = formatMessages(missedMessages, TIMEZONE);
+  const prompt = formatMessages(missedMessages, TIMEZONE, findPerson);
 
-  // Advance cursor so the piping path in startMessageLoop won't re-fetch
+  // Answer in the thread the conversation is in, quoting the message that
+  // triggered the run when the group needs a trigger (busy groups)
+  const triggerMessage =
+    !isMainGroup && group.requiresTrigger !== false
+      ? [...missedMessages]
+          .reverse()
+          .find((m) => matchesTrigger(group, m.content))
+      : undefined;
+  const replyOptions: SendOptions | undefined =
+    triggerMessage || threadId
+      ? { replyTo: triggerMessage?.id, threadId }
+      : undefined;
+  const stream = new ReplyStream(channel, chatJid, replyOptions, (id, text) =>
+    recordSentMessage(chatJid, id, text, threadId),
+  );
+  replyStreams.set(cursorKey, stream);
+  const ackMessage =
+    triggerMessage ?? missedMessages[missedMessages.length - 1];
+
+  // Advance cursor so the piping path in routeNewMessages won't re-fetch
   // these messages. Save the old cursor so we can roll back on error.
-  const previousCursor = lastAgentTimestamp[chatJid] || '';
-  lastAgentTimestamp[chatJid] =
+  const previousCursor = lastAgentTimestamp[cursorKey] || '';
+  lastAgentTimestamp[cursorKey] =
     missedMessages[missedMessages.length - 1].timestamp;
   saveState();
 
   logger.info(
-    { group: group.name, messageCount: missedMessages.length },
+    { group: group.name, threadId, messageCount: missedMessages.length },
     'Processing messages',
   );
 
@@ -199,44 +480,77 @@ async function processGroupMessages(chatJid: string): Promise<boolean> {
         { group: group.name },
         'Idle timeout, closing container stdin',
       );
-      queue.closeStdin(chatJid);
+      queue.closeStdin(chatJid, threadId);
     }, IDLE_TIMEOUT);
   };
 
   await channel.setTyping?.(chatJid, true);
+  await acknowledge(channel, chatJid, ackMessage.id, WORKING_REACTION);
+  runMessages.set(cursorKey, { chatJid, threadId, messageId: ackMessage.id });
   let hadError = false;
   let outputSentToUser = false;
 
-  const output = await runAgent(group, prompt, chatJid, async (result) => {
-    // Streaming output callback — called for each agent result
-    if (result.result) {
-      const raw =
-        typeof result.result === 'string'
-          ? result.result
-          : JSON.stringify(result.result);
-      // Strip <internal>...</internal> blocks — agent uses these for internal reasoning
-      const text = raw.replace(/<internal>[\s\S]*?<\/internal>/g, '').trim();
-      logger.info({ group: group.name }, `Agent output: ${raw.slice(0, 200)}`);
-      if (text) {
-        await channel.sendMessage(chatJid, text);
-        outputSentToUser = true;
+  const output = await runAgent(
+    group,
+    prompt,
+    chatJid,
+    threadId,
+    async (result) => {
+      // Streaming output callback — called for each agent result
+      // A cancelled run may still say something before it stops; drop it
+      if (queue.isCancelled(chatJid, threadId)) return;
+      if (result.result) {
+        const raw =
+          typeof result.result === 'string'
+            ? result.result
+            : JSON.stringify(result.result);
+        // Strip <internal>...</internal> blocks — agent uses these for internal reasoning
+        const text = formatOutbound(raw);
+        logger.info(
+          { group: group.name },
+          `Agent output: ${raw.slice(0, 200)}`,
+        );
+        if (text) {
+          await stream.append(text);
+          outputSentToUser = true;
+        }
+        // Only reset idle timer on actual results, not session-update markers (result: null)
+        resetIdleTimer();
+      } else if (result.status === 'success') {
+        // The query ended: make the final edit to the streamed reply
+        await stream.flush();
       }
-      // Only reset idle timer on actual results, not session-update markers (result: null)
-      resetIdleTimer();
-    }
 
-    if (result.status === 'success') {
-      queue.notifyIdle(chatJid);
-    }
+      if (result.status === 'success') {
+        queue.notifyIdle(chatJid, threadId);
+      }
 
-    if (result.status === 'error') {
-      hadError = true;
-    }
-  });
+      if (result.status === 'error') {
+        hadError = true;
+      }
+    },
+  );
 
+  replyStreams.delete(cursorKey);
+  runMessages.delete(cursorKey);
+  await stream.flush();
   await channel.setTyping?.(chatJid, false);
   if (idleTimer) clearTimeout(idleTimer);
 
+  if (queue.isCancelled(chatJid, threadId)) {
+    // Keep the cursor past the cancelled input so it isn't run again
+    await acknowledge(channel, chatJid, ackMessage.id, STOP_REACTION);
+    logger.info({ group: group.name, threadId }, 'Run cancelled');
+    return true;
+  }
+
+  await acknowledge(
+    channel,
+    chatJid,
+    ackMessage.id,
+    output === 'error' || hadError ? FAILED_REACTION : DONE_REACTION,
+  );
+
   if (output === 'error' || hadError) {
     // If we already sent output to the user, don't roll back the cursor —
     // the user got their response and re-processing would send duplicates.
@@ -248,7 +562,7 @@ async function processGroupMessages(chatJid: string): Promise<boolean> {
       return true;
     }
     // Roll back cursor so retries can re-process these messages
-    lastAgentTimestamp[chatJid] = previousCursor;
+    lastAgentTimestamp[cursorKey] = previousCursor;
     saveState();
     logger.warn(
       { group: group.name },
@@ -264,10 +578,26 @@ async function runAgent(
   group: RegisteredGroup,
   prompt: string,
   chatJid: string,
+  threadId: string | undefined,
   onOutput?: (output: ContainerOutput) => Promise<void>,
 ): Promise<'success' | 'error'> {
   const isMain = group.isMain === true;
-  const sessionId = sessions[group.folder];
+  // Each thread has its own session; the group folder and memory are shared
+  const sessionId = threadId
+    ? threadSessions[group.folder]?.[threadId]
+    : sessions[group.folder];
+  const resetKey = conversationKey(group.folder, threadId);
+  const resets = sessionResets[resetKey] ?? 0;
+  const saveSession = (newSessionId: string) => {
+    // Cleared while this run was going; its session is the one discarded
+    if ((sessionResets[resetKey] ?? 0) !== resets) return;
+    if (threadId) {
+      (threadSessions[group.folder] ??= {})[threadId] = newSessionId;
+    } else {
+      sessions[group.folder] = newSessionId;
+    }
+    setSession(group.folder, newSessionId, threadId);
+  };
 
   // Update tasks snapshot for container to read (filtered by group)
   const tasks = getAllTasks();
@@ -285,6 +615,12 @@ async function runAgent(
     })),
   );
 
+  // Reactions to the assistant's messages, for get_feedback
+  writeFeedbackSnapshot(group.folder, getFeedback(chatJid));
+
+  // Linked identities, for list_people (main group only)
+  writePeopleSnapshot(group.folder, isMain, getAllPeople());
+
   // Update available groups snapshot (main group only can see all groups)
   const availableGroups = getAvailableGroups();
   writeGroupsSnapshot(
@@ -297,10 +633,7 @@ async function runAgent(
   // Wrap onOutput to track session ID from streamed results
   const wrappedOnOutput = onOutput
     ? async (output: ContainerOutput) => {
-        if (output.newSessionId) {
-          sessions[group.folder] = output.newSessionId;
-          setSession(group.folder, output.newSessionId);
-        }
+        if (output.newSessionId) saveSession(output.newSessionId);
         await onOutput(output);
       }
     : undefined;
@@ -313,18 +646,23 @@ async function runAgent(
         sessionId,
         groupFolder: group.folder,
         chatJid,
+        threadId,
         isMain,
         assistantName: ASSISTANT_NAME,
+        model: group.model,
       },
       (proc, containerName) =>
-        queue.registerProcess(chatJid, proc, containerName, group.folder),
+        queue.registerProcess(
+          chatJid,
+          proc,
+          containerName,
+          group.folder,
+          threadId,
+        ),
       wrappedOnOutput,
     );
 
-    if (output.newSessionId) {
-      sessions[group.folder] = output.newSessionId;
-      setSession(group.folder, output.newSessionId);
-    }
+    if (output.newSessionId) saveSession(output.newSessionId);
 
     if (output.status === 'error') {
       logger.error(
@@ -341,6 +679,173 @@ async function runAgent(
   }
 }
 
+/** @internal - exported for testing */
+export const _runAgent = runAgent;
+
+/** @internal - exported for testing */
+export const _commandDeps = commandDeps;
+
+/**
+ * Hand a conversation's unprocessed messages to its running container, or
+ * queue it for a new one. fallback is used when the cursor already covers
+ * everything (the messages that prompted the call).
+ */
+function dispatchMessages(
+  chatJid: string,
+  threadId: string | undefined,
+  fallback: NewMessage[],
+): void {
+  const key = conversationKey(chatJid, threadId);
+  const channel = findChannel(channels, chatJid);
+  if (!registeredGroups[chatJid] || !channel) return;
+
+  // Pull all messages since lastAgentTimestamp so non-trigger
+  // context that accumulated between triggers is included.
+  const allPending = getConversationMessages(
+    chatJid,
+    threadId,
+    lastAgentTimestamp[key] || '',
+  );
+  const messagesToSend = allPending.length > 0 ? allPending : fallback;
+  if (messagesToSend.length === 0) return;
+  const formatted = formatMessages(messagesToSend, TIMEZONE, findPerson);
+
+  if (queue.sendMessage(chatJid, formatted, threadId)) {
+    logger.debug(
+      { chatJid, threadId, count: messagesToSend.length },
+      'Piped messages to active container',
+    );
+    lastAgentTimestamp[key] =
+      messagesToSend[messagesToSend.length - 1].timestamp;
+    saveState();
+    // The answer to these messages starts a new reply
+    replyStreams
+      .get(key)
+      ?.flush()
+      .catch((err) => logger.warn({ chatJid, err }, 'Failed to finish reply'));
+    // Show typing indicator while the container processes the piped message
+    channel
+      .setTyping?.(chatJid, true)
+      ?.catch((err) =>
+        logger.warn({ chatJid, err }, 'Failed to set typing indicator'),
+      );
+  } else {
+    // No active container — enqueue for a new one
+    queue.enqueueMessageCheck(chatJid, threadId);
+  }
+}
+
+/**
+ * Route messages stored since the "seen" cursor: pipe them to a running
+ * container, or queue their conversation for a new one. Returns how many
+ * were read, so the caller can come back for the rest of a burst.
+ */
+function routeNewMessages(): number {
+  const jids = Object.keys(registeredGroups);
+  const { messages, newTimestamp } = getNewMessages(
+    jids,
+    lastTimestamp,
+    ASSISTANT_NAME,
+  );
+  if (messages.length === 0) return 0;
+
+  logger.info({ count: messages.length }, 'New messages');
+
+  // Advance the "seen" cursor for all messages immediately
+  lastTimestamp = newTimestamp;
+  saveState();
+
+  // Deduplicate by conversation (a group, or a thread within it)
+  const messagesByConversation = new Map<
+    string,
+    { chatJid: string; threadId?: string; messages: NewMessage[] }
+  >();
+  for (const msg of messages) {
+    const threadId = msg.thread_id || undefined;
+    const key = conversationKey(msg.chat_jid, threadId);
+    const existing = messagesByConversation.get(key);
+    if (existing) {
+      existing.messages.push(msg);
+    } else {
+      messagesByConversation.set(key, {
+        chatJid: msg.chat_jid,
+        threadId,
+        messages: [msg],
+      });
+    }
+  }
+
+  for (const [
+    key,
+    { chatJid, threadId, messages: groupMessages },
+  ] of messagesByConversation) {
+    const group = registeredGroups[chatJid];
+    if (!group) continue;
+
+    if (!findChannel(channels, chatJid)) {
+      logger.warn({ chatJid }, 'No channel owns JID, skipping messages');
+      continue;
+    }
+
+    // Follow-ups to a trigger that is still waiting restart its quiet period
+    const quietMs = group.debounceMs ?? MESSAGE_DEBOUNCE_MS;
+    if (quietMs > 0 && debouncer.extend(key, quietMs)) continue;
+
+    const isMainGroup = group.isMain === true;
+    const needsTrigger = !isMainGroup && group.requiresTrigger !== false;
+
+    // For non-main groups, only act on trigger messages.
+    // Non-trigger messages accumulate in DB and get pulled as
+    // context when a trigger eventually arrives.
+    if (needsTrigger) {
+      const allowlistCfg = loadSenderAllowlist();
+      const hasTrigger = groupMessages.some(
+        (m) =>
+          matchesTrigger(group, m.content) &&
+          (m.is_from_me ||
+            isTriggerAllowed(
+              chatJid,
+              m.sender,
+              allowlistCfg,
+              findPerson(chatJid, m.sender),
+            )),
+      );
+      if (!hasTrigger) continue;
+    }
+
+    if (quietMs > 0) {
+      debouncer.schedule(key, quietMs, () =>
+        dispatchMessages(chatJid, threadId, []),
+      );
+      continue;
+    }
+    dispatchMessages(chatJid, threadId, groupMessages);
+  }
+  return messages.length;
+}
+
+/**
+ * Wake the message loop now instead of at its next sweep. Called whenever a
+ * message is stored.
+ */
+function wakeMessageLoop(): void {
+  messageLoopWoken = true;
+  messageLoopWake?.();
+}
+
+/** Sleep until woken or until the next sweep, whichever comes first. */
+function waitForMessages(): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, MESSAGE_SWEEP_INTERVAL);
+    function done() {
+      clearTimeout(timer);
+      messageLoopWake = null;
+      resolve();
+    }
+    messageLoopWake = done;
+  });
+}
+
 async function startMessageLoop(): Promise<void> {
   if (messageLoopRunning) {
     logger.debug('Message loop already running, skipping duplicate start');
@@ -351,94 +856,17 @@ async function startMessageLoop(): Promise<void> {
   logger.info(`NanoClaw running (trigger: @${ASSISTANT_NAME})`);
 
   while (true) {
+    messageLoopWoken = false;
+    let read = 0;
     try {
-      const jids = Object.keys(registeredGroups);
-      const { messages, newTimestamp } = getNewMessages(
-        jids,
-        lastTimestamp,
-        ASSISTANT_NAME,
-      );
-
-      if (messages.length > 0) {
-        logger.info({ count: messages.length }, 'New messages');
-
-        // Advance the "seen" cursor for all messages immediately
-        lastTimestamp = newTimestamp;
-        saveState();
-
-        // Deduplicate by group
-        const messagesByGroup = new Map<string, NewMessage[]>();
-        for (const msg of messages) {
-          const existing = messagesByGroup.get(msg.chat_jid);
-          if (existing) {
-            existing.push(msg);
-          } else {
-            messagesByGroup.set(msg.chat_jid, [msg]);
-          }
-        }
-
-        for (const [chatJid, groupMessages] of messagesByGroup) {
-          const group = registeredGroups[chatJid];
-          if (!group) continue;
-
-          const channel = findChannel(channels, chatJid);
-          if (!channel) {
-            logger.warn({ chatJid }, 'No channel owns JID, skipping messages');
-            continue;
-          }
-
-          const isMainGroup = group.isMain === true;
-          const needsTrigger = !isMainGroup && group.requiresTrigger !== false;
-
-          // For non-main groups, only act on trigger messages.
-          // Non-trigger messages accumulate in DB and get pulled as
-          // context when a trigger eventually arrives.
-          if (needsTrigger) {
-            const allowlistCfg = loadSenderAllowlist();
-            const hasTrigger = groupMessages.some(
-              (m) =>
-                TRIGGER_PATTERN.test(m.content.trim()) &&
-                (m.is_from_me ||
-                  isTriggerAllowed(chatJid, m.sender, allowlistCfg)),
-            );
-            if (!hasTrigger) continue;
-          }
-
-          // Pull all messages since lastAgentTimestamp so non-trigger
-          // context that accumulated between triggers is included.
-          const allPending = getMessagesSince(
-            chatJid,
-            lastAgentTimestamp[chatJid] || '',
-            ASSISTANT_NAME,
-          );
-          const messagesToSend =
-            allPending.length > 0 ? allPending : groupMessages;
-          const formatted = formatMessages(messagesToSend, TIMEZONE);
-
-          if (queue.sendMessage(chatJid, formatted)) {
-            logger.debug(
-              { chatJid, count: messagesToSend.length },
-              'Piped messages to active container',
-            );
-            lastAgentTimestamp[chatJid] =
-              messagesToSend[messagesToSend.length - 1].timestamp;
-            saveState();
-            // Show typing indicator while the container processes the piped message
-            channel
-              .setTyping?.(chatJid, true)
-              ?.catch((err) =>
-                logger.warn({ chatJid, err }, 'Failed to set typing indicator'),
-              );
-          } else {
-            // No active container — enqueue for a new one
-            queue.enqueueMessageCheck(chatJid);
-          }
-        }
-      }
+      read = routeNewMessages();
     } catch (err) {
       logger.error({ err }, 'Error in message loop');
     }
-    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    // Keep reading while a burst lasts; otherwise sleep unless a message
+    // arrived while this pass ran
+    if (read === 0 && !messageLoopWoken) await waitForMessages();
+    else await new Promise((resolve) => setImmediate(resolve));
   }
 }
 
@@ -449,13 +877,23 @@ async function startMessageLoop(): Promise<void> {
 function recoverPendingMessages(): void {
   for (const [chatJid, group] of Object.entries(registeredGroups)) {
     const sinceTimestamp = lastAgentTimestamp[chatJid] || '';
-    const pending = getMessagesSince(chatJid, sinceTimestamp, ASSISTANT_NAME);
-    if (pending.length > 0) {
-      logger.info(
-        { group: group.name, pendingCount: pending.length },
-        'Recovery: found unprocessed messages',
+    // Threads without a cursor of their own count from the group's, so
+    // threads answered before they had separate cursors aren't replayed
+    const threadIds = getThreadIdsSince(chatJid, sinceTimestamp);
+    for (const threadId of [undefined, ...threadIds]) {
+      const key = conversationKey(chatJid, threadId);
+      const pending = getConversationMessages(
+        chatJid,
+        threadId,
+        lastAgentTimestamp[key] || sinceTimestamp,
       );
-      queue.enqueueMessageCheck(chatJid);
+      if (pending.length > 0) {
+        logger.info(
+          { group: group.name, threadId, pendingCount: pending.length },
+          'Recovery: found unprocessed messages',
+        );
+        queue.enqueueMessageCheck(chatJid, threadId);
+      }
     }
   }
 }
@@ -481,6 +919,9 @@ async function main(): Promise<void> {
   const shutdown = async (signal: string) => {
     logger.info({ signal }, 'Shutdown signal received');
     proxyServer.close();
+    channelSupervisor?.stop();
+    // Waiting triggers are picked up again by recovery on the next start
+    debouncer.clear();
     await queue.shutdown(10000);
     for (const ch of channels) await ch.disconnect();
     process.exit(0);
@@ -490,13 +931,22 @@ async function main(): Promise<void> {
 
   // Channel callbacks (shared by all channels)
   const channelOpts = {
-    onMessage: (chatJid: string, msg: NewMessage) => {
+    onMessage: (
+      chatJid: string,
+      msg: NewMessage,
+      attachments?: InboundAttachment[],
+    ) => {
       // Sender allowlist drop mode: discard messages from denied senders before storing
       if (!msg.is_from_me && !msg.is_bot_message && registeredGroups[chatJid]) {
         const cfg = loadSenderAllowlist();
         if (
           shouldDropMessage(chatJid, cfg) &&
-          !isSenderAllowed(chatJid, msg.sender, cfg)
+          !isSenderAllowed(
+            chatJid,
+            msg.sender,
+            cfg,
+            findPerson(chatJid, msg.sender),
+          )
         ) {
           if (cfg.logDenied) {
             logger.debug(
@@ -507,7 +957,83 @@ async function main(): Promise<void> {
           return;
         }
       }
+      // A reply that answers an ask_user prompt goes to the waiting agent
+      // instead of starting a new turn
+      if (!msg.is_from_me && !msg.is_bot_message && registeredGroups[chatJid]) {
+        const match = matchTextAnswer(chatJid, msg.thread_id, msg.content);
+        if (
+          match &&
+          answerFromChat(
+            chatJid,
+            match.promptId,
+            match.choice,
+            msg.sender,
+            msg.sender_name,
+          )
+        ) {
+          return;
+        }
+      }
+      if (!msg.is_bot_message && registeredGroups[chatJid]) {
+        const command = parseCommand(msg.content);
+        if (command && handleCommand(chatJid, msg, command)) return;
+      }
       storeMessage(msg);
+      const group = registeredGroups[chatJid];
+      if (group && attachments?.length) {
+        try {
+          saveAttachments(group.folder, msg, attachments);
+        } catch (err) {
+          logger.error({ chatJid, err }, 'Failed to save attachments');
+        }
+      }
+      if (group) wakeMessageLoop();
+    },
+    onMessageEdited: (
+      chatJid: string,
+      messageId: string,
+      sender: string,
+      content: string,
+      editedAt: string,
+    ) => {
+      if (recordMessageEdit(messageId, chatJid, sender, content, editedAt)) {
+        logger.debug({ chatJid, messageId }, 'Message edited');
+      }
+    },
+    onMessageDeleted: (
+      chatJid: string,
+      messageId: string,
+      deletedAt: string,
+    ) => {
+      if (markMessageDeleted(messageId, chatJid, deletedAt)) {
+        logger.debug({ chatJid, messageId }, 'Message deleted');
+      } else if (removeReactionById(chatJid, messageId)) {
+        logger.debug({ chatJid, reactionId: messageId }, 'Reaction removed');
+      }
+    },
+    onPromptAnswer: (
+      chatJid: string,
+      promptId: string,
+      choice: number,
+      sender: string,
+    ) => {
+      if (!answerFromChat(chatJid, promptId, choice, sender, sender)) {
+        logger.debug({ chatJid, promptId }, 'Ignoring answer to closed prompt');
+      }
+    },
+    onReaction: (chatJid: string, reaction: Reaction) => {
+      const group = registeredGroups[chatJid];
+      if (!group) return;
+      storeReaction(chatJid, reaction);
+      if (reaction.emoji === STOP_REACTION && !reaction.removed) {
+        stopFromReaction(chatJid, reaction);
+      }
+      // Keep a running agent's view of the feedback current
+      writeFeedbackSnapshot(group.folder, getFeedback(chatJid));
+      logger.debug(
+        { chatJid, messageId: reaction.message_id, emoji: reaction.emoji },
+        reaction.removed ? 'Reaction removed' : 'Reaction stored',
+      );
     },
     onChatMetadata: (
       chatJid: string,
@@ -517,23 +1043,70 @@ async function main(): Promise<void> {
       isGroup?: boolean,
     ) => storeChatMetadata(chatJid, timestamp, name, channel, isGroup),
     registeredGroups: () => registeredGroups,
+    registerGroup,
   };
 
   // Create and connect all registered channels.
   // Each channel self-registers via the barrel import above.
   // Factories return null when credentials are missing, so unconfigured channels are skipped.
-  for (const channelName of getRegisteredChannelNames()) {
+  // Fallback channels (e.g. the local CLI) are only tried when nothing else connected.
+  // CHANNEL_INSTANCES adds named instances (telegram:work) with their own credentials.
+  const channelNames = getRegisteredChannelNames();
+  const instances = CHANNEL_INSTANCES.map(parseChannelInstance);
+  const connectChannel = async (channelName: string, instance?: string) => {
     const factory = getChannelFactory(channelName)!;
-    const channel = factory(channelOpts);
+    const channel = factory(channelOpts, instance);
+    const name = channelInstanceName(channelName, instance);
     if (!channel) {
+      // A type run only as named instances needs no default credentials
+      const hasInstances = instances.some((i) => i.type === channelName);
+      if (!isFallbackChannel(channelName) && (instance || !hasInstances)) {
+        logger.warn(
+          { channel: name },
+          'Channel installed but credentials missing — skipping. Check .env or re-run the channel skill.',
+        );
+      }
+      return;
+    }
+    // A factory that ignores the instance returns the default channel again,
+    // which would handle every message twice
+    if (instance && channel.name !== name) {
+      logger.error(
+        { channel: name, returned: channel.name },
+        'Channel does not support named instances — skipping',
+      );
+      return;
+    }
+    channels.push(channel);
+    try {
+      await channel.connect();
+    } catch (err) {
+      // The supervisor keeps retrying; the other channels still start
+      logger.error({ channel: name, err }, 'Channel failed to connect');
+    }
+  };
+  const connectChannels = async (names: string[]) => {
+    for (const channelName of names) await connectChannel(channelName);
+  };
+  await connectChannels(channelNames.filter((n) => !isFallbackChannel(n)));
+  for (const { type, instance } of instances) {
+    if (
+      !instance ||
+      !/^[a-z0-9_-]+$/i.test(instance) ||
+      !getChannelFactory(type) ||
+      isFallbackChannel(type) ||
+      channels.some((c) => c.name === channelInstanceName(type, instance))
+    ) {
       logger.warn(
-        { channel: channelName },
-        'Channel installed but credentials missing — skipping. Check .env or re-run the channel skill.',
+        { channel: channelInstanceName(type, instance) },
+        'Invalid entry in CHANNEL_INSTANCES — skipping',
       );
       continue;
     }
-    channels.push(channel);
-    await channel.connect();
+    await connectChannel(type, instance);
+  }
+  if (channels.length === 0) {
+    await connectChannels(channelNames.filter(isFallbackChannel));
   }
   if (channels.length === 0) {
     logger.fatal('No channels connected');
@@ -541,6 +1114,21 @@ async function main(): Promise<void> {
   }
 
   // Start subsystems (independently of connection handler)
+  channelSupervisor = new ChannelSupervisor({
+    channels: () => channels,
+    registeredGroups: () => registeredGroups,
+    queue,
+    notifyMain: async (text) => {
+      const mainJid = Object.keys(registeredGroups).find(
+        (jid) => registeredGroups[jid].isMain,
+      );
+      if (!mainJid) return;
+      await deliver(findChannel(channels, mainJid), mainJid, text);
+    },
+  });
+  channelSupervisor.start();
+  // Sends whatever was still queued when the host stopped
+  startOutboxWorker({ findChannel: (jid) => findChannel(channels, jid) });
   startSchedulerLoop({
     registeredGroups: () => registeredGroups,
     getSessions: () => sessions,
@@ -554,15 +1142,46 @@ async function main(): Promise<void> {
         return;
       }
       const text = formatOutbound(rawText);
-      if (text) await channel.sendMessage(jid, text);
+      if (text) await deliver(channel, jid, text);
     },
   });
   startIpcWatcher({
-    sendMessage: (jid, text) => {
+    sendMessage: async (jid, text, options, dedupeKey) => {
+      const channel = findChannel(channels, jid);
+      if (!channel) throw new Error(`No channel for JID: ${jid}`);
+      // Progress updates join the reply being streamed in that conversation
+      const stream = options?.replyTo
+        ? undefined
+        : replyStreams.get(conversationKey(jid, options?.threadId));
+      if (stream) {
+        const piece = formatOutbound(text);
+        if (piece) await stream.append(piece);
+        return;
+      }
+      const { messageId } = await deliver(
+        channel,
+        jid,
+        text,
+        options,
+        dedupeKey,
+      );
+      if (messageId) {
+        recordSentMessage(
+          jid,
+          messageId,
+          formatOutbound(text),
+          options?.threadId,
+        );
+      }
+    },
+    sendFile: (jid, file, options) => {
       const channel = findChannel(channels, jid);
       if (!channel) throw new Error(`No channel for JID: ${jid}`);
-      return channel.sendMessage(jid, text);
+      return sendOutboundFile(channel, jid, file, options);
     },
+    askUser: (jid, prompt, target) =>
+      askUser(findChannel(channels, jid), jid, prompt, target),
+    findChannel: (jid) => findChannel(channels, jid),
     registeredGroups: () => registeredGroups,
     registerGroup,
     syncGroups: async (force: boolean) => {
@@ -575,6 +1194,7 @@ async function main(): Promise<void> {
     getAvailableGroups,
     writeGroupsSnapshot: (gf, im, ag, rj) =>
       writeGroupsSnapshot(gf, im, ag, rj),
+    writePeopleSnapshot,
   });
   queue.setProcessMessagesFn(processGroupMessages);
   recoverPendingMessages();
@@ -3,13 +3,15 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import {
   _initTestDatabase,
   createTask,
+  getAllPeople,
   getAllTasks,
+  getPersonBySender,
   getRegisteredGroup,
   getTaskById,
   setRegisteredGroup,
 } from './db.js';
 import { processTaskIpc, IpcDeps } from './ipc.js';
-import { RegisteredGroup } from './types.js';
+import { Channel, RegisteredGroup } from './types.js';
 
 // Set up registered groups used across tests
 const MAIN_GROUP: RegisteredGroup = {
@@ -37,6 +39,19 @@ const THIRD_GROUP: RegisteredGroup = {
 let groups: Record<string, RegisteredGroup>;
 let deps: IpcDeps;
 
+function fakeChannel(name: string, verified: boolean): Channel {
+  return {
+    name,
+    connect: async () => {},
+    sendMessage: async () => {},
+    isConnected: () => true,
+    ownsJid: (jid) => jid.startsWith(`${name}:`),
+    disconnect: async () => {},
+    isVerifiedSender: () => verified,
+  };
+}
+const CHANNELS = [fakeChannel('signal', true), fakeChannel('http', false)];
+
 beforeEach(() => {
   _initTestDatabase();
 
@@ -53,6 +68,9 @@ beforeEach(() => {
 
   deps = {
     sendMessage: async () => {},
+    sendFile: async () => {},
+    askUser: async () => {},
+    findChannel: (jid) => CHANNELS.find((c) => c.ownsJid(jid)),
     registeredGroups: () => groups,
     registerGroup: (jid, group) => {
       groups[jid] = group;
@@ -62,6 +80,7 @@ beforeEach(() => {
     syncGroups: async () => {},
     getAvailableGroups: () => [],
     writeGroupsSnapshot: () => {},
+    writePeopleSnapshot: () => {},
   };
 });
 
@@ -660,6 +679,38 @@ describe('register_group success', () => {
     expect(group!.trigger).toBe('@Andy');
   });
 
+  it('register_group keeps a valid debounce and drops a bad one', async () => {
+    await processTaskIpc(
+      {
+        type: 'register_group',
+        jid: 'slow@g.us',
+        name: 'Slow',
+        folder: 'slow-group',
+        trigger: '@Andy',
+        debounceMs: 3000,
+      },
+      'whatsapp_main',
+      true,
+      deps,
+    );
+    await processTaskIpc(
+      {
+        type: 'register_group',
+        jid: 'odd@g.us',
+        name: 'Odd',
+        folder: 'odd-group',
+        trigger: '@Andy',
+        debounceMs: -5,
+      },
+      'whatsapp_main',
+      true,
+      deps,
+    );
+
+    expect(getRegisteredGroup('slow@g.us')!.debounceMs).toBe(3000);
+    expect(getRegisteredGroup('odd@g.us')!.debounceMs).toBeUndefined();
+  });
+
   it('register_group rejects request with missing fields', async () => {
     await processTaskIpc(
       {
@@ -676,3 +727,118 @@ describe('register_group success', () => {
     expect(getRegisteredGroup('partial@g.us')).toBeUndefined();
   });
 });
+
+// --- identity linking ---
+
+describe('identity linking', () => {
+  it('main group can link and unlink identities', async () => {
+    await processTaskIpc(
+      {
+        type: 'link_identity',
+        chatJid: 'signal:group.family',
+        sender: '+15551112222',
+        personId: 'alice',
+        displayName: 'Alice',
+        roles: ['admin'],
+      },
+      'whatsapp_main',
+      true,
+      deps,
+    );
+    await processTaskIpc(
+      {
+        type: 'link_identity',
+        chatJid: 'signal:+15553334444',
+        sender: '+15553334444',
+        personId: 'alice',
+      },
+      'whatsapp_main',
+      true,
+      deps,
+    );
+    expect(getPersonBySender('signal', '+15553334444')).toMatchObject({
+      id: 'alice',
+      display_name: 'Alice',
+      roles: ['admin'],
+      identities: [
+        { channel: 'signal', sender: '+15551112222' },
+        { channel: 'signal', sender: '+15553334444' },
+      ],
+    });
+
+    await processTaskIpc(
+      { type: 'unlink_identity', channel: 'signal', sender: '+15551112222' },
+      'whatsapp_main',
+      true,
+      deps,
+    );
+    expect(getPersonBySender('signal', '+15551112222')).toBeUndefined();
+  });
+
+  it('refuses to link senders the channel does not vouch for', async () => {
+    for (const chatJid of ['http:tools', 'nowhere:1', undefined]) {
+      await processTaskIpc(
+        {
+          type: 'link_identity',
+          chatJid,
+          sender: 'alice',
+          personId: 'alice',
+          displayName: 'Alice',
+          roles: ['admin'],
+        },
+        'whatsapp_main',
+        true,
+        deps,
+      );
+    }
+    expect(getAllPeople()).toEqual([]);
+    expect(getPersonBySender('http', 'alice')).toBeUndefined();
+  });
+
+  it('non-main group cannot link identities', async () => {
+    await processTaskIpc(
+      {
+        type: 'link_identity',
+        chatJid: 'signal:group.family',
+        sender: '+15551112222',
+        personId: 'mallory',
+        displayName: 'Admin',
+        roles: ['admin'],
+      },
+      'other-group',
+      false,
+      deps,
+    );
+    expect(getAllPeople()).toEqual([]);
+  });
+
+  it('rejects unsafe person ids and new people without a name', async () => {
+    for (const personId of ['Alice', '../x', '']) {
+      await processTaskIpc(
+        {
+          type: 'link_identity',
+          chatJid: 'signal:a',
+          sender: 'a',
+          personId,
+          displayName: 'A',
+        },
+        'whatsapp_main',
+        true,
+        deps,
+      );
+    }
+    await processTaskIpc(
+      {
+        type: 'link_identity',
+        chatJid: 'signal:b',
+        sender: 'b',
+        personId: 'bob',
+      },
+      'whatsapp_main',
+      true,
+      deps,
+    );
+    expect(getAllPeople()).toEqual([]);
+    expect(getPersonBySender('signal', 'b')).toBeUndefined();
+  });
+});
@@ -3,15 +3,54 @@ import path from 'path';
 
 import { CronExpressionParser } from 'cron-parser';
 
+import { resolveOutboundFile } from './attachments.js';
 import { DATA_DIR, IPC_POLL_INTERVAL, TIMEZONE } from './config.js';
 import { AvailableGroup } from './container-runner.js';
-import { createTask, deleteTask, getTaskById, updateTask } from './db.js';
-import { isValidGroupFolder } from './group-folder.js';
+import {
+  createTask,
+  deleteTask,
+  getAllPeople,
+  getTaskById,
+  linkIdentity,
+  unlinkIdentity,
+  updateTask,
+  upsertPerson,
+} from './db.js';
+import { isValidGroupFolder, resolveIpcInputPath } from './group-folder.js';
 import { logger } from './logger.js';
-import { RegisteredGroup } from './types.js';
+import { PromptTarget } from './prompts.js';
+import {
+  Channel,
+  OutboundFile,
+  Person,
+  Prompt,
+  RegisteredGroup,
+  SendOptions,
+} from './types.js';
+
+// ask_user limits, matching the tool's
+const MAX_PROMPT_CHOICES = 10;
+const MAX_PROMPT_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Person IDs are short slugs the agent can quote back, e.g. "alice"
+const PERSON_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
 
 export interface IpcDeps {
-  sendMessage: (jid: string, text: string) => Promise<void>;
+  // dedupeKey identifies the request, so one processed again after a
+  // restart is not sent twice
+  sendMessage: (
+    jid: string,
+    text: string,
+    options?: SendOptions,
+    dedupeKey?: string,
+  ) => Promise<void>;
+  sendFile: (
+    jid: string,
+    file: OutboundFile,
+    options?: SendOptions,
+  ) => Promise<void>;
+  askUser: (jid: string, prompt: Prompt, target: PromptTarget) => Promise<void>;
+  findChannel: (jid: string) => Channel | undefined;
   registeredGroups: () => Record<string, RegisteredGroup>;
   registerGroup: (jid: string, group: RegisteredGroup) => void;
   syncGroups: (force: boolean) => Promise<void>;
@@ -22,6 +61,11 @@ export interface IpcDeps {
     availableGroups: AvailableGroup[],
     registeredJids: Set<string>,
   ) => void;
+  writePeopleSnapshot: (
+    groupFolder: string,
+    isMain: boolean,
+    people: Person[],
+  ) => void;
 }
 
 let ipcWatcherRunning = false;
@@ -80,7 +124,15 @@ export function startIpcWatcher(deps: IpcDeps): void {
                   isMain ||
                   (targetGroup && targetGroup.folder === sourceGroup)
                 ) {
-                  await deps.sendMessage(data.chatJid, data.text);
+                  // Messages from a thread's container stay in that thread
+                  await deps.sendMessage(
+                    data.chatJid,
+                    data.text,
+                    data.replyTo || data.threadId
+                      ? { replyTo: data.replyTo, threadId: data.threadId }
+                      : undefined,
+                    `ipc:${sourceGroup}/${file}`,
+                  );
                   logger.info(
                     { chatJid: data.chatJid, sourceGroup },
                     'IPC message sent',
@@ -91,6 +143,85 @@ export function startIpcWatcher(deps: IpcDeps): void {
                     'Unauthorized IPC message attempt blocked',
                   );
                 }
+              } else if (data.type === 'file' && data.chatJid && data.path) {
+                const targetGroup = registeredGroups[data.chatJid];
+                if (
+                  isMain ||
+                  (targetGroup && targetGroup.folder === sourceGroup)
+                ) {
+                  // Files always come from the sender's own group folder
+                  const file = resolveOutboundFile(sourceGroup, data.path);
+                  await deps.sendFile(
+                    data.chatJid,
+                    { ...file, caption: data.caption || undefined },
+                    data.threadId ? { threadId: data.threadId } : undefined,
+                  );
+                  logger.info(
+                    {
+                      chatJid: data.chatJid,
+                      sourceGroup,
+                      file: file.filename,
+                      size: file.size,
+                    },
+                    'IPC file sent',
+                  );
+                } else {
+                  logger.warn(
+                    { chatJid: data.chatJid, sourceGroup },
+                    'Unauthorized IPC file attempt blocked',
+                  );
+                }
+              } else if (
+                data.type === 'prompt' &&
+                data.chatJid &&
+                typeof data.promptId === 'string' &&
+                /^[\w-]{1,64}$/.test(data.promptId) &&
+                data.question &&
+                Array.isArray(data.choices) &&
+                data.choices.length >= 2 &&
+                data.choices.length <= MAX_PROMPT_CHOICES &&
+                data.choices.every((c: unknown) => typeof c === 'string' && c)
+              ) {
+                const targetGroup = registeredGroups[data.chatJid];
+                if (
+                  isMain ||
+                  (targetGroup && targetGroup.folder === sourceGroup)
+                ) {
+                  const timeoutMs = Math.min(
+                    Number(data.timeoutMs) || MAX_PROMPT_TIMEOUT_MS,
+                    MAX_PROMPT_TIMEOUT_MS,
+                  );
+                  // The answer goes back to the container that asked
+                  await deps.askUser(
+                    data.chatJid,
+                    {
+                      id: data.promptId,
+                      question: data.question,
+                      choices: data.choices,
+                    },
+                    {
+                      threadId: data.threadId || undefined,
+                      answerDir: resolveIpcInputPath(
+                        sourceGroup,
+                        data.threadId || undefined,
+                      ),
+                      expiresAt: Date.now() + timeoutMs,
+                    },
+                  );
+                  logger.info(
+                    {
+                      chatJid: data.chatJid,
+                      sourceGroup,
+                      promptId: data.promptId,
+                    },
+                    'IPC prompt sent',
+                  );
+                } else {
+                  logger.warn(
+                    { chatJid: data.chatJid, sourceGroup },
+                    'Unauthorized IPC prompt attempt blocked',
+                  );
+                }
               }
               fs.unlinkSync(filePath);
             } catch (err) {
@@ -170,7 +301,16 @@ export async function processTaskIpc(
     folder?: string;
     trigger?: string;
     requiresTrigger?: boolean;
+    triggerMode?: string;
+    debounceMs?: number;
     containerConfig?: RegisteredGroup['containerConfig'];
+    // For link_identity (chatJid: a chat the sender writes in) and
+    // unlink_identity (channel)
+    sender?: string;
+    channel?: string;
+    personId?: string;
+    displayName?: string;
+    roles?: unknown;
   },
   sourceGroup: string, // Verified identity from IPC directory
   isMain: boolean, // Verified from directory path
@@ -440,6 +580,14 @@ export async function processTaskIpc(
           added_at: new Date().toISOString(),
           containerConfig: data.containerConfig,
           requiresTrigger: data.requiresTrigger,
+          triggerMode:
+            data.triggerMode === 'start' || data.triggerMode === 'mention'
+              ? data.triggerMode
+              : undefined,
+          debounceMs:
+            Number.isInteger(data.debounceMs) && data.debounceMs! >= 0
+              ? data.debounceMs
+              : undefined,
         });
       } else {
         logger.warn(
@@ -449,6 +597,84 @@ export async function processTaskIpc(
       }
       break;
 
+    case 'link_identity':
+      // Only main group manages identities
+      if (!isMain) {
+        logger.warn(
+          { sourceGroup },
+          'Unauthorized link_identity attempt blocked',
+        );
+        break;
+      }
+      if (
+        !data.sender ||
+        !data.personId ||
+        !PERSON_ID_PATTERN.test(data.personId) ||
+        (data.roles !== undefined &&
+          !(
+            Array.isArray(data.roles) &&
+            data.roles.every((r) => typeof r === 'string')
+          ))
+      ) {
+        logger.warn({ data }, 'Invalid link_identity request');
+        break;
+      }
+      const channel = data.chatJid ? deps.findChannel(data.chatJid) : undefined;
+      if (!channel) {
+        logger.warn({ data }, 'link_identity: no channel for chat');
+        break;
+      }
+      // Anyone could claim an unverified ID, and with it the person's rights
+      if (channel.isVerifiedSender?.(data.sender) === false) {
+        logger.warn(
+          { channel: channel.name, sender: data.sender, sourceGroup },
+          'Refusing to link an unverified sender',
+        );
+        break;
+      }
+      try {
+        upsertPerson(data.personId, {
+          display_name: data.displayName,
+          roles: data.roles as string[] | undefined,
+        });
+      } catch (err) {
+        logger.warn({ err, personId: data.personId }, 'Cannot create person');
+        break;
+      }
+      linkIdentity(channel.name, data.sender, data.personId);
+      logger.info(
+        {
+          channel: channel.name,
+          sender: data.sender,
+          personId: data.personId,
+          sourceGroup,
+        },
+        'Identity linked via IPC',
+      );
+      deps.writePeopleSnapshot(sourceGroup, true, getAllPeople());
+      break;
+
+    case 'unlink_identity':
+      if (!isMain) {
+        logger.warn(
+          { sourceGroup },
+          'Unauthorized unlink_identity attempt blocked',
+        );
+        break;
+      }
+      if (
+        data.channel &&
+        data.sender &&
+        unlinkIdentity(data.channel, data.sender)
+      ) {
+        logger.info(
+          { channel: data.channel, sender: data.sender, sourceGroup },
+          'Identity unlinked via IPC',
+        );
+        deps.writePeopleSnapshot(sourceGroup, true, getAllPeople());
+      }
+      break;
+
     default:
       logger.warn({ type: data.type }, 'Unknown IPC task type');
   }
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { _initTestDatabase, getOutboxCounts, getOutboxItem } from './db.js';
+import {
+  _resetOutboxWorkerForTests,
+  deliver,
+  processOutbox,
+} from './outbox.js';
+import { Channel, ChannelCapabilities } from './types.js';
+
+function fakeChannel(): Channel & {
+  capabilities?: ChannelCapabilities;
+  sent: string[];
+  connected: boolean;
+  failNext: number;
+} {
+  let seq = 0;
+  const channel = {
+    name: 'x',
+    sent: [] as string[],
+    connected: true,
+    failNext: 0,
+    connect: async () => {},
+    sendMessage: vi.fn(async (_jid: string, text: string) => {
+      if (channel.failNext > 0) {
+        channel.failNext--;
+        throw new Error('network down');
+      }
+      channel.sent.push(text);
+      return `m${++seq}`;
+    }),
+    isConnected: () => channel.connected,
+    ownsJid: (jid: string) => jid.startsWith('x:'),
+    disconnect: async () => {},
+  };
+  return channel;
+}
+
+describe('outbox', () => {
+  let channel: ReturnType<typeof fakeChannel>;
+  const find = () => channel;
+
+  beforeEach(() => {
+    _initTestDatabase();
+    _resetOutboxWorkerForTests();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+    channel = fakeChannel();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends at once and records the platform message id', async () => {
+    const result = await deliver(channel, 'x:1', 'hello', { replyTo: 'q1' });
+
+    expect(result).toEqual({ id: result.id, status: 'sent', messageId: 'm1' });
+    expect(channel.sendMessage).toHaveBeenCalledWith('x:1', 'hello', {
+      replyTo: 'q1',
+    });
+    expect(getOutboxItem(result.id)).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      message_id: 'm1',
+    });
+  });
+
+  it('keeps a failed message and retries it with backoff', async () => {
+    channel.failNext = 2;
+    const result = await deliver(channel, 'x:1', 'hello');
+    expect(result.status).toBe('pending');
+
+    // Not due yet
+    await processOutbox(find);
+    expect(channel.sendMessage).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(5000);
+    await processOutbox(find);
+    expect(getOutboxItem(result.id)).toMatchObject({
+      status: 'pending',
+      attempts: 2,
+      last_error: 'network down',
+    });
+
+    vi.advanceTimersByTime(10000);
+    await processOutbox(find);
+    expect(channel.sent).toEqual(['hello']);
+    expect(getOutboxItem(result.id)?.status).toBe('sent');
+  });
+
+  it('waits for a disconnected channel without using up attempts', async () => {
+    channel.connected = false;
+    const result = await deliver(channel, 'x:1', 'hello');
+    vi.advanceTimersByTime(60000);
+    await processOutbox(find);
+    expect(getOutboxItem(result.id)).toMatchObject({
+      status: 'pending',
+      attempts: 0,
+      last_error: 'Channel not connected',
+    });
+
+    channel.connected = true;
+    vi.advanceTimersByTime(5000);
+    await processOutbox(find);
+    expect(channel.sent).toEqual(['hello']);
+  });
+
+  it('resumes a split message after the chunks already sent', async () => {
+    channel.capabilities = {
+      markup: 'markdown',
+      threads: false,
+      reactions: false,
+      attachments: false,
+      edits: false,
+      maxMessageLength: 5,
+    };
+    vi.mocked(channel.sendMessage).mockImplementationOnce(
+      async (_jid: string, text: string) => {
+        channel.sent.push(text);
+        return 'm1';
+      },
+    );
+    vi.mocked(channel.sendMessage).mockRejectedValueOnce(
+      new Error('network down'),
+    );
+
+    const result = await deliver(channel, 'x:1', 'one\n\ntwo\n\nthree');
+    expect(getOutboxItem(result.id)).toMatchObject({
+      status: 'pending',
+      chunks_sent: 1,
+    });
+
+    vi.advanceTimersByTime(5000);
+    await processOutbox(find);
+    expect(channel.sent).toEqual(['one', 'two', 'three']);
+    expect(getOutboxItem(result.id)?.status).toBe('sent');
+  });
+
+  it('gives up on a send that hangs and lets the chat move on', async () => {
+    vi.mocked(channel.sendMessage).mockReturnValueOnce(new Promise(() => {}));
+    const first = deliver(channel, 'x:1', 'stuck');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    const result = await first;
+    expect(result.status).toBe('pending');
+    expect(getOutboxItem(result.id)?.last_error).toBe(
+      'Send timed out after 60s',
+    );
+
+    vi.advanceTimersByTime(5000);
+    await processOutbox(find);
+    expect(channel.sent).toEqual(['stuck']);
+  });
+
+  it('keeps the order of messages to one chat', async () => {
+    channel.failNext = 1;
+    await deliver(channel, 'x:1', 'first');
+    await deliver(channel, 'x:1', 'second');
+    await deliver(channel, 'x:2', 'other chat');
+    expect(channel.sent).toEqual(['other chat']);
+
+    vi.advanceTimersByTime(5000);
+    await processOutbox(find);
+    expect(channel.sent).toEqual(['other chat', 'first', 'second']);
+  });
+
+  it('does not send a message twice for the same dedupe key', async () => {
+    const first = await deliver(channel, 'x:1', 'hello', undefined, 'ipc:a/1');
+    const again = await deliver(channel, 'x:1', 'hello', undefined, 'ipc:a/1');
+
+    expect(again).toEqual(first);
+    expect(channel.sent).toEqual(['hello']);
+  });
+
+  it('gives up after repeated failures and lets the chat move on', async () => {
+    channel.failNext = 100;
+    const result = await deliver(channel, 'x:1', 'doomed');
+    await deliver(channel, 'x:1', 'next');
+    for (let i = 0; i < 10; i++) {
+      vi.advanceTimersByTime(5 * 60 * 1000);
+      await processOutbox(find);
+    }
+    expect(getOutboxItem(result.id)).toMatchObject({
+      status: 'failed',
+      attempts: 8,
+    });
+
+    channel.failNext = 0;
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await processOutbox(find);
+    expect(channel.sent).toEqual(['next']);
+    expect(getOutboxCounts()).toEqual({ pending: 0, sent: 1, failed: 1 });
+  });
+});
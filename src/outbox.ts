@@ -0,0 +1,242 @@
+/**
+ * Outbound delivery through the outbox table.
+ *
+ * Every message is recorded before it is sent, so output survives channel
+ * hiccups and host restarts. deliver() tries to send at once; anything that
+ * fails (or whose channel is offline) stays pending and the worker retries
+ * it with backoff. Messages to one chat always go out in the order they
+ * were queued. An attempt that takes longer than SEND_TIMEOUT_MS counts as
+ * failed, so one hung send cannot hold up the rest. Delivery is
+ * at-least-once: a crash between sending and recording it, or a timed-out
+ * send that still goes through, sends that chunk again. Chunks of a split
+ * message that were sent are not sent again.
+ */
+import { OUTBOX_POLL_INTERVAL } from './config.js';
+import {
+  enqueueOutbound,
+  getOutboxCounts,
+  getPendingOutbound,
+  hasEarlierPendingOutbound,
+  markOutboundChunksSent,
+  markOutboundFailure,
+  markOutboundSent,
+  pruneOutbox,
+} from './db.js';
+import { logger } from './logger.js';
+import { sendOutbound } from './router.js';
+import { Channel, OutboxItem, SendOptions } from './types.js';
+
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+const SEND_TIMEOUT_MS = 60 * 1000;
+// Pending messages older than this are given up on, even while the channel
+// is just offline: they would arrive too late to make sense
+const MAX_PENDING_AGE_MS = 24 * 60 * 60 * 1000;
+// How long sent and failed entries (and their dedupe keys) are kept
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface DeliveryResult {
+  id: number; // Outbox entry
+  status: OutboxItem['status'];
+  messageId?: string; // Set when it was sent and the channel gave an ID
+}
+
+export interface OutboxDependencies {
+  findChannel: (jid: string) => Channel | undefined;
+}
+
+// Entries being sent right now, so deliver() and the worker never send the
+// same one twice
+const inFlight = new Set<number>();
+
+function backoff(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+function toResult(item: OutboxItem): DeliveryResult {
+  return {
+    id: item.id,
+    status: item.status,
+    ...(item.message_id ? { messageId: item.message_id } : {}),
+  };
+}
+
+async function attempt(
+  item: OutboxItem,
+  channel: Channel | undefined,
+): Promise<DeliveryResult> {
+  if (!channel?.isConnected()) {
+    // Not an attempt: wait for the channel to come back
+    markOutboundFailure(
+      item.id,
+      channel ? 'Channel not connected' : 'No channel for JID',
+      new Date(Date.now() + RETRY_BASE_MS).toISOString(),
+      false,
+    );
+    return { id: item.id, status: 'pending' };
+  }
+
+  inFlight.add(item.id);
+  const abort = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const options: SendOptions | undefined =
+      item.reply_to || item.thread_id
+        ? {
+            replyTo: item.reply_to ?? undefined,
+            threadId: item.thread_id ?? undefined,
+          }
+        : undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        abort.abort();
+        reject(new Error(`Send timed out after ${SEND_TIMEOUT_MS / 1000}s`));
+      }, SEND_TIMEOUT_MS);
+    });
+    const messageId = await Promise.race([
+      sendOutbound(channel, item.chat_jid, item.text, options, {
+        skip: item.chunks_sent,
+        onChunkSent: (chunksSent) => {
+          // A send that outlived its attempt must not move a retry's progress
+          if (!abort.signal.aborted) {
+            markOutboundChunksSent(item.id, chunksSent);
+          }
+        },
+        signal: abort.signal,
+      }),
+      timeout,
+    ]);
+    markOutboundSent(item.id, messageId);
+    return { id: item.id, status: 'sent', ...(messageId ? { messageId } : {}) };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    const attempts = item.attempts + 1;
+    if (attempts >= MAX_ATTEMPTS) {
+      markOutboundFailure(item.id, error, null);
+      logger.error(
+        { jid: item.chat_jid, outboxId: item.id, attempts, err },
+        'Giving up on outbound message',
+      );
+      return { id: item.id, status: 'failed' };
+    }
+    const delay = backoff(attempts);
+    markOutboundFailure(
+      item.id,
+      error,
+      new Date(Date.now() + delay).toISOString(),
+    );
+    logger.warn(
+      { jid: item.chat_jid, outboxId: item.id, attempts, delay, err },
+      'Outbound message failed, will retry',
+    );
+    return { id: item.id, status: 'pending' };
+  } finally {
+    clearTimeout(timer);
+    inFlight.delete(item.id);
+  }
+}
+
+/**
+ * Queue a message and try to send it now. Resolves once it is sent or
+ * safely queued for retry; it never throws for delivery failures. With a
+ * dedupeKey seen before, the earlier entry's status is returned and
+ * nothing is sent again.
+ */
+export async function deliver(
+  channel: Channel | undefined,
+  jid: string,
+  text: string,
+  options?: SendOptions,
+  dedupeKey?: string,
+): Promise<DeliveryResult> {
+  const { item, duplicate } = enqueueOutbound({
+    chat_jid: jid,
+    text,
+    reply_to: options?.replyTo,
+    thread_id: options?.threadId,
+    dedupe_key: dedupeKey,
+  });
+  if (duplicate) {
+    logger.debug({ jid, dedupeKey }, 'Outbound message already queued');
+    return toResult(item);
+  }
+  // Keep the chat's order: the worker sends it after the older ones
+  if (hasEarlierPendingOutbound(jid, item.id)) {
+    return { id: item.id, status: 'pending' };
+  }
+  return attempt(item, channel);
+}
+
+/**
+ * One pass of the delivery worker: send each chat's pending messages in
+ * order, stopping at the first that is not due or fails again, and give up
+ * on messages that are too old.
+ */
+export async function processOutbox(
+  findChannel: (jid: string) => Channel | undefined,
+): Promise<void> {
+  const now = Date.now();
+  // Chats whose oldest pending message is still waiting: later ones wait too
+  const blocked = new Set<string>();
+  for (const item of getPendingOutbound()) {
+    if (blocked.has(item.chat_jid)) continue;
+
+    if (now - new Date(item.created_at).getTime() > MAX_PENDING_AGE_MS) {
+      markOutboundFailure(item.id, item.last_error ?? 'Expired', null);
+      logger.error(
+        { jid: item.chat_jid, outboxId: item.id },
+        'Outbound message expired before it could be sent',
+      );
+      continue;
+    }
+    if (
+      inFlight.has(item.id) ||
+      new Date(item.next_attempt_at).getTime() > now
+    ) {
+      blocked.add(item.chat_jid);
+      continue;
+    }
+
+    const result = await attempt(item, findChannel(item.chat_jid));
+    if (result.status === 'pending') blocked.add(item.chat_jid);
+  }
+}
+
+let outboxRunning = false;
+
+export function startOutboxWorker(deps: OutboxDependencies): void {
+  if (outboxRunning) {
+    logger.debug('Outbox worker already running, skipping duplicate start');
+    return;
+  }
+  outboxRunning = true;
+  const counts = getOutboxCounts();
+  logger.info({ pending: counts.pending }, 'Outbox worker started');
+
+  let lastPruneAt = 0;
+  const loop = async () => {
+    try {
+      await processOutbox(deps.findChannel);
+      if (Date.now() - lastPruneAt > PRUNE_INTERVAL_MS) {
+        lastPruneAt = Date.now();
+        const pruned = pruneOutbox(
+          new Date(lastPruneAt - RETENTION_MS).toISOString(),
+        );
+        if (pruned) logger.debug({ pruned }, 'Pruned outbox');
+      }
+    } catch (err) {
+      logger.error({ err }, 'Error in outbox worker');
+    }
+    setTimeout(loop, OUTBOX_POLL_INTERVAL);
+  };
+
+  loop();
+}
+
+/** @internal - for tests only. */
+export function _resetOutboxWorkerForTests(): void {
+  outboxRunning = false;
+  inFlight.clear();
+}
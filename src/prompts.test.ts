@@ -0,0 +1,149 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('./outbox.js', () => ({ deliver: vi.fn(async () => {}) }));
+
+import { deliver } from './outbox.js';
+import {
+  _resetPromptsForTests,
+  answerPrompt,
+  askUser,
+  formatPromptText,
+  matchTextAnswer,
+} from './prompts.js';
+import { Channel, Prompt } from './types.js';
+
+const prompt: Prompt = {
+  id: 'p1',
+  question: 'Delete the old backups?',
+  choices: ['Delete', 'Keep'],
+};
+
+function fakeChannel(sendPrompt?: Channel['sendPrompt']): Channel {
+  return {
+    name: 'fake',
+    connect: async () => {},
+    sendMessage: async () => {},
+    isConnected: () => true,
+    ownsJid: () => true,
+    disconnect: async () => {},
+    sendPrompt,
+  };
+}
+
+describe('prompts', () => {
+  let answerDir: string;
+
+  beforeEach(() => {
+    answerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-prompts-'));
+    _resetPromptsForTests();
+    vi.mocked(deliver).mockClear();
+  });
+
+  afterEach(() => {
+    fs.rmSync(answerDir, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  const target = () => ({ answerDir, expiresAt: Date.now() + 60000 });
+
+  function readAnswer(id: string) {
+    const file = path.join(answerDir, 'answers', `${id}.json`);
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  }
+
+  it('formats the text fallback with numbered choices', () => {
+    expect(formatPromptText(prompt)).toBe(
+      'Delete the old backups?\n\n1. Delete\n2. Keep\n\nReply with a number.',
+    );
+  });
+
+  it('uses sendPrompt when the channel has it', async () => {
+    const sendPrompt = vi.fn(async () => {});
+    await askUser(fakeChannel(sendPrompt), 'chat@g.us', prompt, target());
+
+    expect(sendPrompt).toHaveBeenCalledWith('chat@g.us', prompt, undefined);
+    expect(deliver).not.toHaveBeenCalled();
+  });
+
+  it('falls back to numbered text when sendPrompt fails', async () => {
+    const sendPrompt = vi.fn(async () => {
+      throw new Error('buttons not allowed here');
+    });
+    await askUser(fakeChannel(sendPrompt), 'chat@g.us', prompt, {
+      ...target(),
+      threadId: 't1',
+    });
+
+    expect(deliver).toHaveBeenCalledWith(
+      expect.anything(),
+      'chat@g.us',
+      formatPromptText(prompt),
+      { threadId: 't1' },
+    );
+  });
+
+  it('writes the answer for the waiting tool, once', async () => {
+    await askUser(fakeChannel(), 'chat@g.us', prompt, target());
+
+    expect(answerPrompt('chat@g.us', 'p1', 1, 'Alice')).toBe(true);
+    expect(readAnswer('p1')).toMatchObject({
+      choice: 1,
+      answer: 'Keep',
+      sender: 'Alice',
+    });
+    expect(answerPrompt('chat@g.us', 'p1', 0, 'Bob')).toBe(false);
+  });
+
+  it('rejects answers from another chat or out of range', async () => {
+    await askUser(fakeChannel(), 'chat@g.us', prompt, target());
+
+    expect(answerPrompt('other@g.us', 'p1', 0, 'Mallory')).toBe(false);
+    expect(answerPrompt('chat@g.us', 'p1', 2, 'Alice')).toBe(false);
+    expect(fs.existsSync(path.join(answerDir, 'answers'))).toBe(false);
+  });
+
+  it('matches replies by number or choice text in the same conversation', async () => {
+    await askUser(fakeChannel(), 'chat@g.us', prompt, target());
+
+    expect(matchTextAnswer('chat@g.us', undefined, ' 2 ')).toEqual({
+      promptId: 'p1',
+      choice: 1,
+    });
+    expect(matchTextAnswer('chat@g.us', undefined, 'delete')).toEqual({
+      promptId: 'p1',
+      choice: 0,
+    });
+    expect(matchTextAnswer('chat@g.us', undefined, '3')).toBeUndefined();
+    expect(matchTextAnswer('chat@g.us', undefined, 'maybe')).toBeUndefined();
+    expect(matchTextAnswer('chat@g.us', 't1', '1')).toBeUndefined();
+    expect(matchTextAnswer('other@g.us', undefined, '1')).toBeUndefined();
+  });
+
+  it('prefers the newest open prompt', async () => {
+    await askUser(fakeChannel(), 'chat@g.us', prompt, target());
+    await askUser(
+      fakeChannel(),
+      'chat@g.us',
+      { id: 'p2', question: 'Which day?', choices: ['Mon', 'Tue'] },
+      target(),
+    );
+
+    expect(matchTextAnswer('chat@g.us', undefined, '1')?.promptId).toBe('p2');
+    expect(matchTextAnswer('chat@g.us', undefined, 'keep')?.promptId).toBe(
+      'p1',
+    );
+  });
+
+  it('forgets prompts after they expire', async () => {
+    vi.useFakeTimers();
+    await askUser(fakeChannel(), 'chat@g.us', prompt, target());
+
+    vi.advanceTimersByTime(60000);
+    expect(matchTextAnswer('chat@g.us', undefined, '1')).toBeUndefined();
+    expect(answerPrompt('chat@g.us', 'p1', 0, 'Alice')).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Questions agents ask with the ask_user tool.
+ *
+ * The question goes to the chat as buttons or a poll when the channel has
+ * sendPrompt, otherwise as numbered text. The first answer (a button press,
+ * or a reply with a choice's number or text) is written to the asking
+ * container's IPC input as answers/<id>.json, where the tool is waiting for
+ * it. Prompts nobody answers expire with the tool's timeout.
+ */
+import fs from 'fs';
+import path from 'path';
+
+import { logger } from './logger.js';
+import { deliver } from './outbox.js';
+import { Channel, Prompt, SendOptions } from './types.js';
+
+export interface PromptTarget {
+  threadId?: string; // Thread of the conversation that asked
+  answerDir: string; // Host path of the asking container's IPC input
+  expiresAt: number;
+}
+
+interface PendingPrompt extends Prompt, PromptTarget {
+  chatJid: string;
+}
+
+// Open prompts by ID, oldest first
+const pending = new Map<string, PendingPrompt>();
+
+/** The text fallback: the question and its numbered choices. */
+export function formatPromptText(prompt: Prompt): string {
+  const choices = prompt.choices.map((c, i) => `${i + 1}. ${c}`);
+  return `${prompt.question}\n\n${choices.join('\n')}\n\nReply with a number.`;
+}
+
+function dropExpired(now: number): void {
+  for (const [id, prompt] of pending) {
+    if (prompt.expiresAt <= now) pending.delete(id);
+  }
+}
+
+/** Post a prompt to the chat and wait for its answer. */
+export async function askUser(
+  channel: Channel | undefined,
+  jid: string,
+  prompt: Prompt,
+  target: PromptTarget,
+): Promise<void> {
+  dropExpired(Date.now());
+  pending.set(prompt.id, { ...prompt, ...target, chatJid: jid });
+
+  const options: SendOptions | undefined = target.threadId
+    ? { threadId: target.threadId }
+    : undefined;
+  if (channel?.sendPrompt && channel.isConnected()) {
+    try {
+      await channel.sendPrompt(jid, prompt, options);
+      return;
+    } catch (err) {
+      logger.warn(
+        { jid, promptId: prompt.id, err },
+        'sendPrompt failed, asking as text',
+      );
+    }
+  }
+  await deliver(channel, jid, formatPromptText(prompt), options);
+}
+
+/**
+ * Record the answer to an open prompt in the given chat. Returns false when
+ * there is no such prompt (already answered, expired, or another chat's).
+ */
+export function answerPrompt(
+  chatJid: string,
+  promptId: string,
+  choice: number,
+  sender: string,
+): boolean {
+  dropExpired(Date.now());
+  const prompt = pending.get(promptId);
+  if (!prompt || prompt.chatJid !== chatJid) return false;
+  if (!Number.isInteger(choice) || !prompt.choices[choice]) return false;
+  pending.delete(promptId);
+
+  const dir = path.join(prompt.answerDir, 'answers');
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${promptId}.json`);
+  // Atomic write: the tool may read at any moment
+  fs.writeFileSync(
+    `${file}.tmp`,
+    JSON.stringify({
+      choice,
+      answer: prompt.choices[choice],
+      sender,
+      answered_at: new Date().toISOString(),
+    }),
+  );
+  fs.renameSync(`${file}.tmp`, file);
+  logger.info({ chatJid, promptId, choice, sender }, 'Prompt answered');
+  return true;
+}
+
+/**
+ * Find the open prompt a chat message answers: its number or the text of
+ * one of its choices, in the same conversation. The newest prompt wins.
+ */
+export function matchTextAnswer(
+  chatJid: string,
+  threadId: string | undefined,
+  text: string,
+): { promptId: string; choice: number } | undefined {
+  dropExpired(Date.now());
+  const reply = text.trim().toLowerCase();
+  if (!reply) return undefined;
+  const open = [...pending.values()].filter(
+    (p) => p.chatJid === chatJid && p.threadId === threadId,
+  );
+  for (const prompt of open.reverse()) {
+    const n = /^\d+$/.test(reply) ? parseInt(reply, 10) : NaN;
+    if (n >= 1 && n <= prompt.choices.length) {
+      return { promptId: prompt.id, choice: n - 1 };
+    }
+    const choice = prompt.choices.findIndex(
+      (c) => c.trim().toLowerCase() === reply,
+    );
+    if (choice !== -1) return { promptId: prompt.id, choice };
+  }
+  return undefined;
+}
+
+/** @internal - for tests only. */
+export function _resetPromptsForTests(): void {
+  pending.clear();
+}
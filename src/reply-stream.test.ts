@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { _initTestDatabase } from './db.js';
+import { _resetOutboxWorkerForTests } from './outbox.js';
+import { ReplyStream } from './reply-stream.js';
+import { Channel, ChannelCapabilities } from './types.js';
+
+const editable: ChannelCapabilities = {
+  maxMessageLength: 40,
+  markup: 'markdown',
+  threads: true,
+  reactions: false,
+  attachments: false,
+  edits: true,
+  minEditIntervalMs: 1000,
+};
+
+function fakeChannel(
+  capabilities: ChannelCapabilities = editable,
+): Channel & { editMessage: ReturnType<typeof vi.fn> } {
+  let seq = 0;
+  return {
+    name: 'x',
+    capabilities,
+    connect: async () => {},
+    sendMessage: vi.fn(async () => `m${++seq}`),
+    editMessage: vi.fn(async () => {}),
+    isConnected: () => true,
+    ownsJid: (jid) => jid.startsWith('x:'),
+    disconnect: async () => {},
+  };
+}
+
+describe('ReplyStream', () => {
+  beforeEach(() => {
+    _initTestDatabase();
+    _resetOutboxWorkerForTests();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the first piece and edits later pieces into it, throttled', async () => {
+    const channel = fakeChannel();
+    const stream = new ReplyStream(channel, 'x:1', { replyTo: 'q1' });
+
+    await stream.append('one');
+    await stream.append('two');
+    await stream.append('three');
+    expect(channel.sendMessage).toHaveBeenCalledTimes(1);
+    expect(channel.sendMessage).toHaveBeenCalledWith('x:1', 'one', {
+      replyTo: 'q1',
+    });
+    expect(channel.editMessage).not.toHaveBeenCalled();
+
+    // One edit per interval carries everything appended so far
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(channel.editMessage).toHaveBeenCalledTimes(1);
+    expect(channel.editMessage).toHaveBeenCalledWith(
+      'x:1',
+      'm1',
+      'one\n\ntwo\n\nthree',
+    );
+  });
+
+  it('flush applies the pending edit and starts a new message next', async () => {
+    const channel = fakeChannel();
+    const stream = new ReplyStream(channel, 'x:1', {
+      replyTo: 'q1',
+      threadId: 't1',
+    });
+
+    await stream.append('one');
+    await stream.append('two');
+    await stream.flush();
+    expect(channel.editMessage).toHaveBeenCalledWith('x:1', 'm1', 'one\n\ntwo');
+
+    await stream.append('next answer');
+    expect(vi.mocked(channel.sendMessage).mock.calls[1]).toEqual([
+      'x:1',
+      'next answer',
+      { threadId: 't1' },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(channel.editMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a new message when the reply would outgrow the limit', async () => {
+    const channel = fakeChannel();
+    const stream = new ReplyStream(channel, 'x:1');
+
+    await stream.append('a'.repeat(20));
+    await stream.append('b'.repeat(10));
+    await stream.append('c'.repeat(20));
+
+    expect(channel.editMessage).toHaveBeenCalledTimes(1);
+    expect(channel.editMessage).toHaveBeenCalledWith(
+      'x:1',
+      'm1',
+      `${'a'.repeat(20)}\n\n${'b'.repeat(10)}`,
+    );
+    expect(vi.mocked(channel.sendMessage).mock.calls[1][1]).toBe(
+      'c'.repeat(20),
+    );
+  });
+
+  it('reports the full text of each message it sends or edits', async () => {
+    const channel = fakeChannel();
+    const onSent = vi.fn();
+    const stream = new ReplyStream(channel, 'x:1', undefined, onSent);
+
+    await stream.append('one');
+    await stream.append('two');
+    await stream.flush();
+
+    expect(onSent.mock.calls).toEqual([
+      ['m1', 'one'],
+      ['m1', 'one\n\ntwo'],
+    ]);
+  });
+
+  it('sends each piece separately on channels that cannot edit', async () => {
+    const channel = fakeChannel({ ...editable, edits: false });
+    const stream = new ReplyStream(channel, 'x:1');
+
+    await stream.append('one');
+    await stream.append('two');
+    await stream.flush();
+
+    expect(vi.mocked(channel.sendMessage).mock.calls.map((c) => c[1])).toEqual([
+      'one',
+      'two',
+    ]);
+    expect(channel.editMessage).not.toHaveBeenCalled();
+  });
+
+  it('sends the unshown rest as a new message when an edit fails', async () => {
+    const channel = fakeChannel();
+    channel.editMessage.mockRejectedValueOnce(new Error('too old'));
+    const stream = new ReplyStream(channel, 'x:1');
+
+    await stream.append('one');
+    await stream.append('two');
+    await stream.flush();
+
+    expect(vi.mocked(channel.sendMessage).mock.calls.map((c) => c[1])).toEqual([
+      'one',
+      'two',
+    ]);
+  });
+});
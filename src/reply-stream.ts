@@ -0,0 +1,151 @@
+import { logger } from './logger.js';
+import { deliver } from './outbox.js';
+import { formatOutbound, getCapabilities } from './router.js';
+import { Channel, SendOptions } from './types.js';
+
+const DEFAULT_MIN_EDIT_INTERVAL_MS = 1000;
+
+/**
+ * One agent reply, built up from streamed results and send_message
+ * progress updates. On channels that can edit, pieces are appended to a
+ * single message that is edited in place (no more often than the channel's
+ * minEditIntervalMs); elsewhere each piece is sent as its own message.
+ *
+ * Text is Markdown with internal tags already stripped.
+ */
+export class ReplyStream {
+  private text = ''; // Markdown of the message being built
+  private shownText = ''; // What the platform currently shows for it
+  private messageId: string | undefined;
+  private lastEditAt = 0;
+  private editTimer: ReturnType<typeof setTimeout> | null = null;
+  // Appends, edits and flushes run one at a time, in call order
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly channel: Channel,
+    private readonly jid: string,
+    private options?: SendOptions,
+    // Told the full text of each message the stream sends or edits
+    private readonly onSent?: (messageId: string, text: string) => void,
+  ) {}
+
+  /** Add a piece of the reply. */
+  append(piece: string): Promise<void> {
+    return this.enqueue(async () => {
+      const { maxMessageLength } = getCapabilities(this.channel);
+      const combined = this.text ? `${this.text}\n\n${piece}` : piece;
+      if (
+        this.messageId &&
+        (!maxMessageLength || combined.length <= maxMessageLength)
+      ) {
+        this.text = combined;
+        this.scheduleEdit();
+        return;
+      }
+      // Nothing to extend, or it would no longer fit: finish the current
+      // message and start another
+      await this.editNow();
+      await this.sendNew(piece);
+    });
+  }
+
+  /**
+   * Apply any pending edit now and end the current message, so the next
+   * piece starts a new one (e.g. the answer to a follow-up question).
+   */
+  flush(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.editNow();
+      this.text = '';
+      this.shownText = '';
+      this.messageId = undefined;
+    });
+  }
+
+  private canEdit(): boolean {
+    return (
+      !!this.channel.editMessage && getCapabilities(this.channel).edits === true
+    );
+  }
+
+  private enqueue(fn: () => Promise<void>): Promise<void> {
+    const next = this.chain.then(fn);
+    // Keep the chain usable after a failure; the caller still sees it
+    this.chain = next.catch(() => {});
+    return next;
+  }
+
+  private async sendNew(piece: string): Promise<void> {
+    // Delivered through the outbox: a piece that can't go out now is
+    // retried later, and then has no ID to edit
+    const { messageId } = await deliver(
+      this.channel,
+      this.jid,
+      piece,
+      this.options,
+    );
+    // Only the first message quotes; the rest stay in the thread
+    this.options = this.options?.threadId
+      ? { threadId: this.options.threadId }
+      : undefined;
+
+    const { maxMessageLength } = getCapabilities(this.channel);
+    const fits = !maxMessageLength || piece.length <= maxMessageLength;
+    // A piece that was split across messages can't be extended by editing
+    if (messageId && fits) this.onSent?.(messageId, piece);
+    if (this.canEdit() && messageId && fits) {
+      this.messageId = messageId;
+      this.text = piece;
+      this.shownText = piece;
+      this.lastEditAt = Date.now();
+    } else {
+      this.messageId = undefined;
+      this.text = '';
+      this.shownText = '';
+    }
+  }
+
+  private scheduleEdit(): void {
+    if (this.editTimer) return; // The pending edit picks up the latest text
+    const interval =
+      getCapabilities(this.channel).minEditIntervalMs ??
+      DEFAULT_MIN_EDIT_INTERVAL_MS;
+    const delay = Math.max(0, this.lastEditAt + interval - Date.now());
+    this.editTimer = setTimeout(() => {
+      this.editTimer = null;
+      this.enqueue(() => this.editNow()).catch((err) =>
+        logger.warn({ jid: this.jid, err }, 'Failed to update streamed reply'),
+      );
+    }, delay);
+  }
+
+  private async editNow(): Promise<void> {
+    if (this.editTimer) {
+      clearTimeout(this.editTimer);
+      this.editTimer = null;
+    }
+    if (!this.messageId || this.text === this.shownText) return;
+
+    const { markup } = getCapabilities(this.channel);
+    try {
+      await this.channel.editMessage!(
+        this.jid,
+        this.messageId,
+        formatOutbound(this.text, markup),
+      );
+      this.shownText = this.text;
+      this.lastEditAt = Date.now();
+      this.onSent?.(this.messageId, this.text);
+    } catch (err) {
+      // Don't lose what the edit would have added: send it on its own
+      logger.warn(
+        { jid: this.jid, err },
+        'Failed to edit streamed reply, sending the rest as a new message',
+      );
+      const rest = this.text.slice(this.shownText.length).replace(/^\n+/, '');
+      this.messageId = undefined;
+      await this.sendNew(rest);
+    }
+  }
+}
@@ -1,4 +1,13 @@
-import { Channel, NewMessage } from './types.js';
+import { renderMarkup } from './formatters.js';
+import {
+  Channel,
+  ChannelCapabilities,
+  ChannelMarkup,
+  NewMessage,
+  OutboundFile,
+  Person,
+  SendOptions,
+} from './types.js';
 import { formatLocalTime } from './timezone.js';
 
 export function escapeXml(s: string): string {
@@ -10,13 +19,39 @@ export function escapeXml(s: string): string {
     .replace(/"/g, '&quot;');
 }
 
+/**
+ * Render messages for the agent prompt. With findPerson, senders linked to
+ * a person appear under the person's name and id, whichever platform
+ * account they wrote from.
+ */
 export function formatMessages(
   messages: NewMessage[],
   timezone: string,
+  findPerson?: (chatJid: string, sender: string) => Person | undefined,
 ): string {
   const lines = messages.map((m) => {
+    const person = m.is_bot_message
+      ? undefined
+      : findPerson?.(m.chat_jid, m.sender);
     const displayTime = formatLocalTime(m.timestamp, timezone);
-    return `<message sender="${escapeXml(m.sender_name)}" time="${escapeXml(displayTime)}">${escapeXml(m.content)}</message>`;
+    const attachments = (m.attachments ?? []).map(
+      (a) =>
+        `<attachment path="${escapeXml(`/workspace/group/${a.path}`)}" mime="${escapeXml(a.mime)}" />`,
+    );
+    const body = [escapeXml(m.content), ...attachments]
+      .filter(Boolean)
+      .join('\n');
+    const refs = [
+      person ? ` person="${escapeXml(person.id)}"` : '',
+      ` id="${escapeXml(m.id)}"`,
+      m.reply_to_id ? ` reply_to="${escapeXml(m.reply_to_id)}"` : '',
+      m.thread_id ? ` thread="${escapeXml(m.thread_id)}"` : '',
+      m.edited_at
+        ? ` edited="${escapeXml(formatLocalTime(m.edited_at, timezone))}"`
+        : '',
+    ].join('');
+    const senderName = person?.display_name ?? m.sender_name;
+    return `<message sender="${escapeXml(senderName)}" time="${escapeXml(displayTime)}"${refs}>${body}</message>`;
   });
 
   const header = `<context timezone="${escapeXml(timezone)}" />\n`;
@@ -28,20 +63,256 @@ export function stripInternalTags(text: string): string {
   return text.replace(/<internal>[\s\S]*?<\/internal>/g, '').trim();
 }
 
-export function formatOutbound(rawText: string): string {
+/**
+ * Prepare agent output for a channel: drop <internal> blocks, then convert
+ * Markdown to the channel's markup ('markdown' leaves it untouched).
+ */
+export function formatOutbound(
+  rawText: string,
+  markup: ChannelMarkup = 'markdown',
+): string {
   const text = stripInternalTags(rawText);
   if (!text) return '';
-  return text;
+  return renderMarkup(text, markup);
+}
+
+const DEFAULT_CAPABILITIES: ChannelCapabilities = {
+  markup: 'markdown',
+  threads: false,
+  reactions: false,
+  attachments: false,
+  edits: false,
+};
+
+export function getCapabilities(channel: Channel): ChannelCapabilities {
+  return channel.capabilities ?? DEFAULT_CAPABILITIES;
+}
+
+const FENCE_RE = /^\s*(```|~~~)/;
+
+/**
+ * Split text into blocks: paragraphs separated by blank lines, with each
+ * code fence kept together (blank lines inside a fence don't split it).
+ */
+function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+  for (const line of text.split('\n')) {
+    const marker = line.match(FENCE_RE)?.[1];
+    if (fence === null && marker) {
+      if (current.length) blocks.push(current.join('\n'));
+      current = [line];
+      fence = marker;
+    } else if (fence !== null) {
+      current.push(line);
+      if (marker === fence && line.trim() === fence) {
+        blocks.push(current.join('\n'));
+        current = [];
+        fence = null;
+      }
+    } else if (!line.trim()) {
+      if (current.length) blocks.push(current.join('\n'));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length) blocks.push(current.join('\n'));
+  return blocks;
+}
+
+/** Split one line at the last whitespace that fits, or hard at maxLength. */
+function splitLine(line: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = line;
+  while (rest.length > maxLength) {
+    const space = rest.lastIndexOf(' ', maxLength);
+    const cut = space > maxLength / 2 ? space : maxLength;
+    pieces.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/** Pack lines into chunks of at most maxLength, joined by newlines. */
+function packLines(lines: string[], maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const line of lines.flatMap((l) =>
+    l.length > maxLength ? splitLine(l, maxLength) : [l],
+  )) {
+    if (current && current.length + 1 + line.length > maxLength) {
+      chunks.push(current);
+      current = line;
+    } else {
+      current = current ? `${current}\n${line}` : line;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/** Split an oversized code fence, closing and reopening it in each chunk. */
+function splitFence(block: string, maxLength: number): string[] {
+  const lines = block.split('\n');
+  const opener = lines[0];
+  const marker = opener.match(FENCE_RE)![1];
+  const closed = lines.length > 1 && lines[lines.length - 1].trim() === marker;
+  const body = lines.slice(1, closed ? -1 : undefined);
+  const budget = maxLength - opener.length - marker.length - 2;
+  if (budget < 20) return packLines(lines, maxLength);
+  return packLines(body, budget).map((c) => `${opener}\n${c}\n${marker}`);
+}
+
+/**
+ * Split a message into chunks no longer than maxLength, preferring
+ * paragraph boundaries and never cutting a code fence without re-balancing
+ * its markers. Returns the text unchanged when it already fits.
+ */
+export function splitMessage(text: string, maxLength?: number): string[] {
+  if (!maxLength || text.length <= maxLength) return [text];
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const block of splitBlocks(text)) {
+    if (current && current.length + 2 + block.length <= maxLength) {
+      current = `${current}\n\n${block}`;
+      continue;
+    }
+    if (current) chunks.push(current);
+    current = '';
+    if (block.length <= maxLength) {
+      current = block;
+      continue;
+    }
+    const pieces = FENCE_RE.test(block)
+      ? splitFence(block, maxLength)
+      : packLines(block.split('\n'), maxLength);
+    chunks.push(...pieces.slice(0, -1));
+    current = pieces[pieces.length - 1] ?? '';
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Split Markdown into chunks whose formatted form fits maxLength. Markup
+ * can grow when formatted (HTML tags, link targets), so a chunk that ends
+ * up too long is split again from its source, more finely.
+ */
+function formatChunks(
+  text: string,
+  markup: ChannelMarkup,
+  maxLength: number | undefined,
+  sourceLength = maxLength,
+): string[] {
+  const out: string[] = [];
+  for (const chunk of splitMessage(text, sourceLength)) {
+    const formatted = formatOutbound(chunk, markup);
+    if (!formatted) continue;
+    if (!maxLength || formatted.length <= maxLength) {
+      out.push(formatted);
+      continue;
+    }
+    const finer = Math.floor((chunk.length * maxLength) / formatted.length);
+    if (finer > 0 && finer < chunk.length) {
+      out.push(...formatChunks(chunk, markup, maxLength, finer));
+    } else {
+      // Cannot split the source any finer: cut the formatted text instead
+      out.push(...splitMessage(formatted, maxLength));
+    }
+  }
+  return out;
+}
+
+/**
+ * Where a retried send of a split message picks up. The first skip chunks
+ * are left out, onChunkSent hears how many are out after each one, and an
+ * aborted signal stops before the next chunk.
+ */
+export interface ChunkProgress {
+  skip: number;
+  onChunkSent: (chunksSent: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Send agent text through a channel: split the Markdown so that each chunk,
+ * once formatted for the channel's markup, fits its maximum message length.
+ * Chunks are sent in order; options.replyTo applies to the first one.
+ * Resolves with the ID of the last chunk, when the channel reports one.
+ */
+export async function sendOutbound(
+  channel: Channel,
+  jid: string,
+  text: string,
+  options?: SendOptions,
+  progress?: ChunkProgress,
+): Promise<string | undefined> {
+  const { maxMessageLength, markup } = getCapabilities(channel);
+  const chunks = formatChunks(text, markup, maxMessageLength);
+  // Only the first chunk quotes; the rest just stay in the thread
+  const restOptions = options?.threadId
+    ? { threadId: options.threadId }
+    : undefined;
+  let messageId: string | undefined;
+  for (let i = progress?.skip ?? 0; i < chunks.length; i++) {
+    progress?.signal?.throwIfAborted();
+    messageId =
+      (await channel.sendMessage(
+        jid,
+        chunks[i],
+        i === 0 ? options : restOptions,
+      )) || undefined;
+    progress?.onChunkSent(i + 1);
+  }
+  return messageId;
+}
+
+/**
+ * Send a file through a channel with an optional Markdown caption.
+ * Channels without sendFile get the caption plus a plain-text notice, so
+ * the chat still learns that something was meant to arrive.
+ * options.threadId keeps it in the thread the request came from.
+ */
+export async function sendOutboundFile(
+  channel: Channel,
+  jid: string,
+  file: OutboundFile,
+  options?: SendOptions,
+): Promise<void> {
+  const caption = file.caption ? formatOutbound(file.caption) : '';
+  if (!channel.sendFile) {
+    const notice = `[File not sent: ${file.filename}. This channel does not support files.]`;
+    await sendOutbound(
+      channel,
+      jid,
+      caption ? `${caption}\n\n${notice}` : notice,
+      options,
+    );
+    return;
+  }
+  const formatted = caption
+    ? formatOutbound(caption, getCapabilities(channel).markup)
+    : '';
+  await channel.sendFile(
+    jid,
+    { ...file, caption: formatted || undefined },
+    options,
+  );
 }
 
 export function routeOutbound(
   channels: Channel[],
   jid: string,
   text: string,
-): Promise<void> {
+  options?: SendOptions,
+): Promise<string | undefined> {
   const channel = channels.find((c) => c.ownsJid(jid) && c.isConnected());
   if (!channel) throw new Error(`No channel for JID: ${jid}`);
-  return channel.sendMessage(jid, text);
+  return sendOutbound(channel, jid, text, options);
 }
 
 export function findChannel(
@@ -1,7 +1,14 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 import { _initTestDatabase, getAllChats, storeChatMetadata } from './db.js';
 import { getAvailableGroups, _setRegisteredGroups } from './index.js';
+import {
+  getCapabilities,
+  routeOutbound,
+  sendOutbound,
+  sendOutboundFile,
+} from './router.js';
+import { Channel, ChannelCapabilities, OutboundFile } from './types.js';
 
 beforeEach(() => {
   _initTestDatabase();
@@ -168,3 +175,125 @@ describe('getAvailableGroups', () => {
     expect(groups).toHaveLength(0);
   });
 });
+
+// --- Outbound routing ---
+
+function fakeChannel(
+  prefix: string,
+  capabilities?: ChannelCapabilities,
+  connected = true,
+): Channel & { sent: string[] } {
+  const sent: string[] = [];
+  return {
+    name: prefix,
+    capabilities,
+    sent,
+    connect: async () => {},
+    sendMessage: vi.fn(async (_jid: string, text: string) => {
+      sent.push(text);
+    }),
+    isConnected: () => connected,
+    ownsJid: (jid) => jid.startsWith(`${prefix}:`),
+    disconnect: async () => {},
+  };
+}
+
+describe('outbound routing', () => {
+  const limited: ChannelCapabilities = {
+    maxMessageLength: 30,
+    markup: 'plain',
+    threads: false,
+    reactions: false,
+    attachments: false,
+    edits: false,
+  };
+
+  it('passes Markdown through, unlimited, for channels without capabilities', () => {
+    const caps = getCapabilities(fakeChannel('x'));
+    expect(caps).toMatchObject({ markup: 'markdown', edits: false });
+    expect(caps.maxMessageLength).toBeUndefined();
+  });
+
+  it('sends oversized text in order as multiple messages', async () => {
+    const channel = fakeChannel('x', limited);
+    await sendOutbound(channel, 'x:1', 'first paragraph\n\nsecond paragraph');
+    expect(channel.sent).toEqual(['first paragraph', 'second paragraph']);
+  });
+
+  it('splits again when formatting makes a chunk too long', async () => {
+    const channel = fakeChannel('x', { ...limited, markup: 'html' });
+    const words = Array.from({ length: 8 }, (_, i) => `**w${i}**`);
+    await sendOutbound(channel, 'x:1', words.join(' '));
+    for (const message of channel.sent) {
+      expect(message.length).toBeLessThanOrEqual(30);
+    }
+    expect(channel.sent.join(' ')).toBe(
+      words
+        .map((w) => w.replace(/\*\*(\w+)\*\*/, '<strong>$1</strong>'))
+        .join(' '),
+    );
+  });
+
+  it('does not split for channels without a limit', async () => {
+    const channel = fakeChannel('x');
+    const text = 'y'.repeat(10000);
+    await sendOutbound(channel, 'x:1', text);
+    expect(channel.sent).toEqual([text]);
+  });
+
+  it('quotes with the first chunk only and keeps every chunk in the thread', async () => {
+    const channel = fakeChannel('x', limited);
+    await sendOutbound(channel, 'x:1', 'first paragraph\n\nsecond paragraph', {
+      replyTo: 'm1',
+      threadId: 't1',
+    });
+    expect(vi.mocked(channel.sendMessage).mock.calls).toEqual([
+      ['x:1', 'first paragraph', { replyTo: 'm1', threadId: 't1' }],
+      ['x:1', 'second paragraph', { threadId: 't1' }],
+    ]);
+  });
+
+  it('routeOutbound picks the connected owner and chunks for it', async () => {
+    const offline = fakeChannel('x', undefined, false);
+    const online = fakeChannel('x', limited);
+    await routeOutbound([offline, online], 'x:1', 'a'.repeat(50));
+    expect(offline.sent).toEqual([]);
+    expect(online.sent).toEqual(['a'.repeat(30), 'a'.repeat(20)]);
+  });
+
+  it('routeOutbound throws when no channel owns the JID', () => {
+    expect(() => routeOutbound([fakeChannel('x')], 'y:1', 'hi')).toThrow(
+      /No channel for JID/,
+    );
+  });
+
+  const file: OutboundFile = {
+    path: '/tmp/report.pdf',
+    mime: 'application/pdf',
+    filename: 'report.pdf',
+    size: 10,
+    caption: 'Here is the **report**',
+  };
+
+  it('sends files with the caption rendered for the channel', async () => {
+    const channel = {
+      ...fakeChannel('x', { ...limited, attachments: true }),
+      sendFile: vi.fn(async () => {}),
+    };
+    await sendOutboundFile(channel, 'x:1', file, { threadId: 't1' });
+    expect(channel.sendFile).toHaveBeenCalledWith(
+      'x:1',
+      { ...file, caption: 'Here is the report' },
+      { threadId: 't1' },
+    );
+    expect(channel.sent).toEqual([]);
+  });
+
+  it('falls back to a text notice when the channel cannot send files', async () => {
+    const channel = fakeChannel('x');
+    await sendOutboundFile(channel, 'x:1', file);
+    expect(channel.sent).toEqual([
+      'Here is the **report**\n\n[File not sent: report.pdf. This channel does not support files.]',
+    ]);
+  });
+});
@@ -153,6 +153,33 @@ describe('isSenderAllowed', () => {
     expect(isSenderAllowed('g1', 'bob', cfg)).toBe(false);
     expect(isSenderAllowed('g2', 'bob', cfg)).toBe(true);
   });
+
+  it('allows a linked person from any of their sender IDs', () => {
+    const alice = {
+      id: 'alice',
+      display_name: 'Alice',
+      roles: ['family'],
+      identities: [
+        { channel: 'signal', sender: '+15551112222' },
+        { channel: 'matrix', sender: '@alice:example.org' },
+      ],
+    };
+    const allow = (list: string[]) =>
+      isSenderAllowed(
+        'g1',
+        '@alice:example.org',
+        {
+          default: { allow: list, mode: 'trigger' },
+          chats: {},
+          logDenied: true,
+        },
+        alice,
+      );
+    expect(allow(['+15551112222'])).toBe(true);
+    expect(allow(['person:alice'])).toBe(true);
+    expect(allow(['role:family'])).toBe(true);
+    expect(allow(['person:bob', 'role:admin'])).toBe(false);
+  });
 });
 
 describe('shouldDropMessage', () => {
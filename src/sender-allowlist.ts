@@ -2,6 +2,7 @@ import fs from 'fs';
 
 import { SENDER_ALLOWLIST_PATH } from './config.js';
 import { logger } from './logger.js';
+import { Person } from './types.js';
 
 export interface ChatAllowlistEntry {
   allow: '*' | string[];
@@ -95,14 +96,27 @@ function getEntry(
   return cfg.chats[chatJid] ?? cfg.default;
 }
 
+/**
+ * With a linked person, an allow list naming any of their sender IDs,
+ * "person:<id>" or one of their roles as "role:<name>" admits them from
+ * every platform.
+ */
 export function isSenderAllowed(
   chatJid: string,
   sender: string,
   cfg: SenderAllowlistConfig,
+  person?: Person,
 ): boolean {
   const entry = getEntry(chatJid, cfg);
   if (entry.allow === '*') return true;
-  return entry.allow.includes(sender);
+  if (entry.allow.includes(sender)) return true;
+  if (!person) return false;
+  return entry.allow.some(
+    (allowed) =>
+      allowed === `person:${person.id}` ||
+      person.identities.some((i) => i.sender === allowed) ||
+      person.roles.some((role) => allowed === `role:${role}`),
+  );
 }
 
 export function shouldDropMessage(
@@ -116,8 +130,9 @@ export function isTriggerAllowed(
   chatJid: string,
   sender: string,
   cfg: SenderAllowlistConfig,
+  person?: Person,
 ): boolean {
-  const allowed = isSenderAllowed(chatJid, sender, cfg);
+  const allowed = isSenderAllowed(chatJid, sender, cfg, person);
   if (!allowed && cfg.logDenied) {
     logger.debug(
       { chatJid, sender },
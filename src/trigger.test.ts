@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ASSISTANT_NAME } from './config.js';
+import {
+  _clearTriggerCache,
+  compileTrigger,
+  matchesTrigger,
+  parseTriggerAliases,
+} from './trigger.js';
+import { RegisteredGroup } from './types.js';
+
+function makeGroup(overrides: Partial<RegisteredGroup> = {}): RegisteredGroup {
+  return {
+    name: 'Team',
+    folder: 'team',
+    trigger: '@Andy',
+    added_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  _clearTriggerCache();
+});
+
+// --- parseTriggerAliases ---
+
+describe('parseTriggerAliases', () => {
+  it('splits on commas and pipes', () => {
+    expect(parseTriggerAliases('@Andy, @Bot|Hey Andy')).toEqual([
+      '@Andy',
+      '@Bot',
+      'Hey Andy',
+    ]);
+  });
+
+  it('drops empty entries', () => {
+    expect(parseTriggerAliases(' , @Andy,,')).toEqual(['@Andy']);
+  });
+});
+
+// --- start mode (default) ---
+
+describe('start mode', () => {
+  it('matches the alias at the start of the message', () => {
+    expect(matchesTrigger(makeGroup(), '@Andy hello')).toBe(true);
+  });
+
+  it('matches case-insensitively', () => {
+    expect(matchesTrigger(makeGroup(), '@andy hello')).toBe(true);
+  });
+
+  it('does not match mid-message', () => {
+    expect(matchesTrigger(makeGroup(), 'hello @Andy')).toBe(false);
+  });
+
+  it('respects word boundaries', () => {
+    expect(matchesTrigger(makeGroup(), '@Andyextra hello')).toBe(false);
+  });
+
+  it('trims leading whitespace before matching', () => {
+    expect(matchesTrigger(makeGroup(), '   @Andy hi')).toBe(true);
+  });
+
+  it('matches any of several aliases', () => {
+    const group = makeGroup({ trigger: '@Andy, @Bot, Hey Andy' });
+    expect(matchesTrigger(group, '@Bot do it')).toBe(true);
+    expect(matchesTrigger(group, 'hey andy, do it')).toBe(true);
+    expect(matchesTrigger(group, '@Carl do it')).toBe(false);
+  });
+
+  it('escapes regex metacharacters in aliases', () => {
+    const group = makeGroup({ trigger: 'a.i' });
+    expect(matchesTrigger(group, 'a.i help')).toBe(true);
+    expect(matchesTrigger(group, 'abi help')).toBe(false);
+  });
+
+  it('uses the group trigger rather than the assistant name', () => {
+    const group = makeGroup({ trigger: '@Jarvis' });
+    expect(matchesTrigger(group, '@Jarvis hi')).toBe(true);
+    if (ASSISTANT_NAME !== 'Jarvis') {
+      expect(matchesTrigger(group, `@${ASSISTANT_NAME} hi`)).toBe(false);
+    }
+  });
+
+  it('falls back to @ASSISTANT_NAME when the trigger is empty', () => {
+    const group = makeGroup({ trigger: '' });
+    expect(matchesTrigger(group, `@${ASSISTANT_NAME} hi`)).toBe(true);
+  });
+});
+
+// --- mention mode ---
+
+describe('mention mode', () => {
+  it('matches the alias anywhere in the message', () => {
+    const group = makeGroup({ triggerMode: 'mention' });
+    expect(matchesTrigger(group, 'what do you think @Andy?')).toBe(true);
+    expect(matchesTrigger(group, '@Andy first')).toBe(true);
+  });
+
+  it('does not match inside another word', () => {
+    const group = makeGroup({ trigger: 'Andy', triggerMode: 'mention' });
+    expect(matchesTrigger(group, 'ask Andy about it')).toBe(true);
+    expect(matchesTrigger(group, 'ask Sandy about it')).toBe(false);
+    expect(matchesTrigger(group, 'ask Andyman about it')).toBe(false);
+  });
+});
+
+// --- regex triggers ---
+
+describe('regex triggers', () => {
+  it('compiles /pattern/flags triggers as a regex', () => {
+    const group = makeGroup({ trigger: '/^(hey|yo),? andy\\b/i' });
+    expect(matchesTrigger(group, 'Yo andy what up')).toBe(true);
+    expect(matchesTrigger(group, 'hey, Andy')).toBe(true);
+    expect(matchesTrigger(group, 'hi andy')).toBe(false);
+  });
+
+  it('ignores triggerMode for regex triggers', () => {
+    const group = makeGroup({ trigger: '/deploy/', triggerMode: 'start' });
+    expect(matchesTrigger(group, 'please deploy now')).toBe(true);
+  });
+
+  it('strips the global flag so repeated tests are stable', () => {
+    const pattern = compileTrigger('/andy/gi');
+    expect(pattern.global).toBe(false);
+    expect(pattern.test('andy')).toBe(true);
+    expect(pattern.test('andy')).toBe(true);
+  });
+
+  it('treats an invalid regex as a literal alias', () => {
+    const group = makeGroup({ trigger: '/(unclosed/' });
+    expect(matchesTrigger(group, '/(unclosed/ hi')).toBe(true);
+    expect(matchesTrigger(group, 'hi')).toBe(false);
+  });
+});
+
+// --- caching ---
+
+describe('compileTrigger cache', () => {
+  it('returns the same RegExp for the same trigger and mode', () => {
+    expect(compileTrigger('@Andy')).toBe(compileTrigger('@Andy'));
+  });
+
+  it('compiles separately per mode', () => {
+    expect(compileTrigger('@Andy', 'start')).not.toBe(
+      compileTrigger('@Andy', 'mention'),
+    );
+  });
+});
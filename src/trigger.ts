@@ -0,0 +1,103 @@
+/**
+ * Per-group trigger matching.
+ *
+ * A group's stored trigger (registered_groups.trigger_pattern) is compiled
+ * once into a RegExp and cached. Supported forms:
+ *   "@Andy"             single alias
+ *   "@Andy, @Bot|Hey"   multiple aliases, separated by commas or pipes
+ *   "/^(hey|yo) andy/i" a raw regex (triggerMode is ignored — the regex
+ *                       decides its own anchoring)
+ *
+ * Alias triggers honour the group's triggerMode:
+ *   start   — the alias must open the message (default, matches the
+ *             historical TRIGGER_PATTERN behaviour)
+ *   mention — the alias may appear anywhere as a standalone word
+ */
+import { ASSISTANT_NAME } from './config.js';
+import { logger } from './logger.js';
+import { RegisteredGroup, TriggerMode } from './types.js';
+
+const REGEX_TRIGGER = /^\/(.+)\/([a-z]*)$/s;
+
+const cache = new Map<string, RegExp>();
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function aliasSource(alias: string): string {
+  // Only add boundaries next to word characters, so aliases like
+  // "@Andy" or "Andy!" still match where \b would never hold.
+  const lead = /^\w/.test(alias) ? '(?<!\\w)' : '';
+  const tail = /\w$/.test(alias) ? '\\b' : '';
+  return `${lead}${escapeRegex(alias)}${tail}`;
+}
+
+export function parseTriggerAliases(trigger: string): string[] {
+  return trigger
+    .split(/[,|]/)
+    .map((a) => a.trim())
+    .filter(Boolean);
+}
+
+function compileAliases(aliases: string[], mode: TriggerMode): RegExp {
+  const alternation = aliases.map(aliasSource).join('|');
+  const anchor = mode === 'mention' ? '' : '^';
+  return new RegExp(`${anchor}(?:${alternation})`, 'i');
+}
+
+/**
+ * Compile a stored trigger string into a RegExp. Results are cached per
+ * (mode, trigger) pair; the returned RegExp is never global/sticky, so
+ * .test() is safe to call repeatedly.
+ */
+export function compileTrigger(
+  trigger: string,
+  mode: TriggerMode = 'start',
+): RegExp {
+  const key = `${mode}\0${trigger}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  let pattern: RegExp | undefined;
+  const regexMatch = trigger.trim().match(REGEX_TRIGGER);
+  if (regexMatch) {
+    try {
+      pattern = new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ''));
+    } catch (err) {
+      logger.warn(
+        { trigger, err },
+        'Invalid trigger regex, matching it as a literal alias',
+      );
+    }
+  }
+
+  if (!pattern) {
+    const aliases = parseTriggerAliases(trigger);
+    pattern = compileAliases(
+      aliases.length > 0 ? aliases : [`@${ASSISTANT_NAME}`],
+      mode,
+    );
+  }
+
+  cache.set(key, pattern);
+  return pattern;
+}
+
+/** Get the compiled trigger pattern for a registered group. */
+export function getTriggerPattern(group: RegisteredGroup): RegExp {
+  return compileTrigger(group.trigger || '', group.triggerMode);
+}
+
+/** True if the message content contains the group's trigger. */
+export function matchesTrigger(
+  group: RegisteredGroup,
+  content: string,
+): boolean {
+  return getTriggerPattern(group).test(content.trim());
+}
+
+/** @internal - for tests only. */
+export function _clearTriggerCache(): void {
+  cache.clear();
+}
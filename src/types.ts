@@ -32,14 +32,24 @@ export interface ContainerConfig {
   timeout?: number; // Default: 300000 (5 minutes)
 }
 
+/**
+ * How alias triggers are matched against message content.
+ * start:   the trigger must open the message (e.g. "@Andy what's up")
+ * mention: the trigger may appear anywhere (e.g. "what do you think @Andy")
+ */
+export type TriggerMode = 'start' | 'mention';
+
 export interface RegisteredGroup {
   name: string;
   folder: string;
-  trigger: string;
+  trigger: string; // Alias(es) separated by "," or "|", or a /regex/flags
   added_at: string;
   containerConfig?: ContainerConfig;
   requiresTrigger?: boolean; // Default: true for groups, false for solo chats
+  triggerMode?: TriggerMode; // Default: 'start'
   isMain?: boolean; // True for the main control group (no trigger, elevated privileges)
+  debounceMs?: number; // Quiet period before answering. Default: MESSAGE_DEBOUNCE_MS
+  model?: string; // Claude model for its agent runs (set with /model). Default: the SDK's
 }
 
 export interface NewMessage {
@@ -51,6 +61,37 @@ export interface NewMessage {
   timestamp: string;
   is_from_me?: boolean;
   is_bot_message?: boolean;
+  reply_to_id?: string; // ID of the message this one quotes or answers
+  thread_id?: string; // Root message ID of the thread it was posted in
+  edited_at?: string; // When the sender last edited it; content is the edited text
+  // Files received with the message (filled in when reading from the DB)
+  attachments?: MessageAttachment[];
+}
+
+// Media a channel has downloaded and hands over with an inbound message.
+// The host writes it under the group folder; channels never touch disk.
+export interface InboundAttachment {
+  data: Buffer;
+  mime: string;
+  filename?: string; // Original name, if the platform provides one
+}
+
+// A stored attachment. path is relative to the group folder, so the agent
+// sees it at /workspace/group/<path>.
+export interface MessageAttachment {
+  path: string;
+  mime: string;
+  filename?: string;
+  size: number;
+}
+
+// A file an agent asked to send, validated and resolved to a host path
+export interface OutboundFile {
+  path: string; // Absolute path on the host
+  mime: string;
+  filename: string;
+  size: number;
+  caption?: string; // Markdown; rendered for the channel before sendFile
 }
 
 export interface ScheduledTask {
@@ -77,23 +118,180 @@ export interface TaskRunLog {
   error: string | null;
 }
 
+// An outbound message in the outbox. pending ones are (re)tried by the
+// delivery worker; failed ones ran out of attempts or time.
+export interface OutboxItem {
+  id: number;
+  chat_jid: string;
+  text: string; // Markdown, formatted for the channel at send time
+  reply_to: string | null;
+  thread_id: string | null;
+  dedupe_key: string | null;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  message_id: string | null; // Platform ID of the (last) message sent
+  chunks_sent: number; // Chunks of a split message already sent
+  created_at: string;
+  sent_at: string | null;
+}
+
 // --- Channel abstraction ---
 
+// Markup a platform renders natively. The router converts agent output
+// (CommonMark) into it; 'markdown' passes text through unchanged for
+// channels that render Markdown themselves.
+export type ChannelMarkup =
+  | 'plain'
+  | 'markdown'
+  | 'whatsapp'
+  | 'slack'
+  | 'telegram'
+  | 'html';
+
+export interface ChannelCapabilities {
+  // Longest message the platform accepts, in characters. Omit for no limit.
+  maxMessageLength?: number;
+  markup: ChannelMarkup;
+  // Features beyond plain send. The router degrades gracefully (e.g. sends
+  // a plain message instead) when a flag is false.
+  threads: boolean;
+  reactions: boolean;
+  attachments: boolean;
+  edits: boolean;
+  // Shortest gap between two edits of one message, for platforms that rate
+  // limit edits. Default: 1000.
+  minEditIntervalMs?: number;
+}
+
+// Where an outbound message should land relative to earlier messages.
+// Channels apply what their platform supports and ignore the rest.
+export interface SendOptions {
+  replyTo?: string; // Message ID to quote/answer
+  threadId?: string; // Thread to post in (a thread_id seen on inbound)
+}
+
+// A question with fixed choices, asked with the ask_user tool
+export interface Prompt {
+  id: string;
+  question: string;
+  choices: string[];
+}
+
 export interface Channel {
   name: string;
+  // Optional: what the platform supports. Channels that omit it receive
+  // Markdown as-is, with no length limit and no extra features.
+  capabilities?: ChannelCapabilities;
   connect(): Promise<void>;
-  sendMessage(jid: string, text: string): Promise<void>;
+  // Channels that can edit resolve with the platform's ID for the message
+  sendMessage(
+    jid: string,
+    text: string,
+    options?: SendOptions,
+  ): Promise<string | void>;
   isConnected(): boolean;
   ownsJid(jid: string): boolean;
   disconnect(): Promise<void>;
   // Optional: typing indicator. Channels that support it implement it.
   setTyping?(jid: string, isTyping: boolean): Promise<void>;
+  // Optional: send a file. Channels that implement it set
+  // capabilities.attachments; others get a plain-text notice instead.
+  sendFile?(
+    jid: string,
+    file: OutboundFile,
+    options?: SendOptions,
+  ): Promise<void>;
+  // Optional: replace the text of a message this channel sent. Channels
+  // that implement it set capabilities.edits.
+  editMessage?(jid: string, messageId: string, text: string): Promise<void>;
+  // Optional: react to a message with an emoji, replacing any reaction this
+  // channel made on it before. Channels that implement it set
+  // capabilities.reactions.
+  react?(jid: string, messageId: string, emoji: string): Promise<void>;
+  // Optional: ask a question with buttons or a poll. Answers come back
+  // through onPromptAnswer; channels without it get numbered text.
+  sendPrompt?(
+    jid: string,
+    prompt: Prompt,
+    options?: SendOptions,
+  ): Promise<string | void>;
   // Optional: sync group/chat names from the platform.
   syncGroups?(force: boolean): Promise<void>;
+  // Optional: whether the platform vouches for this sender ID. Channels
+  // whose senders anyone can claim (an HTTP body, an email From:) return
+  // false, and such IDs are never linked to a person. Omitted means yes.
+  isVerifiedSender?(sender: string): boolean;
 }
 
-// Callback type that channels use to deliver inbound messages
-export type OnInboundMessage = (chatJid: string, message: NewMessage) => void;
+// Callback type that channels use to deliver inbound messages, with any
+// media already downloaded
+export type OnInboundMessage = (
+  chatJid: string,
+  message: NewMessage,
+  attachments?: InboundAttachment[],
+) => void;
+
+// Callbacks for changes to a message already delivered: the sender edited
+// it (content is the full new text) or it was deleted
+export type OnMessageEdited = (
+  chatJid: string,
+  messageId: string,
+  sender: string, // Who made the edit; only the author's edits apply
+  content: string,
+  editedAt: string,
+) => void;
+export type OnMessageDeleted = (
+  chatJid: string,
+  messageId: string,
+  deletedAt: string,
+) => void;
+
+// A reaction someone added to (or, with removed, took off) a message
+export interface Reaction {
+  message_id: string; // The message reacted to
+  sender: string;
+  sender_name: string;
+  emoji: string;
+  timestamp: string;
+  reaction_id?: string; // The reaction's own ID, on platforms that give it one
+  removed?: boolean;
+}
+
+export type OnReaction = (chatJid: string, reaction: Reaction) => void;
+
+// Callback for channels that report a button press or poll vote on a
+// prompt; choice is the index into prompt.choices
+export type OnPromptAnswer = (
+  chatJid: string,
+  promptId: string,
+  choice: number,
+  sender: string,
+) => void;
+
+// A reaction to one of the assistant's own messages
+export interface Feedback {
+  message_id: string;
+  content: string; // The assistant's message
+  emoji: string;
+  sender_name: string;
+  timestamp: string;
+}
+
+// One human behind sender IDs on several platforms
+export interface Person {
+  id: string; // Short stable slug, e.g. "alice"
+  display_name: string;
+  roles: string[]; // Free-form, e.g. "admin"; usable in the sender allowlist
+  identities: PersonIdentity[]; // Linked platform sender IDs
+}
+
+// A sender ID is only unique within the channel that reported it
+export interface PersonIdentity {
+  channel: string; // Channel name, e.g. "signal" or "irc:work"
+  sender: string;
+}
 
 // Callback for chat metadata discovery.
 // name is optional — channels that deliver names inline (Telegram) pass it here;